@@ -1,63 +1,163 @@
-import chalk from 'chalk';
-import { LLMClient, Message } from './llm-client';
-import { ToolExecutor, ToolCall, ToolResult } from './tools';
-
-import ora from 'ora';
+import { LLMClient, LLMChatOptions, Message, ImagePart, createAbortError, isAbortError } from './llm-client';
+import { ContextOverflowError } from './llm-errors';
+import { contentText, userContent } from './images';
+import { ToolExecutor, ToolResult, VerificationResult, TOOLS_DEFINITION, READ_ONLY_TOOLS } from './tools';
+import { compactHistory, needsCompaction, estimateTokens, CompactionResult } from './compaction';
+import { TypedEventEmitter, AgentEvents, TurnMode } from './events';
+import { buildSystemPrompt } from './prompts';
+import { CheckpointStore } from './checkpoints';
+import { ProcessManager } from './processes';
+import { VerifyConfig } from './config';
+import { UsageTracker, TokenUsage } from './usage';
 
 export interface AgentOptions {
     toolsDefinition?: object[];
+    /** Context window of the model in tokens (enables automatic compaction) */
+    contextLength?: number;
+    /** Fraction of contextLength at which history gets compacted (default 0.75) */
+    compactThreshold?: number;
+    /** Verification command run after turns that modified files */
+    verify?: VerifyConfig;
+}
+
+export interface ChatOptions {
+    /** Stream the response; tokens are emitted as 'token' events */
+    stream?: boolean;
+    onChunk?: (chunk: string) => void;
+    debug?: boolean;
+    signal?: AbortSignal;
+    /** Images sent along with the user's message (see loadImage) */
+    images?: ImagePart[];
 }
 
-export class Agent {
+const PLAN_MODE_PROMPT = `PLAN MODE: Do not modify anything yet. You may only use the read-only tools (${READ_ONLY_TOOLS.join(', ')}) to explore.
+When you understand the task, reply with a plan in exactly this format:
+
+## Plan
+1. <step>
+2. <step>
+
+## Files to modify
+- <path>: <what changes>
+
+## Commands to run
+- <command>: <why>
+
+Write "none" under a section if it does not apply. Do not execute the plan.`;
+
+const VERIFY_OUTPUT_HEAD = 1000;
+const VERIFY_OUTPUT_TAIL = 3000;
+
+/**
+ * Keep the start and the end of long command output (errors are usually at the end)
+ */
+function trimOutput(output: string): string {
+    if (output.length <= VERIFY_OUTPUT_HEAD + VERIFY_OUTPUT_TAIL) return output;
+    const omitted = output.length - VERIFY_OUTPUT_HEAD - VERIFY_OUTPUT_TAIL;
+    return `${output.slice(0, VERIFY_OUTPUT_HEAD)}\n... (${omitted} chars omitted) ...\n${output.slice(-VERIFY_OUTPUT_TAIL)}`;
+}
+
+/**
+ * The agent loop. It renders nothing itself: subscribe to its events
+ * (see AgentEvents) or use attachTerminalRenderer for terminal output.
+ */
+export class Agent extends TypedEventEmitter<AgentEvents> {
     private llm: LLMClient;
     private tools: ToolExecutor;
     private toolsDefinition: object[];
     private history: Message[] = [];
     private maxSteps = 10;
+    private contextLength?: number;
+    private compactThreshold?: number;
+    private systemPrompt = '';
+    private approvedPlan: string | null = null;
+    private planStartIndex: number | null = null;
+    private verify?: VerifyConfig;
+    private lastVerification: VerificationResult | null = null;
+    private turnUsage = new UsageTracker();
 
     constructor(llm: LLMClient, tools: ToolExecutor, options?: AgentOptions) {
+        super();
         this.llm = llm;
         this.tools = tools;
-        this.toolsDefinition = options?.toolsDefinition ?? [];
+        this.toolsDefinition = options?.toolsDefinition?.length ? options.toolsDefinition : TOOLS_DEFINITION;
+        this.contextLength = options?.contextLength;
+        this.compactThreshold = options?.compactThreshold;
+        this.verify = options?.verify;
         this.initSystemPrompt();
+        this.tools.on('log', (e) => this.emit('tool:log', e));
+        this.tools.on('output', (e) => this.emit('tool:output', e));
+        this.tools.on('denied', (e) => this.emit('tool:denied', e));
+        this.llm.on('model:switch', (e) => this.emit('llm:switch', e));
+        this.llm.on('retry', (e) => this.emit('llm:retry', e));
+    }
+
+    /**
+     * Context window of the current model (changes with /model and /profile)
+     */
+    setContextLength(contextLength?: number) {
+        this.contextLength = contextLength;
     }
 
     private initSystemPrompt() {
-        const cwd = process.cwd();
-        const osType = process.platform === 'win32' ? 'Windows' : process.platform === 'darwin' ? 'macOS' : 'Linux';
-        const shell = osType === 'Windows' ? 'PowerShell' : 'bash';
-
-        this.history = [{
-            role: 'system',
-            content: `You are OpenCode, an autonomous coding agent in the user's terminal.
-
-ENVIRONMENT: ${osType}, ${shell}, CWD: ${cwd}
-
-TOOLS AVAILABLE:
-- list_files(path): List directory contents
-- read_file(path): Read file content  
-- write_file(path, content): Create/overwrite file
-- edit_file(path, old_text, new_text): Replace text in file
-- grep_search(pattern, path): Search for patterns
-- run_command(command): Execute shell command
-- create_directory(path): Create folder
-- git_status, git_diff, git_add(files), git_commit(message)
-
-WORKFLOW:
-1. UNDERSTAND the request
-2. EXPLORE using list_files, read_file
-3. PLAN your approach
-4. EXECUTE using tools
-5. VERIFY your changes
-
-RULES:
-- Always read a file before editing
-- Use tools to interact with the filesystem
-- Be concise in responses
-- Handle errors and try alternatives
-
-Respond to user requests by using the available tools.`
-        }];
+        this.systemPrompt = buildSystemPrompt(this.toolsDefinition);
+        this.approvedPlan = null;
+        this.planStartIndex = null;
+        this.history = [{ role: 'system', content: this.systemPrompt }];
+    }
+
+    /**
+     * Pin an approved plan to the system prompt so it survives compaction
+     */
+    private pinPlan(plan: string | null) {
+        this.approvedPlan = plan;
+        const content = plan
+            ? `${this.systemPrompt}\n\nAPPROVED PLAN (follow it step by step; ask before deviating):\n${plan}`
+            : this.systemPrompt;
+        if (this.history[0]?.role === 'system') {
+            this.history[0] = { ...this.history[0], content };
+        }
+    }
+
+    getCheckpoints(): CheckpointStore {
+        return this.tools.getCheckpoints();
+    }
+
+    getProcesses(): ProcessManager {
+        return this.tools.getProcesses();
+    }
+
+    getVerify(): VerifyConfig | undefined {
+        return this.verify;
+    }
+
+    setVerify(verify: VerifyConfig | undefined) {
+        this.verify = verify;
+    }
+
+    /**
+     * Result of the last verification run (null if the last turn changed no files)
+     */
+    getLastVerification(): VerificationResult | null {
+        return this.lastVerification;
+    }
+
+    /**
+     * Token usage of the last turn (including verification fix loops)
+     */
+    getLastTurnUsage(): UsageTracker {
+        return this.turnUsage;
+    }
+
+    /**
+     * Token usage of every request made through this agent's LLM client
+     */
+    getSessionUsage(): UsageTracker {
+        return this.llm.getSessionUsage();
+    }
+
+    getApprovedPlan(): string | null {
+        return this.approvedPlan;
     }
 
     addToContext(role: 'user' | 'system', content: string) {
@@ -76,35 +176,205 @@ Respond to user requests by using the available tools.`
         this.history = [...messages];
     }
 
-    async chat(userInput: string, options?: { stream?: boolean; onChunk?: (chunk: string) => void; debug?: boolean }): Promise<string | void> {
-        this.history.push({ role: 'user', content: userInput });
+    /**
+     * Compact the history into a summary. Without `force`, only compacts when
+     * the estimated size is over the budget.
+     */
+    async compact(options?: { force?: boolean; debug?: boolean; signal?: AbortSignal }): Promise<CompactionResult | null> {
+        const compactionOpts = {
+            contextLength: this.contextLength ?? 16384,
+            threshold: options?.force ? 0 : this.compactThreshold,
+            debug: options?.debug,
+            signal: options?.signal
+        };
+        if (!options?.force && (!this.contextLength || !needsCompaction(this.history, compactionOpts))) {
+            return null;
+        }
+        this.emit('compaction:start', { tokens: estimateTokens(this.history) });
+        const result = await compactHistory(this.history, this.llm, compactionOpts);
+        this.history = result.history;
+        this.emit('compaction:end', { result });
+        return result;
+    }
+
+    /**
+     * After a cancelled turn, answer every tool call of the last assistant
+     * message that has no result yet so the history stays valid.
+     */
+    private closeDanglingToolCalls() {
+        for (let i = this.history.length - 1; i >= 0; i--) {
+            const msg = this.history[i];
+            if (msg.role !== 'assistant') continue;
+            if (!msg.tool_calls || msg.tool_calls.length === 0) return;
+
+            const answered = this.history.length - 1 - i;
+            for (const toolCall of msg.tool_calls.slice(answered)) {
+                this.history.push({
+                    role: 'tool',
+                    content: 'Cancelled by user before this tool ran.',
+                    tool_call_id: toolCall.id || '',
+                    name: toolCall.function.name
+                });
+            }
+            return;
+        }
+    }
+
+    /**
+     * Plan mode: explore with read-only tools and return a plan for the user
+     * to approve. Nothing is modified until executePlan() is called.
+     */
+    async plan(task: string, options?: ChatOptions): Promise<string> {
+        this.planStartIndex = this.history.length;
+        this.history.push({ role: 'user', content: userContent(`${task}\n\n${PLAN_MODE_PROMPT}`, options?.images) });
+        const readOnlyTools = TOOLS_DEFINITION.filter(t => READ_ONLY_TOOLS.includes(t.function.name));
+        const plan = await this.runLoop(task, options, { toolsDefinition: readOnlyTools, allowedTools: READ_ONLY_TOOLS });
+        return plan || '';
+    }
+
+    /**
+     * Ask the model to revise the pending plan based on user feedback
+     */
+    async revisePlan(feedback: string, options?: ChatOptions): Promise<string> {
+        this.history.push({ role: 'user', content: `Revise the plan: ${feedback}\n\n${PLAN_MODE_PROMPT}` });
+        const readOnlyTools = TOOLS_DEFINITION.filter(t => READ_ONLY_TOOLS.includes(t.function.name));
+        const plan = await this.runLoop(feedback, options, { toolsDefinition: readOnlyTools, allowedTools: READ_ONLY_TOOLS });
+        return plan || '';
+    }
+
+    /**
+     * Drop the pending plan and the exploration that produced it
+     */
+    discardPlan() {
+        if (this.planStartIndex !== null) {
+            this.history = this.history.slice(0, this.planStartIndex);
+            this.planStartIndex = null;
+        }
+    }
+
+    /**
+     * Pin the approved plan and run the normal tool loop to carry it out
+     */
+    async executePlan(plan: string, options?: ChatOptions): Promise<string | void> {
+        this.planStartIndex = null;
+        this.pinPlan(plan);
+        // The images went with the task already
+        return this.chat('The plan above is approved. Execute it now.', { ...options, images: undefined });
+    }
+
+    async chat(userInput: string, options?: ChatOptions): Promise<string | void> {
+        this.history.push({ role: 'user', content: userContent(userInput, options?.images) });
+        this.tools.getCheckpoints().beginTurn(userInput);
+        this.lastVerification = null;
+        this.turnUsage.reset();
+
+        const response = await this.runLoop(userInput, options);
+        return this.verifyAndFix(response, options);
+    }
+
+    /**
+     * Run the verification command if this turn modified files. On failure the
+     * trimmed output goes back to the model, up to verify.maxAttempts times.
+     */
+    private async verifyAndFix(response: string | void, options?: ChatOptions): Promise<string | void> {
+        const verify = this.verify;
+        const files = this.tools.getCheckpoints().currentTurnFiles();
+        if (!verify || files.length === 0) return response;
+
+        for (let attempt = 1; ; attempt++) {
+            this.emit('verify:start', { command: verify.command, attempt, files });
+            let result: VerificationResult;
+            try {
+                result = await this.tools.runVerification(verify.command, { timeout: verify.timeout, signal: options?.signal });
+            } catch (error: any) {
+                if (isAbortError(error)) this.emit('turn:cancelled', { mode: 'chat' });
+                throw error;
+            }
+            this.lastVerification = result;
+            this.emit('verify:result', { result, attempt, maxAttempts: verify.maxAttempts });
+
+            if (result.passed || attempt > verify.maxAttempts) return response;
+
+            const feedback = `The verification command \`${verify.command}\` failed (exit code ${result.exitCode ?? 'unknown'}) after your changes. Output:
+\`\`\`
+${trimOutput(result.output)}
+\`\`\`
+Fix the problem, then reply with a short summary of what you changed.`;
+            this.history.push({ role: 'user', content: feedback });
+            response = await this.runLoop(feedback, options);
+        }
+    }
+
+    private async runLoop(input: string, options?: ChatOptions, scope?: { toolsDefinition: object[]; allowedTools: string[] }): Promise<string | void> {
+        const signal = options?.signal;
+        const toolsDefinition = scope?.toolsDefinition ?? this.toolsDefinition;
+        const mode: TurnMode = scope ? 'plan' : 'chat';
 
         let currentStep = 0;
-        const spinner = ora('Thinking...').start();
+        // The server said the history is too long: compact once per turn and try again
+        let compactedForOverflow = false;
+        this.emit('turn:start', { input, mode });
 
         try {
             while (currentStep < this.maxSteps) {
                 currentStep++;
+                if (signal?.aborted) throw createAbortError('Cancelled by user');
+
+                if (this.contextLength && needsCompaction(this.history, { contextLength: this.contextLength, threshold: this.compactThreshold })) {
+                    await this.compact({ debug: options?.debug, signal });
+                }
 
-                const useStream = options?.stream && options?.onChunk;
-                const chatOpts: { stream?: boolean; onChunk?: (c: string) => void; tools?: object[]; debug?: boolean } = useStream
-                    ? { stream: true, onChunk: options.onChunk! }
+                let usage: TokenUsage | undefined;
+                const chatOpts: LLMChatOptions = options?.stream
+                    ? {
+                        stream: true,
+                        onChunk: (text: string) => {
+                            this.emit('token', { text });
+                            options.onChunk?.(text);
+                        },
+                        onReasoning: (text: string) => this.emit('reasoning', { text })
+                    }
                     : {};
-                if (this.toolsDefinition.length > 0) chatOpts.tools = this.toolsDefinition;
+                if (toolsDefinition.length > 0) chatOpts.tools = toolsDefinition;
                 if (options?.debug) chatOpts.debug = true;
-                const response = await this.llm.chat(this.history, chatOpts);
+                if (signal) chatOpts.signal = signal;
+                chatOpts.onUsage = (u) => {
+                    usage = u;
+                    this.turnUsage.add(u);
+                };
+
+                this.emit('llm:request', { step: currentStep, messages: this.history, tools: toolsDefinition });
+                const requestStart = Date.now();
+                let response: Message;
+                try {
+                    response = await this.llm.chat(this.history, chatOpts);
+                } catch (error) {
+                    if (!(error instanceof ContextOverflowError) || compactedForOverflow) throw error;
+                    compactedForOverflow = true;
+                    await this.compact({ force: true, debug: options?.debug, signal });
+                    currentStep--;
+                    continue;
+                }
+                this.emit('llm:response', { step: currentStep, message: response, durationMs: Date.now() - requestStart, usage });
                 this.history.push(response);
 
-                // 2. Check for tool calls
+                // Check for tool calls
                 if (response.tool_calls && response.tool_calls.length > 0) {
-                    spinner.text = `Executing ${response.tool_calls.length} tools...`;
-
-                    // 3. Execute tools
                     for (const toolCall of response.tool_calls) {
-                        spinner.text = `Executing tool: ${toolCall.function.name}...`;
-                        const result = await this.tools.execute(toolCall);
+                        if (signal?.aborted) throw createAbortError('Cancelled by user');
+                        this.emit('tool:start', { step: currentStep, call: toolCall });
+                        const toolStart = Date.now();
+                        const result: ToolResult = scope && !scope.allowedTools.includes(toolCall.function.name)
+                            ? {
+                                tool_call_id: toolCall.id || '',
+                                role: 'tool',
+                                name: toolCall.function.name,
+                                content: `Tool ${toolCall.function.name} is not available in plan mode. Only read-only tools may be used until the plan is approved.`
+                            }
+                            : await this.tools.execute(toolCall, { signal });
+                        this.emit('tool:finish', { step: currentStep, call: toolCall, result, durationMs: Date.now() - toolStart });
 
-                        // 4. Add result to history
+                        // Add result to history
                         this.history.push({
                             role: 'tool',
                             content: result.content,
@@ -112,22 +382,23 @@ Respond to user requests by using the available tools.`
                             name: result.name
                         });
                     }
-                    spinner.text = 'Analyzing results...';
                     // Loop continues to let LLM see the results
                 } else {
                     // No tools, just text response. We are done with this turn.
-                    spinner.stop();
-                    return response.content || ''; // Return content for caller to render
+                    const content = contentText(response.content);
+                    this.emit('turn:end', { response: content, mode, steps: currentStep });
+                    return content;
                 }
             }
         } catch (error: any) {
-            spinner.fail('An error occurred');
-            console.error('\n   Error details:', error.message);
-            if (options?.debug && error.stack) {
-                console.error('   Stack:', error.stack);
+            if (isAbortError(error) && signal?.aborted) {
+                this.closeDanglingToolCalls();
+                this.emit('turn:cancelled', { mode });
+                throw error;
             }
+            this.emit('turn:error', { error, mode });
             throw error;
         }
-        spinner.stop();
+        this.emit('step-limit', { steps: currentStep, mode });
     }
 }
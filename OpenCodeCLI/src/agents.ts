@@ -1,5 +1,8 @@
-import { LLMClient, Message } from './llm-client';
+import { LLMClient, Message, isAbortError } from './llm-client';
+import { contentText } from './images';
 import { ToolExecutor, ToolCall, TOOLS_DEFINITION } from './tools';
+import { TokenUsage } from './usage';
+import { SamplingDefaults } from './config-schema';
 import chalk from 'chalk';
 
 export interface SubAgent {
@@ -9,6 +12,8 @@ export interface SubAgent {
     systemPrompt: string;
     tools: string[];  // Tool names this agent can use
     maxSteps: number;
+    /** Request parameters for this agent, over the model's and the session's */
+    sampling?: SamplingDefaults;
 }
 
 // Built-in specialist agents
@@ -30,7 +35,9 @@ Format your review as:
 - 🟡 Warning: Should fix
 - 🟢 Suggestion: Nice to have`,
         tools: ['read_file', 'grep_search', 'list_files'],
-        maxSteps: 5
+        maxSteps: 5,
+        // Same code, same review
+        sampling: { temperature: 0, seed: 42 }
     },
     {
         name: 'tester',
@@ -67,8 +74,9 @@ Documentation should be:
 - Include parameter and return type descriptions
 - Provide usage examples
 - Explain the "why" not just the "what"`,
-        tools: ['read_file', 'write_file', 'edit_file', 'list_files'],
-        maxSteps: 8
+        tools: ['read_file', 'write_file', 'edit_file', 'apply_patch', 'list_files'],
+        maxSteps: 8,
+        sampling: { temperature: 0.7 }
     },
     {
         name: 'refactorer',
@@ -86,7 +94,7 @@ When refactoring:
 - Preserve existing functionality
 - Explain the reasoning for each change
 - Consider backwards compatibility`,
-        tools: ['read_file', 'write_file', 'edit_file', 'grep_search', 'list_files', 'run_command'],
+        tools: ['read_file', 'write_file', 'edit_file', 'apply_patch', 'grep_search', 'list_files', 'run_command'],
         maxSteps: 10
     },
     {
@@ -105,7 +113,7 @@ When debugging:
 - Check assumptions about data
 - Look for off-by-one errors, null references, type issues
 - Consider race conditions and edge cases`,
-        tools: ['read_file', 'grep_search', 'list_files', 'run_command', 'edit_file'],
+        tools: ['read_file', 'grep_search', 'list_files', 'run_command', 'edit_file', 'apply_patch'],
         maxSteps: 8
     }
 ];
@@ -142,7 +150,7 @@ export async function runSubAgent(
     task: string,
     llm: LLMClient,
     toolExecutor: ToolExecutor,
-    options?: { onProgress?: (msg: string) => void; debug?: boolean }
+    options?: { onProgress?: (msg: string) => void; debug?: boolean; signal?: AbortSignal; onUsage?: (usage: TokenUsage) => void }
 ): Promise<string> {
     const agentTools = getAgentTools(agent);
 
@@ -166,7 +174,11 @@ export async function runSubAgent(
         try {
             const response = await llm.chat(history, {
                 tools: agentTools.length > 0 ? agentTools : undefined,
-                debug: options?.debug
+                debug: options?.debug,
+                signal: options?.signal,
+                onUsage: options?.onUsage,
+                use: `agent:${agent.name}`,
+                sampling: agent.sampling
             });
             history.push(response);
 
@@ -174,7 +186,7 @@ export async function runSubAgent(
             if (response.tool_calls && response.tool_calls.length > 0) {
                 for (const toolCall of response.tool_calls) {
                     options?.onProgress?.(`  → ${toolCall.function.name}`);
-                    const result = await toolExecutor.execute(toolCall);
+                    const result = await toolExecutor.execute(toolCall, { signal: options?.signal });
                     history.push({
                         role: 'tool',
                         content: result.content,
@@ -184,9 +196,10 @@ export async function runSubAgent(
                 }
             } else {
                 // No tools, return final response
-                return response.content || 'Agent completed without response.';
+                return contentText(response.content) || 'Agent completed without response.';
             }
         } catch (error: any) {
+            if (isAbortError(error)) throw error;
             return `Agent error: ${error.message}`;
         }
     }
@@ -198,9 +211,10 @@ export async function runSubAgent(
     });
 
     try {
-        const summary = await llm.chat(history, { debug: options?.debug });
-        return summary.content || 'Agent completed without summary.';
+        const summary = await llm.chat(history, { debug: options?.debug, signal: options?.signal, onUsage: options?.onUsage, use: `agent:${agent.name}`, sampling: agent.sampling });
+        return contentText(summary.content) || 'Agent completed without summary.';
     } catch (error: any) {
+        if (isAbortError(error)) throw error;
         return `Agent completed but failed to summarize: ${error.message}`;
     }
 }
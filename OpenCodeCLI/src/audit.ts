@@ -11,7 +11,7 @@ export function getAuditPath(): string | null {
     return auditPath;
 }
 
-export function auditLog(entry: { tool: string; args: unknown; result?: string; error?: string }) {
+function append(entry: object) {
     if (!auditPath) return;
     try {
         const line = JSON.stringify({
@@ -24,3 +24,14 @@ export function auditLog(entry: { tool: string; args: unknown; result?: string;
         /* ignore */
     }
 }
+
+export function auditLog(entry: { tool: string; args: unknown; result?: string; error?: string }) {
+    append(entry);
+}
+
+/**
+ * Things that happen outside tool calls (e.g. a switch to a fallback model)
+ */
+export function auditEvent(event: string, details: object) {
+    append({ event, ...details });
+}
@@ -0,0 +1,174 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
+import { LLMErrorKind, NetworkError } from './llm-errors';
+
+/**
+ * Cassettes hold the HTTP traffic of LLMClient.chat so that Agent and
+ * runSubAgent runs can be replayed offline (tests, bug reports). Streamed
+ * responses are kept as the raw chunks, so replaying them goes through the
+ * same stream parsing as a live response.
+ */
+
+export const CASSETTE_VERSION = 1;
+
+export interface CassetteEntry {
+    /** Hash of the request URL and body (see requestHash) */
+    hash: string;
+    request: { url: string; body: unknown };
+    response: {
+        status: number;
+        /** Body of a non-streamed (or error) response */
+        body?: string;
+        /** Raw chunks of a streamed response, in arrival order */
+        chunks?: string[];
+        /** Network error message (e.g. ECONNREFUSED) instead of a response */
+        error?: string;
+        /** How LLMClient classified the error, so replay retries and fails over the same way */
+        errorKind?: LLMErrorKind;
+        /** Headers that matter for replay (Retry-After) */
+        headers?: Record<string, string>;
+    };
+}
+
+export interface CassetteFile {
+    version: number;
+    entries: CassetteEntry[];
+}
+
+/**
+ * 'hash' serves the entry recorded for an identical request, 'order' the next
+ * entry in sequence, 'auto' tries the hash first and then falls back to order
+ * (prompts containing the date or cwd change between runs)
+ */
+export type CassetteMatch = 'auto' | 'hash' | 'order';
+
+export const CASSETTE_MATCHES: CassetteMatch[] = ['auto', 'hash', 'order'];
+
+/** Raised when a replayed request has no recorded response */
+export class CassetteMissError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CassetteMissError';
+    }
+}
+
+/**
+ * JSON with sorted keys, so equal requests hash the same
+ */
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return `{${Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export function requestHash(url: string, body: unknown): string {
+    return createHash('sha256').update(`${url}\n${stableStringify(body)}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Appends every exchange to a cassette file. The file is rewritten after
+ * each entry so a crashed run still leaves a usable cassette.
+ */
+export class CassetteRecorder {
+    private entries: CassetteEntry[] = [];
+    readonly filePath: string;
+
+    constructor(filePath: string) {
+        this.filePath = path.resolve(filePath);
+    }
+
+    record(url: string, body: unknown, response: CassetteEntry['response']) {
+        this.entries.push({ hash: requestHash(url, body), request: { url, body }, response });
+        const file: CassetteFile = { version: CASSETTE_VERSION, entries: this.entries };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2), 'utf-8');
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+}
+
+/**
+ * A stand-in for a node-fetch Response built from a recorded entry
+ */
+export interface ReplayedResponse {
+    ok: boolean;
+    status: number;
+    headers: { get(name: string): string | null };
+    body: NodeJS.ReadableStream | null;
+    text(): Promise<string>;
+}
+
+export class CassettePlayer {
+    private entries: CassetteEntry[];
+    private used = new Set<number>();
+    private cursor = 0;
+    readonly filePath: string;
+
+    constructor(filePath: string, private match: CassetteMatch = 'auto') {
+        this.filePath = path.resolve(filePath);
+        let data: CassetteFile;
+        try {
+            data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        } catch (e: any) {
+            throw new Error(`Cannot read cassette ${this.filePath}: ${e.message}`);
+        }
+        if (data?.version !== CASSETTE_VERSION || !Array.isArray(data.entries)) {
+            throw new Error(`Invalid cassette ${this.filePath}: expected { "version": ${CASSETTE_VERSION}, "entries": [...] }`);
+        }
+        this.entries = data.entries;
+    }
+
+    /** Entries not served yet */
+    get remaining(): number {
+        return this.entries.length - this.used.size;
+    }
+
+    private take(index: number): CassetteEntry {
+        this.used.add(index);
+        this.cursor = Math.max(this.cursor, index + 1);
+        return this.entries[index];
+    }
+
+    private find(url: string, body: unknown): CassetteEntry {
+        if (this.match !== 'order') {
+            const hash = requestHash(url, body);
+            const index = this.entries.findIndex((e, i) => !this.used.has(i) && e.hash === hash);
+            if (index !== -1) return this.take(index);
+            if (this.match === 'hash') {
+                throw new CassetteMissError(`No recorded response for request ${hash} to ${url} in ${this.filePath}`);
+            }
+        }
+        let index = this.cursor;
+        while (index < this.entries.length && this.used.has(index)) index++;
+        if (index >= this.entries.length) {
+            throw new CassetteMissError(`Cassette ${this.filePath} has no more recorded responses (${this.entries.length} used)`);
+        }
+        return this.take(index);
+    }
+
+    /**
+     * The recorded response for a request. Network errors are thrown again,
+     * as the error class they were classified as when recorded.
+     */
+    replay(url: string, body: unknown): ReplayedResponse {
+        const { response } = this.find(url, body);
+        if (response.error !== undefined) {
+            throw response.errorKind === 'network' ? new NetworkError(response.error) : new Error(response.error);
+        }
+        const text = response.body ?? (response.chunks ?? []).join('');
+        return {
+            ok: response.status >= 200 && response.status < 300,
+            status: response.status,
+            headers: { get: (name: string) => response.headers?.[name.toLowerCase()] ?? null },
+            body: response.chunks ? Readable.from(response.chunks.map(c => Buffer.from(c))) : null,
+            text: async () => text
+        };
+    }
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/** Contents of a file before (or after) a turn; null means it did not exist */
+export interface FileSnapshot {
+    path: string;
+    before: string | null;
+    after?: string | null;
+}
+
+export interface Checkpoint {
+    id: number;
+    label: string;
+    timestamp: number;
+    files: FileSnapshot[];
+}
+
+const MAX_CHECKPOINTS = 50;
+
+async function readOrNull(fullPath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(fullPath, 'utf-8');
+    } catch (e: any) {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+    }
+}
+
+async function restore(fullPath: string, content: string | null): Promise<void> {
+    if (content === null) {
+        await fs.rm(fullPath, { force: true });
+        return;
+    }
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content, 'utf-8');
+}
+
+/**
+ * Per-turn file checkpoints. ToolExecutor snapshots every file before a
+ * mutating tool touches it; /undo and /redo restore whole turns. Works
+ * without git since the snapshots are kept in memory.
+ */
+export class CheckpointStore {
+    private checkpoints: Checkpoint[] = [];
+    private redoStack: Checkpoint[] = [];
+    private current: Checkpoint | null = null;
+    private nextId = 1;
+
+    /**
+     * Start grouping snapshots under a new turn
+     */
+    beginTurn(label: string) {
+        this.current = { id: this.nextId++, label, timestamp: Date.now(), files: [] };
+    }
+
+    /**
+     * Record the prior contents of a file, once per turn
+     */
+    async snapshot(fullPath: string): Promise<void> {
+        if (!this.current) this.beginTurn('(manual)');
+        const turn = this.current!;
+        if (turn.files.some(f => f.path === fullPath)) return;
+
+        turn.files.push({ path: fullPath, before: await readOrNull(fullPath) });
+        if (turn.files.length === 1) {
+            this.checkpoints.push(turn);
+            if (this.checkpoints.length > MAX_CHECKPOINTS) this.checkpoints.shift();
+            // A new change invalidates anything that was undone
+            this.redoStack = [];
+        }
+    }
+
+    /**
+     * Files modified in the current turn
+     */
+    currentTurnFiles(): string[] {
+        return this.current?.files.map(f => f.path) ?? [];
+    }
+
+    /**
+     * Restore the files of the last turn to their prior contents
+     */
+    async undo(): Promise<Checkpoint | null> {
+        const checkpoint = this.checkpoints.pop();
+        if (!checkpoint) return null;
+
+        for (const file of [...checkpoint.files].reverse()) {
+            file.after = await readOrNull(file.path);
+            await restore(file.path, file.before);
+        }
+        this.redoStack.push(checkpoint);
+        if (this.current === checkpoint) this.current = null;
+        return checkpoint;
+    }
+
+    /**
+     * Reapply the last undone turn
+     */
+    async redo(): Promise<Checkpoint | null> {
+        const checkpoint = this.redoStack.pop();
+        if (!checkpoint) return null;
+
+        for (const file of checkpoint.files) {
+            await restore(file.path, file.after ?? null);
+        }
+        this.checkpoints.push(checkpoint);
+        return checkpoint;
+    }
+
+    list(): Checkpoint[] {
+        return [...this.checkpoints];
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+}
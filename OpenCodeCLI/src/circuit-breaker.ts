@@ -0,0 +1,39 @@
+/**
+ * Tracks endpoints that failed so LLMClient can skip them for a while.
+ * After the cooldown the next request probes the endpoint once (half-open);
+ * a success closes the circuit, a failure opens it again.
+ */
+export class CircuitBreaker {
+    private openUntil = new Map<string, number>();
+
+    constructor(private cooldown: number) {}
+
+    setCooldown(cooldown: number) {
+        this.cooldown = cooldown;
+    }
+
+    /** Failed recently: skip it */
+    isOpen(key: string): boolean {
+        const until = this.openUntil.get(key);
+        return until !== undefined && Date.now() < until;
+    }
+
+    /** Failed before and the cooldown is over: the next request is a probe */
+    isProbing(key: string): boolean {
+        const until = this.openUntil.get(key);
+        return until !== undefined && Date.now() >= until;
+    }
+
+    recordFailure(key: string) {
+        this.openUntil.set(key, Date.now() + this.cooldown);
+    }
+
+    recordSuccess(key: string) {
+        this.openUntil.delete(key);
+    }
+
+    /** Keys with an open circuit and when they will be probed again */
+    getOpen(): { key: string; retryAt: number }[] {
+        return [...this.openUntil.entries()].map(([key, retryAt]) => ({ key, retryAt }));
+    }
+}
@@ -0,0 +1,174 @@
+import { LLMClient, Message } from './llm-client';
+import { contentText, countImages } from './images';
+
+export interface CompactionOptions {
+    /** Total context window of the model, in tokens */
+    contextLength: number;
+    /** Fraction of the context window at which compaction kicks in (default 0.75) */
+    threshold?: number;
+    /** Number of most recent messages kept verbatim (default 6) */
+    keepRecent?: number;
+    /** Tool outputs longer than this (chars) are replaced by a stub (default 600) */
+    stubThreshold?: number;
+    debug?: boolean;
+    signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+    history: Message[];
+    tokensBefore: number;
+    tokensAfter: number;
+    stubbed: number;
+    summarized: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD = 4;
+const MAX_TRANSCRIPT_ENTRY = 2000;
+/** Rough cost of one image at the sizes loadImage sends */
+const IMAGE_TOKENS = 1600;
+
+const SUMMARY_PROMPT = `You compress conversations between a user and a coding agent.
+Summarize the transcript below so the agent can continue the work without it.
+Keep: the user's goals and constraints, decisions made, files read or modified (with paths),
+commands run and their outcome, errors encountered, and any open TODOs.
+Drop: pleasantries, full file contents and verbose tool output.
+Reply with the summary only, as concise bullet points.`;
+
+/**
+ * Rough token estimate for a list of messages (chars / 4 plus per-message overhead)
+ */
+export function estimateTokens(messages: Message[]): number {
+    let chars = 0;
+    let images = 0;
+    for (const m of messages) {
+        chars += contentText(m.content).length;
+        images += countImages(m.content);
+        if (m.tool_calls) {
+            for (const tc of m.tool_calls) {
+                chars += tc.function.name.length + tc.function.arguments.length;
+            }
+        }
+    }
+    return Math.ceil(chars / CHARS_PER_TOKEN) + images * IMAGE_TOKENS + messages.length * MESSAGE_OVERHEAD;
+}
+
+/**
+ * Token count above which the history should be compacted
+ */
+export function compactionLimit(options: CompactionOptions): number {
+    return Math.floor(options.contextLength * (options.threshold ?? 0.75));
+}
+
+export function needsCompaction(history: Message[], options: CompactionOptions): boolean {
+    return estimateTokens(history) > compactionLimit(options);
+}
+
+/**
+ * Find the index where the verbatim tail starts. Never splits an assistant
+ * message from the tool results that answer its tool_calls: the tail starts
+ * at that assistant message, or after its results if it is the first one.
+ */
+function findRecentBoundary(history: Message[], keepRecent: number): number {
+    const start = Math.max(1, history.length - keepRecent);
+    let boundary = start;
+    while (boundary > 0 && history[boundary]?.role === 'tool') {
+        boundary--;
+    }
+    if (boundary > 0) return boundary;
+    boundary = start;
+    while (boundary < history.length && history[boundary].role === 'tool') {
+        boundary++;
+    }
+    return boundary < history.length ? boundary : 0;
+}
+
+function stubToolOutput(m: Message, stubThreshold: number): Message {
+    if (m.role !== 'tool' || typeof m.content !== 'string' || m.content.length <= stubThreshold) return m;
+    const firstLine = m.content.split('\n')[0].slice(0, 120);
+    return {
+        ...m,
+        content: `[Output of ${m.name || 'tool'} removed during compaction: ${m.content.length} chars. First line: ${firstLine}]`
+    };
+}
+
+function formatTranscript(messages: Message[]): string {
+    const lines: string[] = [];
+    for (const m of messages) {
+        let text = contentText(m.content);
+        if (text.length > MAX_TRANSCRIPT_ENTRY) {
+            text = text.slice(0, MAX_TRANSCRIPT_ENTRY) + '\n... (truncated)';
+        }
+        if (m.tool_calls && m.tool_calls.length > 0) {
+            const calls = m.tool_calls.map(tc => `${tc.function.name}(${tc.function.arguments.slice(0, 200)})`);
+            text += (text ? '\n' : '') + `Tool calls: ${calls.join(', ')}`;
+        }
+        const label = m.role === 'tool' ? `tool ${m.name || ''}`.trim() : m.role;
+        lines.push(`[${label}]\n${text}`);
+    }
+    return lines.join('\n\n');
+}
+
+/**
+ * Compact a conversation: the system prompt and the most recent messages stay
+ * verbatim, large old tool outputs become stubs and, if that is not enough,
+ * older turns are replaced by an LLM-written summary.
+ */
+export async function compactHistory(history: Message[], llm: LLMClient, options: CompactionOptions): Promise<CompactionResult> {
+    const tokensBefore = estimateTokens(history);
+    const keepRecent = options.keepRecent ?? 6;
+    const stubThreshold = options.stubThreshold ?? 600;
+
+    const hasSystem = history[0]?.role === 'system';
+    const head = hasSystem ? [history[0]] : [];
+    const body = hasSystem ? history.slice(1) : history.slice();
+    const boundary = findRecentBoundary(body, keepRecent);
+
+    if (boundary <= 0 || body.length <= keepRecent) {
+        return { history, tokensBefore, tokensAfter: tokensBefore, stubbed: 0, summarized: 0 };
+    }
+
+    const older = body.slice(0, boundary);
+    const recent = body.slice(boundary);
+
+    // 1. Replace large old tool outputs with short stubs
+    let stubbed = 0;
+    const stubbedOlder = older.map(m => {
+        const s = stubToolOutput(m, stubThreshold);
+        if (s !== m) stubbed++;
+        return s;
+    });
+
+    let compacted = [...head, ...stubbedOlder, ...recent];
+    // Target well below the limit so we don't compact again on the next step
+    const target = Math.floor(compactionLimit(options) * 0.6);
+    if (estimateTokens(compacted) <= target) {
+        return { history: compacted, tokensBefore, tokensAfter: estimateTokens(compacted), stubbed, summarized: 0 };
+    }
+
+    // 2. Summarize the older turns
+    let transcript = formatTranscript(stubbedOlder);
+    const maxTranscriptChars = Math.floor(options.contextLength * CHARS_PER_TOKEN * 0.5);
+    if (transcript.length > maxTranscriptChars) {
+        transcript = '... (earlier messages omitted)\n\n' + transcript.slice(transcript.length - maxTranscriptChars);
+    }
+
+    const response = await llm.chat([
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: transcript }
+    ], { tools: [], debug: options.debug, signal: options.signal, use: 'summary' });
+
+    const summary = contentText(response.content).trim();
+    if (!summary) {
+        return { history: compacted, tokensBefore, tokensAfter: estimateTokens(compacted), stubbed, summarized: 0 };
+    }
+
+    // A user message: a second system message mid-history is not accepted everywhere
+    compacted = [
+        ...head,
+        { role: 'user', content: `Summary of the earlier conversation (compacted):\n${summary}` },
+        ...recent
+    ];
+
+    return { history: compacted, tokensBefore, tokensAfter: estimateTokens(compacted), stubbed, summarized: older.length };
+}
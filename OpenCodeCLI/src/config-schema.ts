@@ -0,0 +1,474 @@
+import { ModelPricing } from './usage';
+import { ProviderKind, PROVIDER_KINDS, resolveProviderKind } from './providers';
+import { RateLimits } from './rate-limiter';
+import { ReasoningConfig, REASONING_DISPLAYS } from './reasoning';
+import { PermissionsConfig, PERMISSION_ACTIONS } from './permissions';
+
+/**
+ * Versioned schema of opencode.json: named providers, their models and
+ * named profiles that pick a provider/model pair.
+ */
+
+export const CONFIG_VERSION = 2;
+
+/** 'auto', 'none', 'required' or the name of one tool the model must call */
+export type ToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+
+/** Request parameters of a model (config), a sub-agent or the session (/set) */
+export interface SamplingDefaults {
+    temperature?: number;
+    top_p?: number;
+    max_tokens?: number;
+    /** Sequences that end the reply */
+    stop?: string | string[];
+    /** For reproducible sampling, where the server supports it */
+    seed?: number;
+    tool_choice?: ToolChoice;
+}
+
+export const SAMPLING_KEYS: (keyof SamplingDefaults)[] = ['temperature', 'top_p', 'max_tokens', 'stop', 'seed', 'tool_choice'];
+
+export interface ModelEntry {
+    /** Display name */
+    name?: string;
+    contextLength?: number;
+    /** 'prompt' injects the tool schemas into the system prompt instead of sending `tools` */
+    toolCalling?: 'native' | 'prompt';
+    /** false is shorthand for toolCalling: 'prompt' */
+    tools?: boolean;
+    /** Accepts images; false replaces them with a note (unset: send them and see) */
+    vision?: boolean;
+    pricing?: ModelPricing;
+    sampling?: SamplingDefaults;
+}
+
+export interface ProviderEntry {
+    type?: ProviderKind;
+    name?: string;
+    baseURL: string;
+    apiKey?: string;
+    models: Record<string, ModelEntry>;
+}
+
+export interface ProfileEntry {
+    provider: string;
+    model: string;
+    description?: string;
+}
+
+/** A profile name or an explicit provider/model pair */
+export type ModelRef = string | { provider: string; model: string };
+
+export interface FallbackConfig {
+    /** Tried in order when the current model keeps failing */
+    models: ModelRef[];
+    /** How long a failed model is skipped before it is probed again, in ms (default 60000) */
+    cooldown?: number;
+}
+
+/**
+ * Keys of `routing`: the main agent, history summaries, all sub-agents, or
+ * one sub-agent as "agent:<name>"
+ */
+export const ROUTE_USES = ['main', 'summary', 'agent'];
+
+export interface ConfigFile {
+    version: number;
+    providers: Record<string, ProviderEntry>;
+    profiles?: Record<string, ProfileEntry>;
+    /** Profile used when neither --profile nor OPENCODE_PROFILE is given */
+    defaultProfile?: string;
+    /** Provider id to use, overriding the profile's (e.g. set by a project) */
+    provider?: string;
+    /** Model to use, overriding the profile's */
+    model?: string;
+    timeout?: number;
+    retries?: number;
+    compactThreshold?: number;
+    verify?: unknown;
+    /** Commands auto-approved with --yes */
+    allowCommands?: string[];
+    /** Default run_command timeout in ms (0 for none) */
+    commandTimeout?: number;
+    /** Characters of command output sent to the model */
+    commandOutputLimit?: number;
+    /** Globs the file tools need approval to read or write */
+    protectedPaths?: string[];
+    /** Allow/ask/deny rules for tools and shell commands */
+    permissions?: PermissionsConfig;
+    /** Directory with plugin tools */
+    pluginDir?: string;
+    /** Models to switch to when requests keep failing */
+    fallback?: FallbackConfig;
+    /** Model per use (see ROUTE_USES), instead of the active one */
+    routing?: Record<string, ModelRef>;
+    /** Client-side request limits shared by the agent and sub-agents */
+    rateLimit?: RateLimits;
+    /** Display and history handling of thinking models' reasoning */
+    reasoning?: ReasoningConfig;
+}
+
+/**
+ * A project's .opencode/config.json: the same keys, all optional. Providers
+ * are merged by id, so a project can override just a baseURL or add a model.
+ */
+export type PartialConfigFile = Partial<Omit<ConfigFile, 'providers'>> & {
+    providers?: Record<string, Partial<ProviderEntry>>;
+};
+
+export interface ConfigIssue {
+    /** Location of the problem, e.g. providers.colab.models["qwen2.5-coder:7b"].contextLength */
+    path: string;
+    message: string;
+    severity: 'error' | 'warning';
+}
+
+/**
+ * Thrown by loadConfig with every problem found, not just the first one
+ */
+export class ConfigError extends Error {
+    constructor(public readonly issues: ConfigIssue[], public readonly file?: string) {
+        super(`Invalid config${file ? ` in ${file}` : ''}: ${issues.filter(i => i.severity === 'error').length} error(s)`);
+        this.name = 'ConfigError';
+    }
+}
+
+export function formatIssues(issues: ConfigIssue[]): string[] {
+    return issues.map(i => `${i.severity === 'error' ? 'error' : 'warning'}: ${i.path || '(root)'}: ${i.message}`);
+}
+
+function joinPath(base: string, key: string): string {
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) return base ? `${base}.${key}` : key;
+    return `${base}[${JSON.stringify(key)}]`;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The colab-era format has a `provider` map in the opencode.ai style and no version
+ */
+export function isLegacyConfig(raw: unknown): boolean {
+    return isObject(raw) && raw.version === undefined && isObject(raw.provider);
+}
+
+/**
+ * Convert { provider: { colab: { options: { baseURL }, models } } } to the
+ * versioned schema. The first model of the first provider becomes the
+ * default profile, which is what the old loader used.
+ */
+export function migrateLegacyConfig(raw: Record<string, any>): ConfigFile {
+    const providers: Record<string, ProviderEntry> = {};
+    for (const [id, entry] of Object.entries<any>(raw.provider ?? {})) {
+        if (!isObject(entry)) continue;
+        const provider: ProviderEntry = {
+            type: resolveProviderKind(entry),
+            baseURL: entry.options?.baseURL,
+            models: isObject(entry.models) ? entry.models : {}
+        };
+        if (entry.name) provider.name = entry.name;
+        if (entry.options?.apiKey) provider.apiKey = entry.options.apiKey;
+        providers[id] = provider;
+    }
+
+    const file: ConfigFile = { version: CONFIG_VERSION, providers };
+    const firstId = raw.provider?.colab ? 'colab' : Object.keys(providers)[0];
+    const firstModel = firstId ? Object.keys(providers[firstId].models)[0] : undefined;
+    if (firstId && firstModel) {
+        file.profiles = { default: { provider: firstId, model: firstModel } };
+        file.defaultProfile = 'default';
+    }
+    for (const key of ['timeout', 'retries', 'compactThreshold', 'verify'] as const) {
+        if (raw[key] !== undefined) file[key] = raw[key];
+    }
+    return file;
+}
+
+/**
+ * Check sampling parameters (also used for /set)
+ */
+export function validateSampling(raw: unknown, path: string): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const error = (p: string, message: string) => issues.push({ path: p, message, severity: 'error' });
+    if (!isObject(raw)) {
+        error(path, 'must be an object');
+        return issues;
+    }
+    for (const key of Object.keys(raw)) {
+        if (!(SAMPLING_KEYS as string[]).includes(key)) issues.push({ path: joinPath(path, key), message: 'unknown key (ignored)', severity: 'warning' });
+    }
+    const inRange = (key: string, min: number, max: number) => {
+        const value = raw[key];
+        if (value !== undefined && (typeof value !== 'number' || value < min || value > max)) error(joinPath(path, key), `must be a number between ${min} and ${max}`);
+    };
+    inRange('temperature', 0, 2);
+    inRange('top_p', 0, 1);
+    if (raw.max_tokens !== undefined && (!Number.isInteger(raw.max_tokens) || raw.max_tokens <= 0)) {
+        error(joinPath(path, 'max_tokens'), 'must be a positive integer');
+    }
+    if (raw.seed !== undefined && !Number.isInteger(raw.seed)) error(joinPath(path, 'seed'), 'must be an integer');
+    if (raw.stop !== undefined && typeof raw.stop !== 'string' && !(Array.isArray(raw.stop) && raw.stop.every((s: unknown) => typeof s === 'string'))) {
+        error(joinPath(path, 'stop'), 'must be a string or an array of strings');
+    }
+    const choice = raw.tool_choice;
+    if (choice !== undefined && !['auto', 'none', 'required'].includes(choice) && !(isObject(choice) && typeof choice.function?.name === 'string')) {
+        error(joinPath(path, 'tool_choice'), 'must be "auto", "none", "required" or { "type": "function", "function": { "name": <tool> } }');
+    }
+    return issues;
+}
+
+const PROVIDER_KEYS = ['type', 'name', 'baseURL', 'apiKey', 'models'];
+const MODEL_KEYS = ['name', 'contextLength', 'toolCalling', 'tools', 'vision', 'pricing', 'sampling'];
+const PROFILE_KEYS = ['provider', 'model', 'description'];
+const ROOT_KEYS = [
+    '$schema', 'version', 'providers', 'profiles', 'defaultProfile', 'provider', 'model',
+    'timeout', 'retries', 'compactThreshold', 'verify', 'allowCommands', 'commandTimeout', 'commandOutputLimit', 'protectedPaths', 'permissions', 'pluginDir', 'fallback', 'routing', 'rateLimit', 'reasoning'
+];
+
+/**
+ * Check a parsed config file and report every problem with its path. With
+ * `partial` (project configs) nothing is required and references to
+ * providers/profiles are left for the merged config.
+ */
+export function validateConfig(raw: unknown, options: { partial?: boolean } = {}): ConfigIssue[] {
+    const partial = options.partial ?? false;
+    const issues: ConfigIssue[] = [];
+    const error = (path: string, message: string) => issues.push({ path, message, severity: 'error' });
+    const warn = (path: string, message: string) => issues.push({ path, message, severity: 'warning' });
+
+    const unknownKeys = (obj: Record<string, any>, allowed: string[], path: string) => {
+        for (const key of Object.keys(obj)) {
+            if (!allowed.includes(key)) warn(joinPath(path, key), 'unknown key (ignored)');
+        }
+    };
+    const positiveNumber = (value: unknown, path: string, integer = false) => {
+        if (value === undefined) return;
+        if (typeof value !== 'number' || !(value > 0) || (integer && !Number.isInteger(value))) {
+            error(path, `must be a positive ${integer ? 'integer' : 'number'}`);
+        }
+    };
+    const numberInRange = (value: unknown, path: string, min: number, max: number) => {
+        if (value === undefined) return;
+        if (typeof value !== 'number' || value < min || value > max) error(path, `must be a number between ${min} and ${max}`);
+    };
+
+    if (!isObject(raw)) {
+        error('', 'config must be a JSON object');
+        return issues;
+    }
+    unknownKeys(raw, ROOT_KEYS, '');
+
+    if (raw.version !== CONFIG_VERSION && !(partial && raw.version === undefined)) {
+        error('version', `must be ${CONFIG_VERSION}`);
+    }
+
+    const providers = raw.providers;
+    if (partial && providers === undefined) {
+        // Nothing to check
+    } else if (!isObject(providers) || (!partial && Object.keys(providers).length === 0)) {
+        error('providers', 'must be an object with at least one provider');
+    } else {
+        for (const [id, provider] of Object.entries<any>(providers)) {
+            const p = joinPath('providers', id);
+            if (!isObject(provider)) {
+                error(p, 'must be an object');
+                continue;
+            }
+            unknownKeys(provider, PROVIDER_KEYS, p);
+            if (provider.type !== undefined && !PROVIDER_KINDS.includes(provider.type)) {
+                error(joinPath(p, 'type'), `must be one of ${PROVIDER_KINDS.join(', ')}`);
+            }
+            if (provider.baseURL === undefined && partial) {
+                // Inherited from the user config
+            } else if (typeof provider.baseURL !== 'string') {
+                error(joinPath(p, 'baseURL'), 'is required and must be a URL');
+            } else {
+                try {
+                    new URL(provider.baseURL);
+                } catch {
+                    error(joinPath(p, 'baseURL'), `is not a valid URL: ${provider.baseURL}`);
+                }
+            }
+            if (provider.apiKey !== undefined && typeof provider.apiKey !== 'string') {
+                error(joinPath(p, 'apiKey'), 'must be a string');
+            }
+            if (provider.models === undefined && partial) continue;
+            if (!isObject(provider.models)) {
+                error(joinPath(p, 'models'), 'must be an object of model names');
+                continue;
+            }
+            if (Object.keys(provider.models).length === 0) warn(joinPath(p, 'models'), 'no models configured');
+
+            for (const [name, model] of Object.entries<any>(provider.models)) {
+                const m = joinPath(joinPath(p, 'models'), name);
+                if (!isObject(model)) {
+                    error(m, 'must be an object (use {} for defaults)');
+                    continue;
+                }
+                unknownKeys(model, MODEL_KEYS, m);
+                positiveNumber(model.contextLength, joinPath(m, 'contextLength'), true);
+                if (model.toolCalling !== undefined && model.toolCalling !== 'native' && model.toolCalling !== 'prompt') {
+                    error(joinPath(m, 'toolCalling'), 'must be "native" or "prompt"');
+                }
+                if (model.tools !== undefined && typeof model.tools !== 'boolean') {
+                    error(joinPath(m, 'tools'), 'must be true or false');
+                }
+                if (model.vision !== undefined && typeof model.vision !== 'boolean') {
+                    error(joinPath(m, 'vision'), 'must be true or false');
+                }
+                if (model.pricing !== undefined) {
+                    if (!isObject(model.pricing)) {
+                        error(joinPath(m, 'pricing'), 'must be { "input": <usd>, "output": <usd> }');
+                    } else {
+                        numberInRange(model.pricing.input, joinPath(joinPath(m, 'pricing'), 'input'), 0, Infinity);
+                        numberInRange(model.pricing.output, joinPath(joinPath(m, 'pricing'), 'output'), 0, Infinity);
+                    }
+                }
+                if (model.sampling !== undefined) {
+                    issues.push(...validateSampling(model.sampling, joinPath(m, 'sampling')));
+                }
+            }
+        }
+    }
+
+    if (raw.profiles !== undefined) {
+        if (!isObject(raw.profiles)) {
+            error('profiles', 'must be an object of named profiles');
+        } else {
+            for (const [name, profile] of Object.entries<any>(raw.profiles)) {
+                const p = joinPath('profiles', name);
+                if (!isObject(profile)) {
+                    error(p, 'must be { "provider": <id>, "model": <name> }');
+                    continue;
+                }
+                unknownKeys(profile, PROFILE_KEYS, p);
+                const provider = isObject(providers) ? providers[profile.provider] : undefined;
+                if (typeof profile.provider !== 'string') {
+                    error(joinPath(p, 'provider'), 'is required');
+                } else if (!partial && isObject(providers) && !provider) {
+                    error(joinPath(p, 'provider'), `unknown provider "${profile.provider}"`);
+                }
+                if (typeof profile.model !== 'string' || !profile.model) {
+                    error(joinPath(p, 'model'), 'is required');
+                } else if (!partial && isObject(provider?.models) && !(profile.model in provider.models)) {
+                    warn(joinPath(p, 'model'), `"${profile.model}" is not listed under providers.${profile.provider}.models (defaults apply)`);
+                }
+            }
+        }
+    }
+
+    if (raw.defaultProfile !== undefined && typeof raw.defaultProfile !== 'string') {
+        error('defaultProfile', 'must be a profile name');
+    } else if (!partial && raw.defaultProfile !== undefined && !(isObject(raw.profiles) && raw.defaultProfile in raw.profiles)) {
+        error('defaultProfile', `unknown profile "${raw.defaultProfile}"`);
+    }
+    if (raw.provider !== undefined && typeof raw.provider !== 'string') {
+        error('provider', 'must be a provider id');
+    } else if (!partial && raw.provider !== undefined && !(isObject(providers) && raw.provider in providers)) {
+        error('provider', `unknown provider "${raw.provider}"`);
+    }
+    if (raw.model !== undefined && (typeof raw.model !== 'string' || !raw.model)) {
+        error('model', 'must be a model name');
+    }
+    if (raw.allowCommands !== undefined && !(Array.isArray(raw.allowCommands) && raw.allowCommands.every((c: unknown) => typeof c === 'string'))) {
+        error('allowCommands', 'must be an array of command names');
+    }
+    if (raw.protectedPaths !== undefined && !(Array.isArray(raw.protectedPaths) && raw.protectedPaths.every((g: unknown) => typeof g === 'string' && g))) {
+        error('protectedPaths', 'must be an array of glob patterns');
+    }
+    if (raw.permissions !== undefined) {
+        if (!isObject(raw.permissions)) {
+            error('permissions', 'must be { "tools": {...}, "commands": {...} }');
+        } else {
+            unknownKeys(raw.permissions, ['tools', 'commands'], 'permissions');
+            for (const section of ['tools', 'commands']) {
+                const rules = raw.permissions[section];
+                if (rules === undefined) continue;
+                if (!isObject(rules)) {
+                    error(joinPath('permissions', section), 'must map patterns to "allow", "ask" or "deny"');
+                    continue;
+                }
+                for (const [pattern, action] of Object.entries(rules)) {
+                    if (!(PERMISSION_ACTIONS as readonly string[]).includes(action)) {
+                        error(joinPath(joinPath('permissions', section), pattern), `must be one of ${PERMISSION_ACTIONS.join(', ')}`);
+                    }
+                }
+            }
+        }
+    }
+    if (raw.pluginDir !== undefined && typeof raw.pluginDir !== 'string') {
+        error('pluginDir', 'must be a path');
+    }
+
+    const checkRef = (ref: unknown, path: string) => {
+        if (typeof ref === 'string') {
+            if (!partial && !(isObject(raw.profiles) && ref in raw.profiles)) error(path, `unknown profile "${ref}"`);
+        } else if (!isObject(ref) || typeof ref.provider !== 'string' || typeof ref.model !== 'string' || !ref.model) {
+            error(path, 'must be a profile name or { "provider": <id>, "model": <name> }');
+        } else if (!partial && !(isObject(providers) && ref.provider in providers)) {
+            error(joinPath(path, 'provider'), `unknown provider "${ref.provider}"`);
+        }
+    };
+    if (raw.fallback !== undefined) {
+        if (!isObject(raw.fallback) || !Array.isArray(raw.fallback.models)) {
+            error('fallback', 'must be { "models": [<profile or provider/model>, ...] }');
+        } else {
+            unknownKeys(raw.fallback, ['models', 'cooldown'], 'fallback');
+            raw.fallback.models.forEach((ref: unknown, i: number) => checkRef(ref, `fallback.models[${i}]`));
+            positiveNumber(raw.fallback.cooldown, 'fallback.cooldown', true);
+        }
+    }
+    if (raw.routing !== undefined) {
+        if (!isObject(raw.routing)) {
+            error('routing', 'must be an object of uses');
+        } else {
+            for (const [use, ref] of Object.entries(raw.routing)) {
+                if (!ROUTE_USES.includes(use) && !use.startsWith('agent:')) {
+                    warn(joinPath('routing', use), `unknown use (expected ${ROUTE_USES.join(', ')} or agent:<name>)`);
+                }
+                checkRef(ref, joinPath('routing', use));
+            }
+        }
+    }
+    if (raw.rateLimit !== undefined) {
+        if (!isObject(raw.rateLimit)) {
+            error('rateLimit', 'must be { "requestsPerMinute": <n>, "maxConcurrent": <n> }');
+        } else {
+            unknownKeys(raw.rateLimit, ['requestsPerMinute', 'maxConcurrent'], 'rateLimit');
+            positiveNumber(raw.rateLimit.requestsPerMinute, 'rateLimit.requestsPerMinute', true);
+            positiveNumber(raw.rateLimit.maxConcurrent, 'rateLimit.maxConcurrent', true);
+        }
+    }
+    if (raw.reasoning !== undefined) {
+        if (!isObject(raw.reasoning)) {
+            error('reasoning', 'must be { "display": ..., "keepInHistory": ... }');
+        } else {
+            unknownKeys(raw.reasoning, ['display', 'keepInHistory'], 'reasoning');
+            if (raw.reasoning.display !== undefined && !REASONING_DISPLAYS.includes(raw.reasoning.display)) {
+                error('reasoning.display', `must be one of ${REASONING_DISPLAYS.join(', ')}`);
+            }
+            if (raw.reasoning.keepInHistory !== undefined && typeof raw.reasoning.keepInHistory !== 'boolean') {
+                error('reasoning.keepInHistory', 'must be true or false');
+            }
+        }
+    }
+    positiveNumber(raw.timeout, 'timeout', true);
+    if (raw.commandTimeout !== undefined && (typeof raw.commandTimeout !== 'number' || raw.commandTimeout < 0)) {
+        error('commandTimeout', 'must be a number of milliseconds (0 for no timeout)');
+    }
+    if (raw.commandOutputLimit !== undefined && (!Number.isInteger(raw.commandOutputLimit) || raw.commandOutputLimit < 1000)) {
+        error('commandOutputLimit', 'must be an integer >= 1000');
+    }
+    if (raw.retries !== undefined && (!Number.isInteger(raw.retries) || raw.retries < 0)) {
+        error('retries', 'must be an integer >= 0');
+    }
+    if (raw.compactThreshold !== undefined && (typeof raw.compactThreshold !== 'number' || raw.compactThreshold <= 0 || raw.compactThreshold > 1)) {
+        error('compactThreshold', 'must be a number between 0 (exclusive) and 1');
+    }
+    if (raw.verify !== undefined && typeof raw.verify !== 'string' && !(isObject(raw.verify) && typeof raw.verify.command === 'string')) {
+        error('verify', 'must be a command string or { "command": ... }');
+    }
+
+    return issues;
+}
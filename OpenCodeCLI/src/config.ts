@@ -3,90 +3,592 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import dotenv from 'dotenv';
+import { findProjectConfig, PROJECT_CONFIG_FILE } from './project';
+import { ModelPricing } from './usage';
+import { ProviderKind, PROVIDER_KINDS } from './providers';
+import { RateLimits } from './rate-limiter';
+import { ReasoningConfig, ReasoningDisplay } from './reasoning';
+import { DEFAULT_PROTECTED_PATHS } from './workspace';
+import { mergePermissions, PermissionsConfig } from './permissions';
+import { describeExecutionSettings, isProjectTrusted, projectExecutionSettings, trustProject, withoutExecutionSettings } from './trust';
+import {
+    CONFIG_VERSION, ConfigError, ConfigFile, ModelEntry, ModelRef, PartialConfigFile, SamplingDefaults,
+    formatIssues, isLegacyConfig, migrateLegacyConfig, validateConfig
+} from './config-schema';
 
 // Load environment variables from a .env file if present
-dotenv.config();
+// quiet: dotenv would otherwise log to stdout and break --output-format json
+dotenv.config({ quiet: true });
 
 export interface OpenCodeConfig {
+    /** Which chat API baseURL speaks (default 'openai', i.e. OpenAI-compatible) */
+    provider?: ProviderKind;
+    /** Id of the provider entry in opencode.json */
+    providerId?: string;
+    /** Active profile (--profile, OPENCODE_PROFILE or defaultProfile) */
+    profile?: string;
     baseURL: string;
     model: string;
     apiKey?: string;
     timeout?: number;
     retries?: number;
+    /** Context window of the model in tokens, used to budget the history */
+    contextLength?: number;
+    /** Fraction of contextLength at which the history gets compacted */
+    compactThreshold?: number;
+    /**
+     * 'native' sends the tools field (with a fallback that parses tool calls
+     * written as text); 'prompt' injects the tool schemas into the system prompt
+     */
+    toolCalling?: 'native' | 'prompt';
+    /** Whether the model accepts images (undefined: unknown, images are sent) */
+    vision?: boolean;
+    /** Price of the model in USD per 1M tokens, for cost estimates */
+    pricing?: ModelPricing;
+    /** Default request parameters of the model */
+    sampling?: SamplingDefaults;
+    /** Request parameters set with /set for this session (over the model's) */
+    samplingOverrides?: SamplingDefaults;
+    /** Command run after every turn that modified files */
+    verify?: VerifyConfig;
+    /** Commands auto-approved with --yes */
+    allowCommands?: string[];
+    /** Default run_command timeout in ms (0 for none) */
+    commandTimeout?: number;
+    /** Characters of command output sent to the model */
+    commandOutputLimit?: number;
+    /** Globs the file tools need approval to read or write */
+    protectedPaths?: string[];
+    /** Allow/ask/deny rules for tools and shell commands (project rules over user rules) */
+    permissions?: PermissionsConfig;
+    /** Directory with plugin tools */
+    pluginDir?: string;
+    /** Models LLMClient switches to, in order, when requests keep failing */
+    fallback?: ModelTarget[];
+    /** How long a failed model is skipped before it is probed again (ms) */
+    fallbackCooldown?: number;
+    /** Model per use ('main', 'summary', 'agent', 'agent:<name>') */
+    routing?: Record<string, ModelTarget>;
+    /** Client-side request limits (requests per minute, concurrent requests) */
+    rateLimit?: RateLimits;
+    /** How reasoning is shown and whether it is sent back to the model */
+    reasoning?: ReasoningConfig;
+    /** The user config file (~/.config/opencode/opencode.json or --config) */
+    configPath?: string;
+    /** The nearest .opencode/config.json, if any */
+    projectConfigPath?: string;
+    /** User and project config merged (for switching profiles at runtime) */
+    file?: ConfigFile;
+    /** Which layer each setting came from (see /config sources) */
+    sources?: Record<string, ConfigSource>;
 }
 
-export function loadConfig(configPathOverride?: string): OpenCodeConfig {
-    const homeDir = os.homedir();
-    const defaultConfigPath = path.join(homeDir, '.config', 'opencode', 'opencode.json');
+/** An endpoint and model that requests can be sent to */
+export interface ModelTarget {
+    /** "<provider id>/<model>", for display */
+    label: string;
+    providerId?: string;
+    provider: ProviderKind;
+    baseURL: string;
+    apiKey?: string;
+    model: string;
+    contextLength: number;
+    toolCalling: 'native' | 'prompt';
+    vision?: boolean;
+    pricing?: ModelPricing;
+    sampling?: SamplingDefaults;
+}
 
-    const envBaseURL = process.env.OPENCODE_BASE_URL;
-    const envModel = process.env.OPENCODE_MODEL;
-    const envApiKey = process.env.OPENCODE_API_KEY || process.env.OPENAI_API_KEY;
+/** Layers in increasing precedence */
+export type ConfigLayer = 'default' | 'user' | 'project' | 'env' | 'cli';
 
-    const configPath = configPathOverride
-        ? path.resolve(configPathOverride)
-        : defaultConfigPath;
+export const LAYER_RANK: Record<ConfigLayer, number> = { default: 0, user: 1, project: 2, env: 3, cli: 4 };
 
-    try {
-        if (!fs.existsSync(configPath)) {
-            if (configPathOverride) {
-                console.error(`Config file not found at ${configPath}.`);
-                console.error('You can create it with a minimal JSON like:');
-                console.error('');
-                console.error(`  ${configPath}`);
-                console.error('');
-                console.error(`  {
-  "provider": {
-    "colab": {
-      "options": { "baseURL": "http://localhost:5000/v1" },
-      "models": { "qwen2.5-coder:7b": {} }
-    }
-  }
-}`);
-                process.exit(1);
-            }
+export interface ConfigSource {
+    layer: ConfigLayer;
+    /** Config file, environment variable or CLI flag */
+    origin?: string;
+}
+
+/** Settings given as CLI flags (the highest layer) */
+export interface CliConfigOverrides {
+    configPath?: string;
+    profile?: string;
+    verifyCommand?: string;
+    noVerify?: boolean;
+    allowCommands?: string[];
+    pluginDir?: string;
+    /** --show-reasoning / --hide-reasoning */
+    reasoningDisplay?: ReasoningDisplay;
+    /**
+     * Asked when the project config has settings that run commands or change
+     * where requests go and the user has not trusted them yet (see trust.ts).
+     * Without it they are ignored.
+     */
+    trustProject?: (projectPath: string, settings: PartialConfigFile) => boolean;
+}
+
+export interface VerifyConfig {
+    command: string;
+    /** How many times the model may try to fix a failing verification (default 3) */
+    maxAttempts: number;
+    /** Timeout for one run of the command in ms (default 300000) */
+    timeout: number;
+}
 
-            console.warn(`Config file not found at ${configPath}. Using defaults.`);
+/**
+ * Accepts "npm test" or { "command": "npm test", "maxAttempts": 2, "timeout": 60000 }
+ */
+export function parseVerifyConfig(raw: unknown): VerifyConfig | undefined {
+    if (!raw) return undefined;
+    const obj = typeof raw === 'string' ? { command: raw } : raw as Partial<VerifyConfig>;
+    if (!obj.command || typeof obj.command !== 'string') return undefined;
+    return {
+        command: obj.command,
+        maxAttempts: typeof obj.maxAttempts === 'number' ? Math.max(0, obj.maxAttempts) : 3,
+        timeout: typeof obj.timeout === 'number' ? obj.timeout : 300000
+    };
+}
+
+const DEFAULT_CONTEXT_LENGTH = 16384;
+const DEFAULT_COMPACT_THRESHOLD = 0.75;
+const DEFAULT_MODEL = 'qwen2.5-coder:7b';
+const DEFAULT_BASE_URL = 'http://localhost:5000/v1';
+
+function envNumber(name: string): number | undefined {
+    const raw = process.env[name];
+    if (!raw) return undefined;
+    const n = Number(raw);
+    return Number.isNaN(n) ? undefined : n;
+}
+
+export function getConfigPath(override?: string): string {
+    return override
+        ? path.resolve(override)
+        : path.join(os.homedir(), '.config', 'opencode', 'opencode.json');
+}
 
-            return {
-                baseURL: envBaseURL || 'http://localhost:5000/v1',
-                model: envModel || 'qwen2.5-coder:7b',
-                apiKey: envApiKey,
-                timeout: 60000,
-                retries: 3
-            };
+/**
+ * Read, migrate and validate a config file. Throws ConfigError listing every
+ * problem; warnings (e.g. unknown keys) are printed and loading continues.
+ */
+export function readConfigFile(configPath: string): ConfigFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (e: any) {
+        const message = e.code === 'ENOENT' ? 'file not found' : `cannot read config: ${e.message}`;
+        throw new ConfigError([{ path: '', message, severity: 'error' }], configPath);
+    }
+
+    if (isLegacyConfig(raw)) {
+        raw = migrateLegacyConfig(raw as Record<string, any>);
+        try {
+            fs.copyFileSync(configPath, `${configPath}.bak`);
+            saveConfigFile(configPath, raw as ConfigFile);
+            console.warn(`Migrated ${configPath} to config version ${CONFIG_VERSION} (backup: ${configPath}.bak)`);
+        } catch (e: any) {
+            console.warn(`Migrated ${configPath} in memory only, could not write it: ${e.message}`);
         }
+    }
+
+    const issues = validateConfig(raw);
+    if (issues.some(i => i.severity === 'error')) {
+        throw new ConfigError(issues, configPath);
+    }
+    for (const line of formatIssues(issues)) {
+        console.warn(`${configPath}: ${line}`);
+    }
+    return raw as ConfigFile;
+}
 
-        const rawConfig = fs.readFileSync(configPath, 'utf-8');
-        const configJson = JSON.parse(rawConfig);
+export function saveConfigFile(configPath: string, file: ConfigFile) {
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, JSON.stringify(file, null, 2));
+}
 
-        const colabProvider = configJson.provider?.colab;
-        if (!colabProvider) {
-            throw new Error('No Colab provider found in opencode.json');
+export interface ModelSelection {
+    providerId: string;
+    model: string;
+    profile?: string;
+}
+
+/**
+ * Pick the provider/model pair: the named profile, else defaultProfile,
+ * else the first model of the first provider.
+ */
+export function resolveSelection(file: ConfigFile, profileName?: string): ModelSelection {
+    const profiles = file.profiles ?? {};
+    const name = profileName ?? file.defaultProfile;
+    if (name) {
+        const profile = profiles[name];
+        if (!profile) {
+            const available = Object.keys(profiles);
+            throw new ConfigError([{
+                path: `profiles.${name}`,
+                message: `unknown profile${available.length ? ` (available: ${available.join(', ')})` : ' (no profiles configured)'}`,
+                severity: 'error'
+            }]);
         }
+        return { providerId: profile.provider, model: profile.model, profile: name };
+    }
+    const providerId = Object.keys(file.providers)[0];
+    return { providerId, model: Object.keys(file.providers[providerId].models)[0] || DEFAULT_MODEL };
+}
+
+export function resolveModelTarget(file: ConfigFile, providerId: string, model: string): ModelTarget {
+    const provider = file.providers[providerId];
+    const modelEntry: ModelEntry = provider.models[model] ?? {};
+    return {
+        label: `${providerId}/${model}`,
+        providerId,
+        provider: provider.type ?? 'openai',
+        baseURL: provider.baseURL,
+        apiKey: provider.apiKey,
+        model,
+        contextLength: modelEntry.contextLength ?? DEFAULT_CONTEXT_LENGTH,
+        toolCalling: modelEntry.toolCalling === 'prompt' || modelEntry.tools === false ? 'prompt' : 'native',
+        vision: modelEntry.vision,
+        pricing: modelEntry.pricing,
+        sampling: modelEntry.sampling
+    };
+}
 
-        const baseURL = colabProvider.options?.baseURL;
-        const models = colabProvider.models || {};
-        const modelName = Object.keys(models)[0] || 'qwen2.5-coder:7b';
+/**
+ * A fallback or routing entry: a profile name or a provider/model pair
+ */
+export function resolveModelRef(file: ConfigFile, ref: ModelRef): ModelTarget {
+    const pair = typeof ref === 'string' ? file.profiles![ref] : ref;
+    return resolveModelTarget(file, pair.provider, pair.model);
+}
+
+/**
+ * The model the config currently points at (after /model, /profile, env overrides)
+ */
+export function activeModelTarget(config: OpenCodeConfig): ModelTarget {
+    return {
+        label: `${config.providerId ?? config.baseURL}/${config.model}`,
+        providerId: config.providerId,
+        provider: config.provider ?? 'openai',
+        baseURL: config.baseURL,
+        apiKey: config.apiKey,
+        model: config.model,
+        contextLength: config.contextLength ?? DEFAULT_CONTEXT_LENGTH,
+        toolCalling: config.toolCalling ?? 'native',
+        vision: config.vision,
+        pricing: config.pricing,
+        sampling: config.sampling
+    };
+}
 
-        const timeout = configJson.timeout ?? (process.env.OPENCODE_TIMEOUT ? parseInt(process.env.OPENCODE_TIMEOUT, 10) : 60000);
-        const retries = configJson.retries ?? (process.env.OPENCODE_RETRIES ? parseInt(process.env.OPENCODE_RETRIES, 10) : 3);
+/**
+ * Point the config at another provider/model (used at startup and by
+ * /profile and /model). Mutates config so LLMClient sees the change.
+ */
+export function applySelection(config: OpenCodeConfig, file: ConfigFile, selection: ModelSelection) {
+    const target = resolveModelTarget(file, selection.providerId, selection.model);
+    config.profile = selection.profile;
+    config.providerId = selection.providerId;
+    config.provider = target.provider;
+    config.baseURL = target.baseURL;
+    config.apiKey = target.apiKey;
+    config.model = target.model;
+    config.contextLength = target.contextLength;
+    config.toolCalling = target.toolCalling;
+    config.vision = target.vision;
+    config.pricing = target.pricing;
+    config.sampling = target.sampling;
+}
 
-        return {
-            baseURL: envBaseURL || baseURL || 'http://localhost:5000/v1',
-            model: envModel || modelName || 'qwen2.5-coder:7b',
-            apiKey: envApiKey,
-            timeout: Number.isNaN(timeout) ? 60000 : timeout,
-            retries: Number.isNaN(retries) ? 3 : Math.max(0, retries)
+/**
+ * Read a project's .opencode/config.json. Every key is optional; problems are
+ * reported like for the user config.
+ */
+export function readProjectConfigFile(configPath: string): PartialConfigFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    } catch (e: any) {
+        throw new ConfigError([{ path: '', message: `cannot read config: ${e.message}`, severity: 'error' }], configPath);
+    }
+    const issues = validateConfig(raw, { partial: true });
+    if (issues.some(i => i.severity === 'error')) {
+        throw new ConfigError(issues, configPath);
+    }
+    for (const line of formatIssues(issues)) {
+        console.warn(`${configPath}: ${line}`);
+    }
+    return raw as PartialConfigFile;
+}
+
+/**
+ * Project over user: providers are merged by id (and their models by name),
+ * profiles by name, permissions by pattern, everything else is replaced.
+ */
+export function mergeConfigFiles(user: ConfigFile | undefined, project: PartialConfigFile | undefined): ConfigFile {
+    const providers: Record<string, any> = {};
+    for (const [id, entry] of Object.entries(user?.providers ?? {})) {
+        providers[id] = { ...entry, models: { ...entry.models } };
+    }
+    for (const [id, entry] of Object.entries(project?.providers ?? {})) {
+        const base = providers[id] ?? { models: {} };
+        providers[id] = { ...base, ...entry, models: { ...base.models, ...entry.models } };
+    }
+
+    const merged: ConfigFile = { version: CONFIG_VERSION, providers };
+    const assign = <K extends keyof ConfigFile>(key: K, value: ConfigFile[K]) => {
+        merged[key] = value;
+    };
+    const profiles = { ...user?.profiles, ...project?.profiles };
+    if (Object.keys(profiles).length > 0) merged.profiles = profiles;
+    const permissions = mergePermissions(user?.permissions, project?.permissions);
+    if (permissions) merged.permissions = permissions;
+    for (const key of ['defaultProfile', 'provider', 'model', 'timeout', 'retries', 'compactThreshold', 'verify', 'allowCommands', 'commandTimeout', 'commandOutputLimit', 'protectedPaths', 'pluginDir', 'fallback', 'routing', 'rateLimit', 'reasoning'] as const) {
+        const value = project?.[key] ?? user?.[key];
+        if (value !== undefined) assign(key, value);
+    }
+    return merged;
+}
+
+type Candidate<T> = [ConfigSource, T | undefined];
+
+export function loadConfig(overrides: CliConfigOverrides = {}): OpenCodeConfig {
+    const userPath = getConfigPath(overrides.configPath);
+    const user = overrides.configPath || fs.existsSync(userPath) ? readConfigFile(userPath) : undefined;
+    const projectPath = findProjectConfig();
+    let project = projectPath ? readProjectConfigFile(projectPath) : undefined;
+    const untrusted = project && projectExecutionSettings(project);
+    if (projectPath && project && untrusted && !isProjectTrusted(projectPath, untrusted)) {
+        if (overrides.trustProject?.(projectPath, untrusted)) {
+            trustProject(projectPath, untrusted);
+        } else {
+            project = withoutExecutionSettings(project);
+            console.warn(`${projectPath}: not trusted, ignoring: ${describeExecutionSettings(untrusted).join('; ')}`);
+        }
+    }
+
+    const USER: ConfigSource = { layer: 'user', origin: userPath };
+    const PROJECT: ConfigSource = { layer: 'project', origin: projectPath };
+    const DEFAULT: ConfigSource = { layer: 'default' };
+    const env = (name: string): ConfigSource => ({ layer: 'env', origin: name });
+    const cli = (flag: string): ConfigSource => ({ layer: 'cli', origin: flag });
+
+    const sources: Record<string, ConfigSource> = {};
+    // Take the first defined candidate (they are listed from the highest layer down)
+    function pick<T>(key: string, candidates: Candidate<T>[]): T | undefined {
+        for (const [source, value] of candidates) {
+            if (value !== undefined) {
+                sources[key] = source;
+                return value;
+            }
+        }
+        sources[key] = DEFAULT;
+        return undefined;
+    }
+    // The layer that set a key of a provider entry (or of one of its models)
+    const providerSource = (id: string, key: string, model?: string): ConfigSource => {
+        const has = (file: PartialConfigFile | undefined) => {
+            const entry = file?.providers?.[id];
+            return (model ? entry?.models?.[model]?.[key as keyof ModelEntry] : entry?.[key as keyof ConfigFile['providers'][string]]) !== undefined;
         };
+        return has(project) ? PROJECT : has(user) ? USER : DEFAULT;
+    };
+
+    const config: OpenCodeConfig = { baseURL: DEFAULT_BASE_URL, model: DEFAULT_MODEL, configPath: userPath, projectConfigPath: projectPath, sources };
+    const envModel = process.env.OPENCODE_MODEL || undefined;
+    const envProfile = process.env.OPENCODE_PROFILE || undefined;
 
-    } catch (error: any) {
-        console.error(`Error loading config from ${configPath}: ${error.message}`);
-        console.error('Ensure your config file is valid JSON and follows the expected structure.');
-        console.error(`If you prefer, you can also configure via environment variables:
-- OPENCODE_BASE_URL
-- OPENCODE_MODEL
-- OPENCODE_API_KEY (or OPENAI_API_KEY)`);
-        process.exit(1);
+    if (user || project?.providers) {
+        const merged = mergeConfigFiles(user, project);
+        const errors = validateConfig(merged).filter(i => i.severity === 'error');
+        if (errors.length > 0) throw new ConfigError(errors, projectPath ? `${userPath} + ${projectPath}` : userPath);
+        config.file = merged;
+
+        const profile = pick('profile', [[cli('--profile'), overrides.profile], [env('OPENCODE_PROFILE'), envProfile], [PROJECT, project?.defaultProfile], [USER, user?.defaultProfile]]);
+        const selection = resolveSelection(merged, profile);
+        const base = profile ? sources.profile : providerSource(selection.providerId, 'baseURL');
+        sources.provider = base;
+        sources.model = base;
+
+        // A provider or model set in a layer at least as high as the profile's wins over it
+        const atLeastBase = <T>(candidates: Candidate<T>[]) => candidates.filter(([source]) => LAYER_RANK[source.layer] >= LAYER_RANK[base.layer]);
+        const providerId = pick('provider', atLeastBase([[PROJECT, project?.provider], [USER, user?.provider]]));
+        if (!providerId) sources.provider = base;
+        let model = pick('model', atLeastBase([[env('OPENCODE_MODEL'), envModel], [PROJECT, project?.model], [USER, user?.model]]));
+        if (!model) {
+            sources.model = base;
+            // The profile's model belongs to another provider
+            if (providerId && providerId !== selection.providerId) model = Object.keys(merged.providers[providerId].models)[0];
+        }
+        applySelection(config, merged, {
+            providerId: providerId ?? selection.providerId,
+            model: model ?? selection.model,
+            profile: selection.profile
+        });
+        sources.type = providerSource(config.providerId!, 'type');
+        sources.baseURL = providerSource(config.providerId!, 'baseURL');
+        sources.apiKey = providerSource(config.providerId!, 'apiKey');
+        sources.contextLength = providerSource(config.providerId!, 'contextLength', config.model);
+    } else {
+        if (overrides.profile ?? envProfile) {
+            throw new ConfigError([{ path: 'profiles', message: `no config file at ${userPath} to read profiles from`, severity: 'error' }]);
+        }
+        console.warn(`Config file not found at ${userPath}. Using defaults.`);
+        config.provider = 'openai';
+        config.model = pick('model', [[env('OPENCODE_MODEL'), envModel]]) ?? DEFAULT_MODEL;
+        config.contextLength = DEFAULT_CONTEXT_LENGTH;
+        config.toolCalling = 'native';
+        for (const key of ['profile', 'provider', 'type', 'baseURL', 'apiKey', 'contextLength']) sources[key] = DEFAULT;
+    }
+
+    // Environment variables override the connection of whatever was selected
+    const envProvider = PROVIDER_KINDS.find(k => k === process.env.OPENCODE_PROVIDER);
+    const envApiKeyName = process.env.OPENCODE_API_KEY ? 'OPENCODE_API_KEY' : 'OPENAI_API_KEY';
+    if (envProvider) {
+        config.provider = envProvider;
+        sources.type = env('OPENCODE_PROVIDER');
+    }
+    if (process.env.OPENCODE_BASE_URL) {
+        config.baseURL = process.env.OPENCODE_BASE_URL;
+        sources.baseURL = env('OPENCODE_BASE_URL');
+    }
+    if (process.env[envApiKeyName]) {
+        config.apiKey = process.env[envApiKeyName];
+        sources.apiKey = env(envApiKeyName);
     }
+    const envContext = envNumber('OPENCODE_CONTEXT_LENGTH');
+    if (envContext !== undefined) {
+        config.contextLength = envContext;
+        sources.contextLength = env('OPENCODE_CONTEXT_LENGTH');
+    }
+
+    config.timeout = pick('timeout', [[env('OPENCODE_TIMEOUT'), envNumber('OPENCODE_TIMEOUT')], [PROJECT, project?.timeout], [USER, user?.timeout]]) ?? 60000;
+    config.retries = Math.max(0, pick('retries', [[env('OPENCODE_RETRIES'), envNumber('OPENCODE_RETRIES')], [PROJECT, project?.retries], [USER, user?.retries]]) ?? 3);
+    const fileReasoning = pick('reasoning', [[PROJECT, project?.reasoning], [USER, user?.reasoning]]);
+    config.reasoning = { ...fileReasoning };
+    if (overrides.reasoningDisplay) {
+        config.reasoning.display = overrides.reasoningDisplay;
+        sources.reasoning = cli(overrides.reasoningDisplay === 'hidden' ? '--hide-reasoning' : '--show-reasoning');
+    }
+    config.rateLimit = pick('rateLimit', [[PROJECT, project?.rateLimit], [USER, user?.rateLimit]]);
+    config.compactThreshold = pick('compactThreshold', [[PROJECT, project?.compactThreshold], [USER, user?.compactThreshold]]) ?? DEFAULT_COMPACT_THRESHOLD;
+
+    const fileVerify = pick('verify', [[PROJECT, project?.verify], [USER, user?.verify]]);
+    if (overrides.noVerify) {
+        config.verify = undefined;
+        sources.verify = cli('--no-verify');
+    } else if (overrides.verifyCommand) {
+        // Keep maxAttempts/timeout from the config files
+        config.verify = parseVerifyConfig({ ...parseVerifyConfig(fileVerify), command: overrides.verifyCommand });
+        sources.verify = cli('--verify');
+    } else {
+        config.verify = parseVerifyConfig(fileVerify);
+    }
+
+    config.allowCommands = pick('allowCommands', [[cli('--allow'), overrides.allowCommands], [PROJECT, project?.allowCommands], [USER, user?.allowCommands]]);
+    config.commandTimeout = pick('commandTimeout', [[PROJECT, project?.commandTimeout], [USER, user?.commandTimeout]]);
+    config.commandOutputLimit = pick('commandOutputLimit', [[PROJECT, project?.commandOutputLimit], [USER, user?.commandOutputLimit]]);
+    config.permissions = mergePermissions(user?.permissions, project?.permissions);
+    sources.permissions = project?.permissions ? PROJECT : user?.permissions ? USER : DEFAULT;
+    // A project can protect more paths but never unprotect one: its globs add to the user's (or the default) list
+    const baseProtectedPaths = pick('protectedPaths', [[USER, user?.protectedPaths]]) ?? DEFAULT_PROTECTED_PATHS;
+    config.protectedPaths = [...new Set([...baseProtectedPaths, ...(project?.protectedPaths ?? [])])];
+    if (project?.protectedPaths?.length) sources.protectedPaths = PROJECT;
+    // Relative plugin dirs are relative to the project root / the user config directory
+    const projectRoot = projectPath ? path.dirname(path.dirname(projectPath)) : process.cwd();
+    config.pluginDir = pick('pluginDir', [
+        [cli('--plugin-dir'), overrides.pluginDir],
+        [PROJECT, project?.pluginDir && path.resolve(projectRoot, project.pluginDir)],
+        [USER, user?.pluginDir && path.resolve(path.dirname(userPath), user.pluginDir)]
+    ]) ?? path.join(os.homedir(), '.config', 'opencode', 'plugins');
+
+    const file = config.file;
+    const fallback = file && pick('fallback', [[PROJECT, project?.fallback], [USER, user?.fallback]]);
+    if (file && fallback) {
+        config.fallback = fallback.models.map(ref => resolveModelRef(file, ref));
+        config.fallbackCooldown = fallback.cooldown ?? 60000;
+    }
+    const routing = file && pick('routing', [[PROJECT, project?.routing], [USER, user?.routing]]);
+    if (file && routing) {
+        config.routing = Object.fromEntries(Object.entries(routing).map(([use, ref]) => [use, resolveModelRef(file, ref)]));
+    }
+
+    return config;
+}
+
+export type WritableLayer = 'user' | 'project';
+
+/**
+ * Refuse to write a layer that would not load on the next start
+ */
+function checkLayer(raw: unknown, target: string, partial: boolean) {
+    const errors = validateConfig(raw, { partial }).filter(i => i.severity === 'error');
+    if (errors.length > 0) throw new ConfigError(errors, target);
+}
+
+/**
+ * Change the user or project config file (the project file is created in
+ * the working directory if there is none). Returns the path written.
+ */
+export function updateConfigLayer(config: OpenCodeConfig, layer: WritableLayer, mutate: (file: Record<string, any>) => void): string {
+    if (layer === 'project') {
+        const target = config.projectConfigPath ?? path.join(process.cwd(), PROJECT_CONFIG_FILE);
+        const raw = fs.existsSync(target) ? JSON.parse(fs.readFileSync(target, 'utf-8')) : {};
+        mutate(raw);
+        checkLayer(raw, target, true);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, JSON.stringify(raw, null, 2));
+        config.projectConfigPath = target;
+        return target;
+    }
+
+    const target = config.configPath ?? getConfigPath();
+    let raw: Record<string, any>;
+    if (fs.existsSync(target)) {
+        raw = JSON.parse(fs.readFileSync(target, 'utf-8'));
+    } else {
+        // Start from what is in use right now
+        const providerId = config.providerId ?? 'colab';
+        raw = {
+            version: CONFIG_VERSION,
+            providers: { [providerId]: { type: config.provider ?? 'openai', baseURL: config.baseURL, models: { [config.model]: {} } } }
+        };
+    }
+    mutate(raw);
+    checkLayer(raw, target, false);
+    saveConfigFile(target, raw as ConfigFile);
+    config.configPath = target;
+    return target;
+}
+
+/**
+ * The value behind a key of /config sources, for display
+ */
+export function describeConfigValue(config: OpenCodeConfig, key: string): string {
+    const values: Record<string, unknown> = {
+        profile: config.profile,
+        provider: config.providerId,
+        type: config.provider,
+        baseURL: config.baseURL,
+        // Never print secrets
+        apiKey: config.apiKey ? `${config.apiKey.slice(0, 3)}…(${config.apiKey.length} chars)` : undefined,
+        model: config.model,
+        contextLength: config.contextLength,
+        timeout: config.timeout,
+        retries: config.retries,
+        compactThreshold: config.compactThreshold,
+        verify: config.verify?.command,
+        allowCommands: config.allowCommands?.join(', '),
+        commandTimeout: config.commandTimeout,
+        commandOutputLimit: config.commandOutputLimit,
+        permissions: config.permissions && `${Object.keys(config.permissions.tools ?? {}).length} tool rules, ${Object.keys(config.permissions.commands ?? {}).length} command rules`,
+        protectedPaths: config.protectedPaths?.length === 0 ? '(none)' : config.protectedPaths?.join(', '),
+        pluginDir: config.pluginDir,
+        fallback: config.fallback?.map(t => t.label).join(' → '),
+        reasoning: `${config.reasoning?.display ?? 'collapsed'}${config.reasoning?.keepInHistory ? ', kept in history' : ''}`,
+        rateLimit: config.rateLimit && Object.entries(config.rateLimit).map(([k, v]) => `${k}=${v}`).join(', '),
+        routing: config.routing && Object.entries(config.routing).map(([use, t]) => `${use}=${t.label}`).join(', ')
+    };
+    const value = values[key];
+    return value === undefined || value === '' ? '(not set)' : String(value);
 }
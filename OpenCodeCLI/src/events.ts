@@ -0,0 +1,115 @@
+import { EventEmitter } from 'events';
+import { Message } from './llm-client';
+import { ToolCall, ToolResult, VerificationResult } from './tools';
+import { CompactionResult } from './compaction';
+import { TokenUsage } from './usage';
+import { LLMErrorKind } from './llm-errors';
+import { OutputStream } from './processes';
+
+export type TurnMode = 'chat' | 'plan';
+
+/**
+ * Lifecycle events emitted by Agent. Subscribe with agent.on(event, listener)
+ * to render a UI or drive the agent from another tool.
+ */
+export interface AgentEvents {
+    'turn:start': { input: string; mode: TurnMode };
+    'turn:end': { response: string; mode: TurnMode; steps: number };
+    'turn:cancelled': { mode: TurnMode };
+    'turn:error': { error: Error; mode: TurnMode };
+    'llm:request': { step: number; messages: Message[]; tools: object[] };
+    'llm:response': { step: number; message: Message; durationMs: number; usage?: TokenUsage };
+    /** A streamed content token (only when chat is called with stream: true) */
+    'token': { text: string };
+    /** A streamed reasoning token of a thinking model (only with stream: true) */
+    'reasoning': { text: string };
+    'tool:start': { step: number; call: ToolCall };
+    'tool:finish': { step: number; call: ToolCall; result: ToolResult; durationMs: number };
+    /** Progress messages from ToolExecutor (e.g. "Wrote to src/a.ts") */
+    'tool:log': { message: string };
+    /** Output of a running shell command */
+    'tool:output': { stream: OutputStream; text: string };
+    /** A shell command was refused by the user, the allowlist or a deny rule */
+    'tool:denied': CommandDenial;
+    'compaction:start': { tokens: number };
+    'compaction:end': { result: CompactionResult };
+    'step-limit': { steps: number; mode: TurnMode };
+    'verify:start': { command: string; attempt: number; files: string[] };
+    'verify:result': { result: VerificationResult; attempt: number; maxAttempts: number };
+    /** LLMClient moved to another model (fallback) or back to an earlier one */
+    'llm:switch': ModelSwitch;
+    /** A request failed and is retried after delayMs */
+    'llm:retry': LLMRetry;
+}
+
+export interface LLMRetry {
+    model: string;
+    /** 1 for the first retry */
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    kind: LLMErrorKind;
+    error: string;
+}
+
+export interface ModelSwitch {
+    /** What the request was for: 'main', 'summary', 'agent:<name>' */
+    use: string;
+    from: string;
+    to: string;
+    /** 'failure': `from` kept failing; 'recovered': `to` comes earlier in the chain and answers again */
+    reason: 'failure' | 'recovered';
+    error?: string;
+}
+
+export interface LLMClientEvents {
+    'model:switch': ModelSwitch;
+    'retry': LLMRetry;
+}
+
+export interface CommandDenial {
+    command: string;
+    /** 'rule': a deny rule of the permissions config */
+    reason: 'user' | 'allowlist' | 'rule';
+    /** The deny rule's pattern */
+    rule?: string;
+}
+
+export interface ToolExecutorEvents {
+    'log': { message: string };
+    /** Output of a running run_command, as it arrives */
+    'output': { stream: OutputStream; text: string };
+    'denied': CommandDenial;
+}
+
+type Listener<T> = (payload: T) => void;
+
+/**
+ * Minimal typed wrapper around EventEmitter
+ */
+export class TypedEventEmitter<Events extends object> {
+    private emitter = new EventEmitter();
+
+    on<K extends keyof Events & string>(event: K, listener: Listener<Events[K]>): this {
+        this.emitter.on(event, listener);
+        return this;
+    }
+
+    once<K extends keyof Events & string>(event: K, listener: Listener<Events[K]>): this {
+        this.emitter.once(event, listener);
+        return this;
+    }
+
+    off<K extends keyof Events & string>(event: K, listener: Listener<Events[K]>): this {
+        this.emitter.off(event, listener);
+        return this;
+    }
+
+    listenerCount<K extends keyof Events & string>(event: K): number {
+        return this.emitter.listenerCount(event);
+    }
+
+    protected emit<K extends keyof Events & string>(event: K, payload: Events[K]): boolean {
+        return this.emitter.emit(event, payload);
+    }
+}
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { ContentPart, ImagePart, Message } from './llm-client';
+
+/**
+ * Images in user messages (/image, --image). Files are sent as base64 data
+ * URLs in OpenAI-style content parts; the provider adapters translate them.
+ */
+
+export type ImageMediaType = 'image/png' | 'image/jpeg';
+
+/** Files above this are refused before reading them into memory */
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+/** Largest encoded image sent (Anthropic's per-image limit, OpenAI allows more) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+/** Longer sides are downscaled; larger images only cost tokens */
+export const MAX_IMAGE_SIDE = 1568;
+
+const RESIZE_TIMEOUT = 30000;
+
+export class ImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImageError';
+    }
+}
+
+export interface LoadedImage {
+    part: ImagePart;
+    /** Path as given */
+    name: string;
+    mediaType: ImageMediaType;
+    width: number;
+    height: number;
+    /** Encoded size actually sent */
+    bytes: number;
+    /** Original size, when the image was downscaled */
+    originalSize?: { width: number; height: number; bytes: number };
+    /** Why the image is sent larger than MAX_IMAGE_SIDE */
+    warning?: string;
+}
+
+export function detectImageType(data: Buffer): ImageMediaType | null {
+    if (data.length >= 8 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) return 'image/png';
+    if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return 'image/jpeg';
+    return null;
+}
+
+/**
+ * Width and height from the PNG IHDR chunk or the first JPEG SOF marker
+ */
+export function imageDimensions(data: Buffer, type: ImageMediaType): { width: number; height: number } | null {
+    if (type === 'image/png') {
+        if (data.length < 24) return null;
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    let offset = 2;
+    while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return null;
+        const marker = data[offset + 1];
+        // Fill bytes before a marker
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        const length = data.readUInt16BE(offset + 2);
+        // SOF0-SOF15, except DHT (c4), JPG (c8) and DAC (cc)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+        }
+        offset += 2 + length;
+    }
+    return null;
+}
+
+/**
+ * Resize with whatever tool is installed (ImageMagick, macOS sips, ffmpeg).
+ * Returns null when none of them works.
+ */
+function resizeImage(file: string, type: ImageMediaType, width: number, height: number): Buffer | null {
+    const ext = type === 'image/png' ? '.png' : '.jpg';
+    const out = path.join(os.tmpdir(), `opencode-image-${process.pid}-${Date.now()}${ext}`);
+    const box = `${MAX_IMAGE_SIDE}x${MAX_IMAGE_SIDE}>`;
+    const attempts: [string, string[]][] = [
+        ['magick', [file, '-resize', box, out]],
+        ['convert', [file, '-resize', box, out]],
+        ['sips', ['-Z', String(MAX_IMAGE_SIDE), file, '--out', out]],
+        ['ffmpeg', ['-y', '-loglevel', 'error', '-i', file, '-vf', `scale=${width}:${height}`, out]]
+    ];
+    try {
+        for (const [command, args] of attempts) {
+            const result = spawnSync(command, args, { timeout: RESIZE_TIMEOUT, stdio: 'ignore' });
+            if (result.error || result.status !== 0 || !fs.existsSync(out)) continue;
+            const data = fs.readFileSync(out);
+            if (detectImageType(data) === type) return data;
+        }
+        return null;
+    } finally {
+        fs.rmSync(out, { force: true });
+    }
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} bytes`;
+    return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+/**
+ * Read a PNG or JPEG file for a user message, downscaling it to
+ * MAX_IMAGE_SIDE. Throws ImageError for missing, unsupported or oversized files.
+ */
+export function loadImage(filePath: string, cwd: string = process.cwd()): LoadedImage {
+    const fullPath = path.resolve(cwd, filePath);
+    let stat: fs.Stats;
+    try {
+        stat = fs.statSync(fullPath);
+    } catch (_) {
+        throw new ImageError(`Image not found: ${filePath}`);
+    }
+    if (!stat.isFile()) throw new ImageError(`Not a file: ${filePath}`);
+    if (stat.size > MAX_IMAGE_FILE_BYTES) {
+        throw new ImageError(`${filePath} is ${formatBytes(stat.size)}, images are limited to ${formatBytes(MAX_IMAGE_FILE_BYTES)}`);
+    }
+
+    let data: Buffer = fs.readFileSync(fullPath);
+    const mediaType = detectImageType(data);
+    if (!mediaType) throw new ImageError(`${filePath} is not a PNG or JPEG image`);
+    const size = imageDimensions(data, mediaType);
+    if (!size) throw new ImageError(`Cannot read the dimensions of ${filePath} (corrupt image?)`);
+
+    const image: LoadedImage = {
+        part: { type: 'image_url', image_url: { url: '' } },
+        name: filePath,
+        mediaType,
+        ...size,
+        bytes: data.length
+    };
+
+    const longest = Math.max(size.width, size.height);
+    if (longest > MAX_IMAGE_SIDE) {
+        const scale = MAX_IMAGE_SIDE / longest;
+        const width = Math.max(1, Math.round(size.width * scale));
+        const height = Math.max(1, Math.round(size.height * scale));
+        const resized = resizeImage(fullPath, mediaType, width, height);
+        if (resized) {
+            image.originalSize = { ...size, bytes: data.length };
+            data = resized;
+            Object.assign(image, imageDimensions(data, mediaType) ?? { width, height }, { bytes: data.length });
+        } else {
+            image.warning = `${size.width}x${size.height} could not be downscaled (install ImageMagick or ffmpeg), sent at full size`;
+        }
+    }
+    if (data.length > MAX_IMAGE_BYTES) {
+        throw new ImageError(`${filePath} is ${formatBytes(data.length)}${image.originalSize ? ' after downscaling' : ''}, the limit is ${formatBytes(MAX_IMAGE_BYTES)}`);
+    }
+
+    image.part.image_url.url = `data:${mediaType};base64,${data.toString('base64')}`;
+    return image;
+}
+
+/**
+ * Split a data URL into media type and base64 payload (Ollama and Anthropic
+ * want them apart)
+ */
+export function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+    const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+    return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+/**
+ * User message content: plain text, or text followed by image parts
+ */
+export function userContent(text: string, images: ImagePart[] = []): string | ContentPart[] {
+    return images.length > 0 ? [{ type: 'text', text }, ...images] : text;
+}
+
+/**
+ * The text of a message; images become "[image]"
+ */
+export function contentText(content: Message['content']): string {
+    if (!content) return '';
+    if (typeof content === 'string') return content;
+    return content.map(p => p.type === 'text' ? p.text : '[image]').join('\n');
+}
+
+export function countImages(content: Message['content']): number {
+    return Array.isArray(content) ? content.filter(p => p.type === 'image_url').length : 0;
+}
+
+export function hasImages(messages: Message[]): boolean {
+    return messages.some(m => countImages(m.content) > 0);
+}
+
+/**
+ * Replace images with a text note, for models without vision support
+ */
+export function stripImages(messages: Message[], note: string): Message[] {
+    return messages.map(m => Array.isArray(m.content)
+        ? { ...m, content: m.content.map(p => p.type === 'image_url' ? { type: 'text', text: note } as ContentPart : p) }
+        : m);
+}
@@ -2,18 +2,32 @@
 import * as readline from 'readline';
 import * as os from 'os';
 import chalk from 'chalk';
+import ora from 'ora';
 import * as path from 'path';
 import * as fs from 'fs';
 import fetch from 'node-fetch';
-import { loadConfig } from './config';
-import { LLMClient } from './llm-client';
+import { OpenCodeConfig, ModelTarget, activeModelTarget, loadConfig, applySelection, resolveSelection, updateConfigLayer, describeConfigValue, WritableLayer, LAYER_RANK, parseVerifyConfig } from './config';
+import { ConfigError, PartialConfigFile, SAMPLING_KEYS, SamplingDefaults, formatIssues, validateSampling } from './config-schema';
+import { LLMClient, LLMClientOptions, ImagePart, isAbortError } from './llm-client';
+import { ReasoningDisplay } from './reasoning';
+import { LoadedImage, loadImage } from './images';
+import { PROBE_CACHE_FILE, ProbeResult, applyCachedProbes, applyProbeResult, formatProbeResult, getCachedProbe, probeModel, saveProbeResult } from './probe';
+import { CassettePlayer, CassetteRecorder, CassetteMatch, CASSETTE_MATCHES } from './cassette';
 import { ToolExecutor, TOOLS_DEFINITION } from './tools';
-import { Agent } from './agent';
+import { mergePermissions, PermissionAction, PermissionSection } from './permissions';
+import { describeExecutionSettings, isProjectTrusted, projectExecutionSettings, trustProject } from './trust';
+import { Agent, ChatOptions } from './agent';
+import { attachTerminalRenderer, formatReasoning } from './renderer';
+import * as readlineSync from 'readline-sync';
+import { spawnSync } from 'child_process';
 import { gatherProjectContext, formatProjectContextForPrompt } from './project';
 import { loadSession } from './session';
 import { loadPlugins } from './plugins';
 import { setLogLevel, getLogLevel } from './logger';
 import { setAuditLog } from './audit';
+import { estimateTokens } from './compaction';
+import { UsageTracker, formatUsage } from './usage';
+import { OutputFormat, OUTPUT_FORMATS, EXIT_CODES, RunRecorder, attachNdjsonWriter } from './output';
 import { renderTitleBar, renderBanner, renderInputPrompt, renderInputAreaTop, renderResponseSeparator, renderAssistantHeader, renderGoodbye } from './ui';
 // Advanced features
 import { buildCodebaseContext, formatContextForPrompt, formatFileTree, CodebaseContext } from './context';
@@ -29,7 +43,7 @@ marked.setOptions({
     renderer: new TerminalRenderer()
 });
 
-type CliAction = 'repl' | 'help' | 'version' | 'run';
+type CliAction = 'repl' | 'help' | 'version' | 'run' | 'doctor';
 
 interface CliOptions {
     configPath?: string;
@@ -40,12 +54,29 @@ interface CliOptions {
     sessionPath?: string;
     pluginDir?: string;
     noProject?: boolean;
+    /** Apply the project config's verify, plugins, allow rules and endpoints without asking */
+    trustProject?: boolean;
     verbose?: boolean;
     quiet?: boolean;
     debug?: boolean;
     dryRun?: boolean;
     allowCommands?: string[];
+    /** Directories outside the working directory the file tools may use */
+    allowedRoots?: string[];
     auditLogPath?: string;
+    plan?: boolean;
+    verifyCommand?: string;
+    noVerify?: boolean;
+    outputFormat?: OutputFormat;
+    profile?: string;
+    llmRecord?: string;
+    llmReplay?: string;
+    llmReplayMatch?: CassetteMatch;
+    reasoningDisplay?: ReasoningDisplay;
+    /** PNG/JPEG files sent with the --run prompt (or the first REPL message) */
+    images?: string[];
+    /** doctor: measure the context window with growing prompts */
+    measureContext?: boolean;
 }
 
 interface ParsedCli {
@@ -58,24 +89,39 @@ function printGlobalHelp() {
     console.log('');
     console.log(chalk.bold('Usage:'));
     console.log('  opencode [options]');
+    console.log('  opencode doctor [--context]  Check the config and probe the configured models');
     console.log('');
     console.log(chalk.bold('Global options:'));
     console.log('  --help, -h        Show this help and exit');
     console.log('  --version, -v     Show version and exit');
     console.log('  --config <path>   Use a specific config file instead of the default');
+    console.log('  --profile <name>  Use a named profile from the config (provider + model)');
     console.log('  --no-banner       Start without the startup banner');
     console.log('  --run <prompt>    Run a single prompt non-interactively and exit');
+    console.log('  --image <path>    Attach a PNG/JPEG image to the prompt (repeatable)');
     console.log('  --yes, -y         Auto-approve shell commands (use with --run for scripts)');
     console.log('  --stream          Stream LLM response tokens as they arrive');
     console.log('  --session <path>  Load a saved session on startup');
     console.log('  --plugin-dir      Directory for plugin tools (~/.config/opencode/plugins)');
     console.log('  --no-project      Skip auto-loading project context (package.json, README)');
+    console.log('  --trust-project   Trust the project config\'s verify command, plugins, allow rules and endpoints');
     console.log('  --verbose, -V     Verbose output (tool details)');
     console.log('  --quiet, -q       Minimal output');
     console.log('  --debug           Debug mode (log requests/responses)');
     console.log('  --dry-run         Show planned tool actions without executing');
-    console.log('  --allow <list>    Comma-separated commands to auto-approve with --yes');
+    console.log('  --allow <list>    Comma-separated commands to allow; with --yes, other commands are denied');
+    console.log('  --allow-root <dir>  Let the file tools use <dir> outside the working directory (repeatable)');
     console.log('  --audit-log <path>  Log tool executions to file');
+    console.log('  --plan            Plan mode: propose a plan for approval before any tool modifies files');
+    console.log('  --verify <cmd>    Run <cmd> after turns that modify files and let the agent fix failures');
+    console.log('  --no-verify       Disable the configured verification command');
+    console.log('  --show-reasoning  Show the full reasoning of thinking models as it arrives');
+    console.log('  --hide-reasoning  Do not show the reasoning of thinking models');
+    console.log('  --output-format <text|json|ndjson>  Output of --run: rendered text, one JSON report, or one JSON event per line');
+    console.log('  --llm-record <file>  Save every LLM request and response (streamed chunks included) to a cassette');
+    console.log('  --llm-replay <file>  Answer LLM requests from a cassette, without any network');
+    console.log('  --llm-replay-match <auto|hash|order>  How replayed requests find their response (default auto)');
+    console.log('  --context         (doctor) Measure the context window with growing prompts if the server does not report it');
     console.log('');
     console.log(chalk.bold('Interactive REPL:'));
     console.log('  Once running, type /help for available in-session commands.');
@@ -121,6 +167,23 @@ function parseCliArgs(argv: string[]): ParsedCli {
                 i++;
                 break;
             }
+            case '--profile': {
+                const next = argv[i + 1];
+                if (!next || next.startsWith('-')) {
+                    console.error(chalk.red('   ❌ Missing name for --profile <name>'));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.profile = next;
+                i++;
+                break;
+            }
+            case 'doctor':
+                action = 'doctor';
+                break;
+            case '--context':
+                options.measureContext = true;
+                break;
             case '--no-banner':
                 options.showBanner = false;
                 break;
@@ -140,6 +203,17 @@ function parseCliArgs(argv: string[]): ParsedCli {
                 i++;
                 break;
             }
+            case '--image': {
+                const next = argv[i + 1];
+                if (!next || next.startsWith('-')) {
+                    console.error(chalk.red('   ❌ Missing path for --image <path>'));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.images = [...(options.images ?? []), next];
+                i++;
+                break;
+            }
             case '--stream':
                 options.stream = true;
                 break;
@@ -167,6 +241,9 @@ function parseCliArgs(argv: string[]): ParsedCli {
             case '--no-project':
                 options.noProject = true;
                 break;
+            case '--trust-project':
+                options.trustProject = true;
+                break;
             case '--verbose':
             case '-V':
                 options.verbose = true;
@@ -192,6 +269,75 @@ function parseCliArgs(argv: string[]): ParsedCli {
                 i++;
                 break;
             }
+            case '--allow-root': {
+                const next = argv[i + 1];
+                if (!next || next.startsWith('-')) {
+                    console.error(chalk.red('   ❌ Missing directory for --allow-root <dir>'));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.allowedRoots = [...(options.allowedRoots ?? []), next];
+                i++;
+                break;
+            }
+            case '--plan':
+                options.plan = true;
+                break;
+            case '--verify': {
+                const next = argv[i + 1];
+                if (!next || next.startsWith('-')) {
+                    console.error(chalk.red('   ❌ Missing command for --verify <cmd>'));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.verifyCommand = next;
+                i++;
+                break;
+            }
+            case '--no-verify':
+                options.noVerify = true;
+                break;
+            case '--show-reasoning':
+                options.reasoningDisplay = 'full';
+                break;
+            case '--hide-reasoning':
+                options.reasoningDisplay = 'hidden';
+                break;
+            case '--output-format': {
+                const next = argv[i + 1] as OutputFormat;
+                if (!next || !OUTPUT_FORMATS.includes(next)) {
+                    console.error(chalk.red(`   ❌ --output-format must be one of: ${OUTPUT_FORMATS.join(', ')}`));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.outputFormat = next;
+                i++;
+                break;
+            }
+            case '--llm-record':
+            case '--llm-replay': {
+                const next = argv[i + 1];
+                if (!next || next.startsWith('-')) {
+                    console.error(chalk.red(`   ❌ Missing path for ${arg} <file>`));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                if (arg === '--llm-record') options.llmRecord = next;
+                else options.llmReplay = next;
+                i++;
+                break;
+            }
+            case '--llm-replay-match': {
+                const next = argv[i + 1] as CassetteMatch;
+                if (!next || !CASSETTE_MATCHES.includes(next)) {
+                    console.error(chalk.red(`   ❌ --llm-replay-match must be one of: ${CASSETTE_MATCHES.join(', ')}`));
+                    printGlobalHelp();
+                    process.exit(1);
+                }
+                options.llmReplayMatch = next;
+                i++;
+                break;
+            }
             case '--audit-log': {
                 const next = argv[i + 1];
                 if (!next || next.startsWith('-')) {
@@ -219,15 +365,239 @@ function parseCliArgs(argv: string[]): ParsedCli {
 
 interface ReplContext {
     agent: Agent;
+    llm: LLMClient;
     config: ReturnType<typeof loadConfig>;
     options: CliOptions;
+    /** Aborted when the user presses Ctrl+C while the command runs */
+    signal?: AbortSignal;
 }
 
 type CommandHandler = (args: string[], context: ReplContext) => Promise<void> | void;
 
+/**
+ * Open text in $VISUAL/$EDITOR and return the edited result
+ */
+function editTextInEditor(text: string): string {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    const tmpFile = path.join(os.tmpdir(), `opencode-plan-${Date.now()}.md`);
+    fs.writeFileSync(tmpFile, text, 'utf-8');
+    try {
+        const result = spawnSync(editor, [tmpFile], { stdio: 'inherit', shell: true });
+        if (result.status !== 0) {
+            console.log(chalk.yellow(`   Editor exited with status ${result.status}. Keeping the previous plan.`));
+            return text;
+        }
+        return fs.readFileSync(tmpFile, 'utf-8').trim() || text;
+    } finally {
+        try { fs.unlinkSync(tmpFile); } catch (_) { /* ignore */ }
+    }
+}
+
+/**
+ * Plan mode: let the agent explore read-only, show the plan and only run the
+ * tool loop once the user approves it. Returns undefined if rejected.
+ */
+async function runPlanFlow(agent: Agent, task: string, chatOpts: ChatOptions, autoApprove?: boolean): Promise<string | void> {
+    // Plans are rendered once complete, so don't stream them
+    const planOpts: ChatOptions = { debug: chatOpts.debug, signal: chatOpts.signal };
+    let plan = await agent.plan(task, { ...planOpts, images: chatOpts.images });
+
+    while (true) {
+        console.log(chalk.yellow('\n📋 Proposed plan:'));
+        console.log(await marked(plan));
+
+        if (autoApprove) {
+            console.log(chalk.gray('   Auto-approved (--yes)'));
+            break;
+        }
+
+        const answer = readlineSync.question('   Approve plan? (y)es / (e)dit / (r)evise / (n)o: ').trim().toLowerCase();
+        if (answer === 'y' || answer === 'yes') break;
+        if (answer === 'e' || answer === 'edit') {
+            plan = editTextInEditor(plan);
+            continue;
+        }
+        if (answer === 'r' || answer === 'revise') {
+            const feedback = readlineSync.question('   What should change? ').trim();
+            if (feedback) plan = await agent.revisePlan(feedback, planOpts);
+            continue;
+        }
+        agent.discardPlan();
+        console.log(chalk.red('   ❌ Plan rejected. Nothing was changed.'));
+        return;
+    }
+
+    console.log(chalk.green('   ✅ Plan approved. Executing...'));
+    console.log(renderResponseSeparator() + renderAssistantHeader());
+    return agent.executePlan(plan, chatOpts);
+}
+
+/**
+ * Ask whether to apply a project config's settings that run commands or
+ * change where requests go (see trust.ts). Only asked in an interactive terminal.
+ */
+function confirmProjectTrust(projectPath: string, settings: PartialConfigFile, options: CliOptions, interactive: boolean): boolean {
+    if (options.trustProject) return true;
+    if (!interactive) return false;
+    console.log(chalk.yellow(`\n⚠️  ${projectPath} wants to run commands without asking or send requests elsewhere:`));
+    for (const line of describeExecutionSettings(settings)) console.log(chalk.yellow(`   - ${line}`));
+    const answer = readlineSync.question('   Trust these settings? (y/n): ').trim().toLowerCase();
+    return answer === 'y' || answer === 'yes';
+}
+
+/**
+ * updateConfigLayer for a change the user made: it does not make a trusted
+ * project config untrusted
+ */
+function saveConfigLayer(config: OpenCodeConfig, layer: WritableLayer, update: (file: Record<string, any>) => void): string {
+    if (layer !== 'project') return updateConfigLayer(config, layer, update);
+    let wasTrusted = true;
+    let settings: PartialConfigFile | undefined;
+    const saved = updateConfigLayer(config, 'project', (file) => {
+        const before = projectExecutionSettings(file);
+        wasTrusted = !before || (!!config.projectConfigPath && isProjectTrusted(config.projectConfigPath, before));
+        update(file);
+        settings = projectExecutionSettings(file);
+    });
+    if (wasTrusted && settings) trustProject(saved, settings);
+    return saved;
+}
+
+/**
+ * Write an "always for this project" approval to the project config
+ */
+function saveProjectRule(config: OpenCodeConfig, section: PermissionSection, pattern: string, action: PermissionAction) {
+    const saved = saveConfigLayer(config, 'project', (file) => {
+        file.permissions = file.permissions ?? {};
+        file.permissions[section] = { ...file.permissions[section], [pattern]: action };
+    });
+    config.permissions = mergePermissions(config.permissions, { [section]: { [pattern]: action } });
+    config.sources = { ...config.sources, permissions: { layer: 'project', origin: saved } };
+}
+
+/**
+ * Probe one model, showing progress and the report
+ */
+async function runProbe(target: ModelTarget, measureContext: boolean): Promise<ProbeResult> {
+    console.log(chalk.yellow(`\n🔬 Probing ${target.label} (${target.provider}, ${target.baseURL})...`));
+    const spinner = ora({ text: 'latency', color: 'cyan' }).start();
+    const result = await probeModel(target, {
+        measureContext,
+        onStep: step => { spinner.text = step; }
+    });
+    spinner.stop();
+    for (const line of formatProbeResult(result)) {
+        console.log(result.reachable ? `   ${line}` : chalk.red(`   ${line}`));
+    }
+    return result;
+}
+
+function reportProbeChanges(config: OpenCodeConfig, changes: string[]) {
+    if (changes.length === 0) return;
+    console.log(chalk.gray(`   Probe results for ${config.model}: ${changes.join(', ')}`));
+}
+
+/**
+ * opencode doctor: where the config comes from, then a probe of every
+ * configured model (active, fallback and routed). Returns the exit code.
+ */
+async function runDoctor(config: OpenCodeConfig, measureContext: boolean): Promise<number> {
+    console.log(chalk.bold.cyan('OpenCode doctor'));
+    console.log(chalk.gray(`   User config:    ${config.file ? config.configPath : `${config.configPath} (not found, using defaults)`}`));
+    console.log(chalk.gray(`   Project config: ${config.projectConfigPath ?? 'none'}`));
+
+    const targets = new Map<string, ModelTarget>();
+    for (const target of [activeModelTarget(config), ...Object.values(config.routing ?? {}), ...(config.fallback ?? [])]) {
+        if (!targets.has(target.label)) targets.set(target.label, target);
+    }
+    let failed = 0;
+    for (const target of targets.values()) {
+        const result = await runProbe(target, measureContext);
+        if (!result.reachable) {
+            failed++;
+            continue;
+        }
+        saveProbeResult(result);
+        if (target.label === activeModelTarget(config).label) reportProbeChanges(config, applyProbeResult(config, result));
+    }
+    console.log('');
+    if (failed > 0) {
+        console.log(chalk.red(`❌ ${failed} of ${targets.size} model(s) unreachable`));
+        return EXIT_CODES.ERROR;
+    }
+    console.log(chalk.green(`✅ ${targets.size} model(s) OK. Results saved to ${PROBE_CACHE_FILE} and applied where the config leaves settings open.`));
+    return EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Value of a /set argument: numbers, comma-separated stop sequences (\n
+ * allowed), or a tool_choice mode or tool name
+ */
+function parseSamplingValue(key: keyof SamplingDefaults, raw: string): unknown {
+    switch (key) {
+        case 'stop': {
+            const sequences = raw.split(',').map(s => s.replace(/\\n/g, '\n')).filter(Boolean);
+            return sequences.length === 1 ? sequences[0] : sequences;
+        }
+        case 'tool_choice':
+            return ['auto', 'none', 'required'].includes(raw) ? raw : { type: 'function', function: { name: raw } };
+        default:
+            return Number(raw);
+    }
+}
+
+/**
+ * Effective sampling parameters and where each comes from ("temperature=0.2 (/set)")
+ */
+function describeSampling(config: OpenCodeConfig): string {
+    const effective: Record<string, [SamplingDefaults[keyof SamplingDefaults], string]> = {};
+    for (const [key, value] of Object.entries(config.sampling ?? {})) effective[key] = [value, 'model'];
+    for (const [key, value] of Object.entries(config.samplingOverrides ?? {})) effective[key] = [value, '/set'];
+    return Object.entries(effective)
+        .map(([key, [value, source]]) => {
+            // A forced tool_choice is shown by the tool's name
+            const shown = typeof value === 'object' && 'function' in value ? value.function.name : JSON.stringify(value);
+            return `${key}=${shown} (${source})`;
+        })
+        .join(', ');
+}
+
+/**
+ * Split a trailing --project / --user flag off command arguments (default: user)
+ */
+function takeLayerFlag(args: string[]): { rest: string[]; layer: WritableLayer } {
+    const layer: WritableLayer = args.includes('--project') ? 'project' : 'user';
+    return { rest: args.filter(a => a !== '--project' && a !== '--user'), layer };
+}
+
 // Track last input for /retry
 let lastUserInput: string | null = null;
+let lastUserImages: ImagePart[] = [];
 let lastInputFailed = false;
+// Images attached with /image, sent with the next message
+let pendingImages: LoadedImage[] = [];
+
+/**
+ * Load an image for the main model, printing what happened. Null if it
+ * cannot be sent.
+ */
+function attachImage(filePath: string, llm: LLMClient): LoadedImage | null {
+    if (!llm.acceptsImages()) {
+        console.log(chalk.red(`   ❌ ${llm.getChain()[0].label} does not accept images. Switch to a vision model with /model or /profile.`));
+        return null;
+    }
+    try {
+        const image = loadImage(filePath);
+        const size = `${image.width}x${image.height}, ${Math.ceil(image.bytes / 1024)} KB`;
+        const original = image.originalSize ? `, downscaled from ${image.originalSize.width}x${image.originalSize.height}` : '';
+        console.log(chalk.green(`   📎 Attached ${filePath} (${size}${original})`));
+        if (image.warning) console.log(chalk.yellow(`   ⚠️  ${image.warning}`));
+        return image;
+    } catch (e: any) {
+        console.log(chalk.red(`   ❌ ${e.message}`));
+        return null;
+    }
+}
 
 const replCommands: Record<string, CommandHandler> = {
     '/save': (args, { agent }) => {
@@ -253,9 +623,153 @@ const replCommands: Record<string, CommandHandler> = {
     '/clear': (args, { agent }) => {
         agent.clearHistory();
         lastUserInput = null;
+        lastUserImages = [];
+        pendingImages = [];
         lastInputFailed = false;
         console.log(chalk.green('   🧹 Context cleared.'));
     },
+    '/plan': async (args, { agent, options, signal }) => {
+        const task = args.join(' ').trim();
+        if (!task) {
+            const plan = agent.getApprovedPlan();
+            if (plan) {
+                console.log(chalk.yellow('\n📋 Approved plan:'));
+                console.log(await marked(plan));
+            } else {
+                console.log(chalk.red('   ❌ Usage: /plan <task>'));
+            }
+            return;
+        }
+
+        lastUserInput = task;
+        lastInputFailed = false;
+        try {
+            await runPlanFlow(agent, task, { stream: options.stream, debug: options.debug, signal });
+        } catch (e: any) {
+            lastInputFailed = true;
+            if (isAbortError(e)) {
+                agent.discardPlan();
+                console.log(chalk.yellow('\n   ⏹  Cancelled.'));
+                return;
+            }
+            console.error(chalk.red(`Error: ${e.message}`));
+        }
+    },
+    '/undo': async (args, { agent }) => {
+        try {
+            const checkpoint = await agent.getCheckpoints().undo();
+            if (!checkpoint) {
+                console.log(chalk.gray('   Nothing to undo.'));
+                return;
+            }
+            console.log(chalk.green(`   ↩️  Restored ${checkpoint.files.length} file(s) from before turn #${checkpoint.id}:`));
+            for (const f of checkpoint.files) {
+                const note = f.before === null ? chalk.gray(' (removed, did not exist)') : '';
+                console.log(`      ${path.relative(process.cwd(), f.path)}${note}`);
+            }
+            agent.addToContext('system', `The user undid the file changes of turn #${checkpoint.id}: ${checkpoint.files.map(f => path.relative(process.cwd(), f.path)).join(', ')}`);
+        } catch (e: any) {
+            console.log(chalk.red(`   ❌ Undo failed: ${e.message}`));
+        }
+    },
+    '/redo': async (args, { agent }) => {
+        try {
+            const checkpoint = await agent.getCheckpoints().redo();
+            if (!checkpoint) {
+                console.log(chalk.gray('   Nothing to redo.'));
+                return;
+            }
+            console.log(chalk.green(`   ↪️  Reapplied ${checkpoint.files.length} file(s) from turn #${checkpoint.id}`));
+            agent.addToContext('system', `The user reapplied the file changes of turn #${checkpoint.id}: ${checkpoint.files.map(f => path.relative(process.cwd(), f.path)).join(', ')}`);
+        } catch (e: any) {
+            console.log(chalk.red(`   ❌ Redo failed: ${e.message}`));
+        }
+    },
+    '/checkpoints': (args, { agent }) => {
+        const checkpoints = agent.getCheckpoints().list();
+        if (checkpoints.length === 0) {
+            console.log(chalk.gray('\n   No checkpoints yet. They are created when the agent modifies files.'));
+            return;
+        }
+        console.log(chalk.yellow(`\n🕒 Checkpoints (${checkpoints.length}):`));
+        for (const c of checkpoints) {
+            const time = new Date(c.timestamp).toLocaleTimeString();
+            const label = c.label.length > 50 ? c.label.slice(0, 50) + '...' : c.label;
+            console.log(`   #${c.id} ${chalk.gray(time)} "${label}"`);
+            for (const f of c.files) {
+                const marker = f.before === null ? chalk.green('+') : chalk.yellow('~');
+                console.log(`      ${marker} ${path.relative(process.cwd(), f.path)}`);
+            }
+        }
+        console.log(chalk.gray('\n   💡 /undo restores the most recent turn, /redo reapplies it'));
+    },
+    '/ps': async (args, { agent }) => {
+        const processes = agent.getProcesses();
+        if (args[0] === 'stop' && args[1]) {
+            try {
+                await processes.stop(args[1]);
+                console.log(chalk.green(`   ✅ Stopped ${args[1]}`));
+            } catch (e: any) {
+                console.log(chalk.red(`   ❌ ${e.message}`));
+            }
+            return;
+        }
+        const list = processes.list();
+        if (list.length === 0) {
+            console.log(chalk.gray('\n   No background processes. The agent starts them with start_process.'));
+            return;
+        }
+        console.log(chalk.yellow(`\n⚙️  Background processes (${list.filter(p => p.running).length} running):`));
+        for (const p of list) {
+            const status = p.running ? chalk.green('running') : chalk.gray(`exited (${p.exitCode ?? 'killed'})`);
+            console.log(`   ${p.id} ${chalk.gray(`pid ${p.pid ?? '?'}`)} ${status} ${p.command}`);
+        }
+        console.log(chalk.gray('\n   💡 /ps stop <id> stops one; all are stopped when opencode exits'));
+    },
+    '/verify': (args, { agent }) => {
+        const current = agent.getVerify();
+        if (args.length === 0) {
+            console.log(chalk.yellow('\n🧪 Verification:'));
+            if (current) {
+                console.log(`   Command:      ${current.command}`);
+                console.log(`   Fix attempts: ${current.maxAttempts}`);
+                const last = agent.getLastVerification();
+                if (last) {
+                    console.log(`   Last run:     ${last.passed ? chalk.green('passed') : chalk.red(`failed (exit ${last.exitCode ?? '?'})`)}`);
+                }
+            } else {
+                console.log(chalk.gray('   Not configured.'));
+            }
+            console.log(chalk.gray('\n   💡 /verify <command> to set it for this session, /verify off to disable'));
+            return;
+        }
+        if (args[0].toLowerCase() === 'off') {
+            agent.setVerify(undefined);
+            console.log(chalk.green('   ✅ Verification disabled for this session'));
+            return;
+        }
+        const verify = parseVerifyConfig({ ...current, command: args.join(' ') });
+        agent.setVerify(verify);
+        console.log(chalk.green(`   ✅ Verification command: ${verify?.command}`));
+    },
+    '/compact': async (args, { agent, options, signal }) => {
+        console.log(chalk.yellow('\n🗜️  Compacting conversation...'));
+        try {
+            const result = await agent.compact({ force: true, debug: options.debug, signal });
+            if (!result || (result.summarized === 0 && result.stubbed === 0)) {
+                console.log(chalk.gray('   Nothing to compact yet.'));
+                return;
+            }
+            console.log(chalk.green(`   ✅ ~${result.tokensBefore} → ~${result.tokensAfter} tokens`));
+            console.log(chalk.gray(`   Summarized ${result.summarized} message(s), stubbed ${result.stubbed} tool output(s)`));
+        } catch (e: any) {
+            if (isAbortError(e)) {
+                console.log(chalk.yellow('   ⏹  Compaction cancelled.'));
+                return;
+            }
+            console.log(chalk.red(`   ❌ Compaction failed: ${e.message}`));
+        }
+    },
     '/add': (args, { agent }) => {
         if (args.length < 1) {
             console.log(chalk.red('   ❌ Usage: /add <file_path>'));
@@ -283,17 +797,42 @@ const replCommands: Record<string, CommandHandler> = {
             console.log(chalk.red(`   ❌ Error reading file: ${e.message}`));
         }
     },
-    '/ping': async (args, { config }) => {
+    '/image': (args, { llm }) => {
+        const filePath = args.join(' ').trim();
+        if (!filePath) {
+            if (pendingImages.length === 0) {
+                console.log(chalk.gray('   No images attached. Usage: /image <path.png|jpg>, then type your message'));
+            } else {
+                console.log(chalk.yellow(`\n📎 Sent with your next message:`));
+                for (const image of pendingImages) console.log(`   • ${image.name} (${image.width}x${image.height})`);
+                console.log(chalk.gray('   💡 /image clear to remove them'));
+            }
+            return;
+        }
+        if (filePath === 'clear') {
+            pendingImages = [];
+            console.log(chalk.green('   ✅ Attached images removed'));
+            return;
+        }
+        const image = attachImage(filePath, llm);
+        if (image) {
+            pendingImages.push(image);
+            console.log(chalk.gray('   💡 Now type your message; the image is sent with it'));
+        }
+    },
+    '/ping': async (args, { config, llm }) => {
         console.log(chalk.yellow('\n🔍 Testing connection...'));
-        const url = `${config.baseURL}/models`;
+        const provider = llm.getProvider();
+        const request = provider.buildModelsRequest({ baseURL: config.baseURL, apiKey: config.apiKey });
         const startTime = Date.now();
 
         try {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), 10000);
 
-            const response = await fetch(url, {
+            const response = await fetch(request.url, {
                 method: 'GET',
+                headers: request.headers,
                 signal: controller.signal as any
             });
 
@@ -301,13 +840,12 @@ const replCommands: Record<string, CommandHandler> = {
             const latency = Date.now() - startTime;
 
             if (response.ok) {
-                const data: any = await response.json();
-                const modelCount = data.data?.length || 0;
+                const models = provider.parseModels(await response.json());
                 console.log(chalk.green(`   ✅ Connected! (${latency}ms)`));
-                console.log(chalk.gray(`   Endpoint: ${config.baseURL}`));
-                console.log(chalk.gray(`   Models available: ${modelCount}`));
-                if (data.data && data.data.length > 0) {
-                    console.log(chalk.gray(`   Available: ${data.data.map((m: any) => m.id).join(', ')}`));
+                console.log(chalk.gray(`   Endpoint: ${config.baseURL} (${provider.kind})`));
+                console.log(chalk.gray(`   Models available: ${models.length}`));
+                if (models.length > 0) {
+                    console.log(chalk.gray(`   Available: ${models.join(', ')}`));
                 }
             } else {
                 console.log(chalk.red(`   ❌ Server responded with ${response.status}`));
@@ -322,44 +860,99 @@ const replCommands: Record<string, CommandHandler> = {
             console.log(chalk.gray(`   Endpoint: ${config.baseURL}`));
         }
     },
-    '/model': (args, { config }) => {
-        if (args.length === 0) {
+    '/probe': async (args, { config, agent, options }) => {
+        const target = activeModelTarget(config);
+        const result = await runProbe(target, args[0] === 'context');
+        if (!result.reachable) return;
+        saveProbeResult(result);
+        const changes = applyProbeResult(config, result);
+        agent.setContextLength(config.contextLength);
+        reportProbeChanges(config, changes);
+        if (result.streaming === false && options.stream) {
+            options.stream = false;
+            console.log(chalk.yellow('   ⚠️  The server does not stream: --stream is off for this session'));
+        }
+        console.log(chalk.gray(`   Saved to ${PROBE_CACHE_FILE}; used automatically for this endpoint and model`));
+    },
+    '/model': (args, { config, agent }) => {
+        const { rest, layer } = takeLayerFlag(args);
+        if (rest.length === 0) {
             console.log(chalk.yellow('\n🤖 Current Model:'));
-            console.log(`   ${config.model}`);
-            console.log(chalk.gray('\n   💡 Use /model <name> to switch models'));
-            console.log(chalk.gray('   💡 Use /ping to see available models'));
+            console.log(`   ${config.model}${config.providerId ? chalk.gray(` (provider: ${config.providerId})`) : ''}`);
+            console.log(chalk.gray('\n   💡 Use /model <name> [--project] to switch models (saved to the user config, or the project with --project)'));
+            console.log(chalk.gray('   💡 Use /ping to see available models, /profile to switch provider and model'));
             return;
         }
 
-        const newModel = args.join(' ').replace(/^["']|["']$/g, '').trim();
+        const newModel = rest.join(' ').replace(/^["']|["']$/g, '').trim();
         const oldModel = config.model;
-        config.model = newModel;
 
-        // Update config file
-        const homeDir = os.homedir();
-        const configPath = path.join(homeDir, '.config', 'opencode', 'opencode.json');
+        if (config.file && config.providerId) {
+            applySelection(config, config.file, { providerId: config.providerId, model: newModel, profile: config.profile });
+        } else {
+            config.model = newModel;
+        }
+        reportProbeChanges(config, applyCachedProbes(config));
+        agent.setContextLength(config.contextLength);
 
         try {
-            if (fs.existsSync(configPath)) {
-                const rawConfig = fs.readFileSync(configPath, 'utf-8');
-                const configJson = JSON.parse(rawConfig);
-
-                // Update model in colab provider
-                if (configJson.provider?.colab?.models) {
-                    // Clear existing models and add new one
-                    configJson.provider.colab.models = { [newModel]: { name: newModel, tools: true } };
-                }
-
-                fs.writeFileSync(configPath, JSON.stringify(configJson, null, 2));
+            const providerId = config.providerId;
+            const previous = config.sources?.model;
+            const saved = updateConfigLayer(config, layer, (file) => {
+                if (providerId) file.provider = providerId;
+                file.model = newModel;
+            });
+            config.sources = { ...config.sources, model: { layer, origin: saved }, provider: { layer, origin: saved } };
+            console.log(chalk.gray(`   Saved to: ${saved}`));
+            if (previous && LAYER_RANK[previous.layer] > LAYER_RANK[layer]) {
+                console.log(chalk.yellow(`   Note: the ${previous.layer} layer${previous.origin ? ` (${previous.origin})` : ''} sets the model too and wins on the next start`));
             }
         } catch (err: any) {
             console.log(chalk.yellow(`   Note: Could not persist to config file: ${err.message}`));
+            if (err instanceof ConfigError) for (const line of formatIssues(err.issues)) console.log(chalk.yellow(`      ${line}`));
         }
 
         console.log(chalk.green('\n✅ Model updated!'));
         console.log(chalk.gray(`   Old: ${oldModel}`));
         console.log(chalk.cyan(`   New: ${newModel}`));
     },
+    '/profile': (args, { config, agent }) => {
+        const file = config.file;
+        const profiles = file?.profiles ?? {};
+        if (args.length === 0) {
+            const names = Object.keys(profiles);
+            console.log(chalk.yellow('\n🎛️  Profiles:'));
+            if (names.length === 0) {
+                console.log(chalk.gray('   None configured. Add "profiles": { "fast": { "provider": "<id>", "model": "<name>" } } to opencode.json'));
+                return;
+            }
+            for (const name of names) {
+                const p = profiles[name];
+                const marker = name === config.profile ? chalk.green('●') : ' ';
+                const desc = p.description ? chalk.gray(` - ${p.description}`) : '';
+                console.log(`   ${marker} ${chalk.cyan(name)}: ${p.provider}/${p.model}${desc}`);
+            }
+            console.log(chalk.gray('\n   💡 /profile <name> switches for this session; set "defaultProfile" to change the default'));
+            return;
+        }
+
+        if (!file) {
+            console.log(chalk.red('   ❌ No config file loaded, so there are no profiles'));
+            return;
+        }
+        try {
+            applySelection(config, file, resolveSelection(file, args[0]));
+            const probeChanges = applyCachedProbes(config);
+            agent.setContextLength(config.contextLength);
+            console.log(chalk.green(`\n✅ Profile: ${config.profile}`));
+            console.log(chalk.gray(`   ${config.providerId} (${config.provider}) ${config.baseURL}`));
+            console.log(chalk.cyan(`   Model: ${config.model}`));
+            reportProbeChanges(config, probeChanges);
+        } catch (e: any) {
+            if (!(e instanceof ConfigError)) throw e;
+            for (const line of formatIssues(e.issues)) console.log(chalk.red(`   ❌ ${line}`));
+        }
+    },
     '/timeout': (args, { config }) => {
         if (args.length === 0) {
             console.log(chalk.yellow('\n⏱️  Current Timeout:'));
@@ -381,7 +974,46 @@ const replCommands: Record<string, CommandHandler> = {
         console.log(chalk.gray(`   Old: ${oldTimeout}ms`));
         console.log(chalk.cyan(`   New: ${newTimeout}ms`));
     },
-    '/retry': async (args, { agent, options }) => {
+    '/set': (args, { config }) => {
+        const [key, ...rest] = args;
+        if (!key) {
+            console.log(chalk.yellow('\n🎛️  Sampling parameters:'));
+            console.log(`   ${describeSampling(config) || chalk.gray('server defaults')}`);
+            console.log(chalk.gray(`\n   💡 /set <${SAMPLING_KEYS.join('|')}> <value>, /set <key> default, /set reset`));
+            return;
+        }
+        if (key === 'reset') {
+            config.samplingOverrides = undefined;
+            console.log(chalk.green('   ✅ Session sampling overrides cleared'));
+            return;
+        }
+        if (!(SAMPLING_KEYS as string[]).includes(key)) {
+            console.log(chalk.red(`   ❌ Unknown parameter "${key}" (one of ${SAMPLING_KEYS.join(', ')})`));
+            return;
+        }
+        const name = key as keyof SamplingDefaults;
+        const raw = rest.join(' ').trim();
+        if (!raw) {
+            console.log(chalk.red(`   ❌ Usage: /set ${name} <value>`));
+            return;
+        }
+        const overrides: SamplingDefaults = { ...config.samplingOverrides };
+        if (raw === 'default') {
+            delete overrides[name];
+        } else {
+            const value = parseSamplingValue(name, raw);
+            const errors = validateSampling({ [name]: value }, '').filter(i => i.severity === 'error');
+            if (errors.length > 0) {
+                console.log(chalk.red(`   ❌ ${name} ${errors[0].message}`));
+                return;
+            }
+            (overrides as Record<string, unknown>)[name] = value;
+        }
+        config.samplingOverrides = Object.keys(overrides).length > 0 ? overrides : undefined;
+        console.log(chalk.green(`   ✅ ${raw === 'default' ? `${name} reset to the model default` : `${name} set for this session`}`));
+        console.log(chalk.gray(`   ${describeSampling(config) || 'server defaults'}`));
+    },
+    '/retry': async (args, { agent, options, signal }) => {
         if (!lastUserInput) {
             console.log(chalk.red('   ❌ No previous input to retry'));
             return;
@@ -395,19 +1027,18 @@ const replCommands: Record<string, CommandHandler> = {
         console.log(renderResponseSeparator() + renderAssistantHeader());
 
         try {
-            const chatOpts = options.stream ? { stream: true, onChunk: (c: string) => process.stdout.write(c), debug: options.debug } : options.debug ? { debug: true } : undefined;
-            const response = await agent.chat(lastUserInput, chatOpts);
-            if (response) {
-                if (!options.stream) process.stdout.write(await marked(response));
-                process.stdout.write('\n');
-            }
+            await agent.chat(lastUserInput, { stream: options.stream, debug: options.debug, signal, images: lastUserImages });
             lastInputFailed = false;
         } catch (e: any) {
-            console.error(chalk.red(`Error: ${e.message}`));
             lastInputFailed = true;
+            if (isAbortError(e)) {
+                console.log(chalk.yellow('\n   ⏹  Cancelled.'));
+                return;
+            }
+            console.error(chalk.red(`Error: ${e.message}`));
         }
     },
-    '/status': (args, { config, agent }) => {
+    '/status': (args, { config, agent, llm }) => {
         const history = agent.getHistory();
         const userMsgs = history.filter(m => m.role === 'user').length;
         const assistantMsgs = history.filter(m => m.role === 'assistant').length;
@@ -415,15 +1046,32 @@ const replCommands: Record<string, CommandHandler> = {
 
         console.log(chalk.yellow('\n📊 Status:'));
         console.log(chalk.bold('\n   Connection:'));
+        if (config.profile) console.log(`   • Profile:  ${config.profile}`);
+        console.log(`   • Provider: ${config.providerId ? `${config.providerId} ` : ''}(${config.provider ?? 'openai'})`);
         console.log(`   • Base URL: ${config.baseURL}`);
         console.log(`   • Model:    ${config.model}`);
         console.log(`   • Timeout:  ${config.timeout || 60000}ms`);
         console.log(`   • Retries:  ${config.retries || 3}`);
+        const served = llm.getServedModel();
+        if (served && served !== llm.getChain()[0].label) {
+            console.log(chalk.yellow(`   • Serving:  ${served} (fallback)`));
+        }
+        if (config.fallback?.length) {
+            console.log(`   • Fallback: ${config.fallback.map(t => t.label).join(' → ')}`);
+        }
+        console.log(`   • Sampling: ${describeSampling(config) || chalk.gray('server defaults')}`);
+        for (const [use, target] of Object.entries(config.routing ?? {})) {
+            console.log(`   • Route:    ${use} → ${target.label}`);
+        }
+        for (const { key, retryAt } of llm.getOpenCircuits()) {
+            console.log(chalk.red(`   • Down:     ${key} (probed again in ${Math.ceil((retryAt - Date.now()) / 1000)}s)`));
+        }
 
         console.log(chalk.bold('\n   Session:'));
-        console.log(`   • Messages: ${history.length} total`);
+        console.log(`   • Messages: ${history.length} total (~${estimateTokens(history)}/${config.contextLength ?? 16384} tokens)`);
         console.log(`     - User: ${userMsgs}, Assistant: ${assistantMsgs}, Tool: ${toolCalls}`);
         console.log(`   • CWD: ${process.cwd()}`);
+        console.log(`   • Tokens: ${formatUsage(agent.getSessionUsage().getTotals())}`);
 
         if (lastUserInput) {
             console.log(chalk.bold('\n   Last Input:'));
@@ -431,10 +1079,45 @@ const replCommands: Record<string, CommandHandler> = {
             console.log(`   • Status: ${lastInputFailed ? chalk.red('Failed') : chalk.green('OK')}`);
         }
     },
+    '/reasoning': (args, { agent }) => {
+        const last = [...agent.getHistory()].reverse().find(m => m.role === 'assistant' && m.reasoning);
+        if (!last?.reasoning) {
+            console.log(chalk.gray('   No reasoning in this session yet (only thinking models such as qwen3 produce it)'));
+            return;
+        }
+        console.log(formatReasoning(last.reasoning, 'full'));
+    },
+    '/usage': (args, { agent, config }) => {
+        const turn = agent.getLastTurnUsage().getTotals();
+        const session = agent.getSessionUsage().getTotals();
+        console.log(chalk.yellow('\n🧮 Token Usage:'));
+        console.log(`   Last turn: ${turn.requests > 0 ? formatUsage(turn) : chalk.gray('none yet')}`);
+        console.log(`   Session:   ${session.requests > 0 ? formatUsage(session) : chalk.gray('none yet')}`);
+        if (config.pricing) {
+            console.log(chalk.gray(`   Pricing:   $${config.pricing.input}/M in, $${config.pricing.output}/M out (${config.model})`));
+        } else {
+            console.log(chalk.gray('\n   💡 Set "pricing": { "input": <usd>, "output": <usd> } (per 1M tokens) on the model for cost estimates'));
+        }
+        if (session.estimatedRequests > 0) {
+            console.log(chalk.gray('   Some counts are estimated because the server did not report usage.'));
+        }
+    },
     '/config': (args, { config }) => {
+        if (args[0] === 'sources') {
+            console.log(chalk.yellow('\n🔧 Configuration sources') + chalk.gray(' (cli > env > project > user > default):'));
+            for (const [key, source] of Object.entries(config.sources ?? {})) {
+                const origin = source.origin ? chalk.gray(` ${source.origin}`) : '';
+                console.log(`   ${key.padEnd(17)} ${describeConfigValue(config, key).padEnd(32)} ${chalk.cyan(source.layer)}${origin}`);
+            }
+            console.log(chalk.gray(`\n   User config:    ${config.configPath ?? '(none)'}`));
+            console.log(chalk.gray(`   Project config: ${config.projectConfigPath ?? '(none)'}`));
+            return;
+        }
+
         // If a URL argument is provided, update the config
-        if (args.length > 0) {
-            const newUrl = args.join(' ').replace(/^["']|["']$/g, '').trim();
+        const { rest, layer } = takeLayerFlag(args);
+        if (rest.length > 0) {
+            const newUrl = rest.join(' ').replace(/^["']|["']$/g, '').trim();
 
             if (!newUrl) {
                 console.log(chalk.red('   ❌ Please provide a valid URL'));
@@ -452,59 +1135,31 @@ const replCommands: Record<string, CommandHandler> = {
             // Update runtime config
             const oldUrl = config.baseURL;
             config.baseURL = newUrl;
-
-            // Update the config file
-            const homeDir = os.homedir();
-            const configPath = path.join(homeDir, '.config', 'opencode', 'opencode.json');
+            const providerId = config.providerId ?? 'colab';
+            if (config.file?.providers[providerId]) config.file.providers[providerId].baseURL = newUrl;
 
             try {
-                if (fs.existsSync(configPath)) {
-                    const rawConfig = fs.readFileSync(configPath, 'utf-8');
-                    const configJson = JSON.parse(rawConfig);
-
-                    // Update the colab provider baseURL
-                    if (configJson.provider?.colab?.options) {
-                        configJson.provider.colab.options.baseURL = newUrl;
-                    } else {
-                        // Create the structure if it doesn't exist
-                        configJson.provider = configJson.provider || {};
-                        configJson.provider.colab = configJson.provider.colab || {};
-                        configJson.provider.colab.options = configJson.provider.colab.options || {};
-                        configJson.provider.colab.options.baseURL = newUrl;
+                // Update the active provider in the chosen layer
+                const previous = config.sources?.baseURL;
+                const saved = saveConfigLayer(config, layer, (file) => {
+                    // The user config needs whole providers; only the project config can override one field
+                    if (layer === 'user' && !file.providers?.[providerId]) {
+                        throw new Error(`provider "${providerId}" is not defined in the user config (it comes from the project config); use /config <url> --project to override its base URL there`);
                     }
-
-                    fs.writeFileSync(configPath, JSON.stringify(configJson, null, 2));
-                    console.log(chalk.green('\n✅ Configuration updated successfully!'));
-                    console.log(chalk.gray(`   Old URL: ${oldUrl}`));
-                    console.log(chalk.cyan(`   New URL: ${newUrl}`));
-                    console.log(chalk.gray(`   Saved to: ${configPath}`));
-                } else {
-                    // Create a new config file
-                    const newConfig = {
-                        "$schema": "https://opencode.ai/config.json",
-                        provider: {
-                            colab: {
-                                npm: "@ai-sdk/openai-compatible",
-                                name: "Colab LLM",
-                                options: { baseURL: newUrl },
-                                models: { "qwen2.5-coder:7b": {} }
-                            }
-                        }
-                    };
-
-                    // Ensure directory exists
-                    const configDir = path.dirname(configPath);
-                    if (!fs.existsSync(configDir)) {
-                        fs.mkdirSync(configDir, { recursive: true });
-                    }
-
-                    fs.writeFileSync(configPath, JSON.stringify(newConfig, null, 2));
-                    console.log(chalk.green('\n✅ New configuration file created!'));
-                    console.log(chalk.cyan(`   URL: ${newUrl}`));
-                    console.log(chalk.gray(`   Saved to: ${configPath}`));
+                    file.providers = file.providers ?? {};
+                    file.providers[providerId] = { ...file.providers[providerId], baseURL: newUrl };
+                });
+                config.sources = { ...config.sources, baseURL: { layer, origin: saved } };
+                if (previous && LAYER_RANK[previous.layer] > LAYER_RANK[layer]) {
+                    console.log(chalk.yellow(`   Note: the ${previous.layer} layer${previous.origin ? ` (${previous.origin})` : ''} sets the base URL too and wins on the next start`));
                 }
+                console.log(chalk.green('\n✅ Configuration updated successfully!'));
+                console.log(chalk.gray(`   Old URL: ${oldUrl}`));
+                console.log(chalk.cyan(`   New URL: ${newUrl}`));
+                console.log(chalk.gray(`   Saved to: ${saved} (provider: ${providerId})`));
             } catch (err: any) {
                 console.log(chalk.red(`   ❌ Failed to update config file: ${err.message}`));
+                if (err instanceof ConfigError) for (const line of formatIssues(err.issues)) console.log(chalk.red(`      ${line}`));
                 console.log(chalk.yellow('   Note: Runtime config was updated, but file save failed.'));
             }
             return;
@@ -512,9 +1167,13 @@ const replCommands: Record<string, CommandHandler> = {
 
         // No arguments - show current config
         console.log(chalk.yellow('\n🔧 Current Configuration:'));
+        if (config.profile) console.log(`   Profile:  ${config.profile}`);
+        console.log(`   Provider: ${config.providerId ? `${config.providerId} ` : ''}(${config.provider ?? 'openai'})`);
         console.log(`   Base URL: ${config.baseURL}`);
         console.log(`   Model:    ${config.model}`);
-        console.log(chalk.gray('\n   💡 Tip: Use /config <new_url> to update the base URL'));
+        if (config.configPath) console.log(chalk.gray(`   User:     ${config.configPath}`));
+        if (config.projectConfigPath) console.log(chalk.gray(`   Project:  ${config.projectConfigPath}`));
+        console.log(chalk.gray('\n   💡 Tip: Use /config <new_url> [--project] to update the base URL, /config sources to see where each value comes from'));
     },
     '/project': (args, { agent, options }) => {
         const ctx = gatherProjectContext();
@@ -594,7 +1253,7 @@ const replCommands: Record<string, CommandHandler> = {
         }
     },
     // === SUB-AGENTS ===
-    '/agent': async (args, { config, options }) => {
+    '/agent': async (args, { agent, llm, options, config, signal }) => {
         if (args.length === 0) {
             console.log(formatAgentList());
             return;
@@ -618,16 +1277,37 @@ const replCommands: Record<string, CommandHandler> = {
 
         console.log(chalk.yellow(`\n${subAgent.displayName} starting...`));
 
-        const llm = new LLMClient(config);
-        const tools = new ToolExecutor({ autoApproveCommands: options.autoApprove, quiet: true });
+        const tools = new ToolExecutor({
+            autoApproveCommands: options.autoApprove,
+            allowlistCommands: config.allowCommands,
+            quiet: true,
+            permissions: config.permissions,
+            persistRule: (section, pattern, action) => saveProjectRule(config, section, pattern, action),
+            commandTimeout: config.commandTimeout,
+            outputLimit: config.commandOutputLimit,
+            processes: agent.getProcesses(),
+            // The sub-agent's edits are a turn of their own for /undo
+            checkpoints: agent.getCheckpoints(),
+            allowedRoots: options.allowedRoots,
+            protectedPaths: config.protectedPaths
+        });
+        agent.getCheckpoints().beginTurn(`/agent ${agentName} ${task}`);
+        const usage = new UsageTracker();
 
         try {
             const result = await runSubAgent(subAgent, task, llm, tools, {
-                onProgress: (msg) => console.log(chalk.gray(`   ${msg}`))
+                onProgress: (msg) => console.log(chalk.gray(`   ${msg}`)),
+                signal,
+                onUsage: (u) => usage.add(u)
             });
             console.log(chalk.green('\n' + subAgent.displayName + ' Result:'));
             console.log(await marked(result));
+            console.log(chalk.gray(`   Tokens: ${formatUsage(usage.getTotals())}`));
         } catch (e: any) {
+            if (isAbortError(e)) {
+                console.log(chalk.yellow(`   ⏹  ${subAgent.displayName} cancelled.`));
+                return;
+            }
             console.log(chalk.red(`   ❌ Agent error: ${e.message}`));
         }
     },
@@ -668,16 +1348,29 @@ const replCommands: Record<string, CommandHandler> = {
         console.log(chalk.yellow('\n❓ Available REPL Commands:'));
         console.log(chalk.bold('\n   Basic:'));
         console.log('   /add <file>    - Add file content to context');
+        console.log('   /image [path|clear] - Attach a PNG/JPEG image to your next message');
         console.log('   /clear         - Clear conversation history');
         console.log('   /save [path]   - Save session to JSON file');
         console.log('   /load <path>   - Load a saved session');
         console.log('   /retry         - Retry the last failed request');
+        console.log('   /compact       - Summarize older turns to free up context');
+        console.log('   /plan <task>   - Propose a plan for approval before making changes');
+        console.log('   /undo          - Restore files changed in the last agent turn');
+        console.log('   /redo          - Reapply the last undone turn');
+        console.log('   /checkpoints   - List turns and the files they changed');
+        console.log('   /ps [stop <id>] - List or stop background processes started by the agent');
+        console.log('   /verify [cmd|off] - View or set the command run after file changes');
         console.log(chalk.bold('\n   Configuration:'));
-        console.log('   /config [url]  - View config or update base URL');
-        console.log('   /model [name]  - View or switch model');
+        console.log('   /config [url|sources] - View config, update base URL or show where values come from');
+        console.log('   /model [name] [--project] - View or switch model (saved to user or project config)');
+        console.log('   /profile [name] - List profiles or switch to one');
         console.log('   /timeout [ms]  - View or set request timeout');
+        console.log('   /probe [context] - Measure latency, tool calling, streaming and context length of the model');
+        console.log('   /set [key] [value] - View or set temperature, top_p, max_tokens, stop, seed, tool_choice');
         console.log('   /ping          - Test server connectivity');
         console.log('   /status        - Show connection and session status');
+        console.log('   /usage         - Show token usage and cost estimates');
+        console.log('   /reasoning     - Show the full reasoning behind the last answer');
         console.log(chalk.bold('\n   Context & Memory:'));
         console.log('   /context       - Index codebase (files, symbols, git)');
         console.log('   /index         - Force re-index codebase');
@@ -697,8 +1390,9 @@ const replCommands: Record<string, CommandHandler> = {
 async function startRepl(
     config: ReturnType<typeof loadConfig>,
     agent: Agent,
+    llm: LLMClient,
     showBanner: boolean,
-    opts?: { stream?: boolean; debug?: boolean; historyPath?: string },
+    opts?: { stream?: boolean; debug?: boolean; historyPath?: string; plan?: boolean },
     cliOptions?: CliOptions,
     projectSummary?: string
 ) {
@@ -714,7 +1408,7 @@ async function startRepl(
         prompt: renderInputPrompt()
     });
 
-    const context: ReplContext = { agent, config, options: cliOptions ?? {} as CliOptions };
+    const context: ReplContext = { agent, llm, config, options: cliOptions ?? {} as CliOptions };
 
     const historyPath = opts?.historyPath ?? path.join(os.homedir(), '.opencode_history');
     try {
@@ -725,10 +1419,33 @@ async function startRepl(
         }
     } catch (_) { /* ignore */ }
 
+    // Ctrl+C cancels the running turn; at an idle prompt it exits as before
+    let activeTurn: AbortController | null = null;
+    // Lines entered while a turn runs wait for it, so that Ctrl+C always cancels the turn that runs
+    const queuedLines: string[] = [];
+    let busy = false;
+    const cancelActiveTurn = () => {
+        if (activeTurn && !activeTurn.signal.aborted) {
+            activeTurn.abort();
+            queuedLines.length = 0;
+            return true;
+        }
+        return false;
+    };
+    rl.on('SIGINT', () => {
+        if (!cancelActiveTurn()) rl.close();
+    });
+    // While a spinner is active it discards stdin and re-raises Ctrl+C as a process signal
+    process.on('SIGINT', () => {
+        if (!cancelActiveTurn()) rl.close();
+    });
+
     rl.prompt();
 
-    rl.on('line', async (line) => {
+    const handleLine = async (line: string) => {
         const input = line.trim();
+        activeTurn = new AbortController();
+        const signal = activeTurn.signal;
 
         if (input.toLowerCase() === 'exit' || input.toLowerCase() === 'quit') {
             console.log(renderGoodbye());
@@ -740,33 +1457,56 @@ async function startRepl(
             const handler = replCommands[cmd.toLowerCase()];
 
             if (handler) {
-                await handler(args, context);
+                await handler(args, { ...context, signal });
             } else {
                 console.log(chalk.red(`   ❌ Unknown command: ${cmd}`));
             }
         } else if (input) {
             // Track input for /retry
             lastUserInput = input;
+            lastUserImages = pendingImages.map(image => image.part);
+            pendingImages = [];
             lastInputFailed = false;
 
             try {
-                console.log(renderResponseSeparator() + renderAssistantHeader());
-                const chatOpts = opts?.stream ? { stream: true, onChunk: (c: string) => process.stdout.write(c), debug: opts.debug } : opts?.debug ? { debug: true } : undefined;
-                const response = await agent.chat(input, chatOpts);
-                if (response) {
-                    if (!opts?.stream) process.stdout.write(await marked(response));
-                    process.stdout.write('\n');
+                const chatOpts: ChatOptions = { stream: opts?.stream, debug: opts?.debug, signal, images: lastUserImages };
+                if (opts?.plan) {
+                    await runPlanFlow(agent, input, chatOpts);
+                } else {
+                    console.log(renderResponseSeparator() + renderAssistantHeader());
+                    await agent.chat(input, chatOpts);
                 }
                 if (opts?.historyPath && getLogLevel() !== 'quiet') {
                     try { fs.appendFileSync(opts.historyPath, input + '\n'); } catch (_) { /* ignore */ }
                 }
             } catch (error: any) {
                 lastInputFailed = true;
-                console.error(chalk.red(`Error: ${error.message}`));
-                console.log(chalk.gray('   💡 Use /retry to try again'));
+                if (isAbortError(error)) {
+                    agent.discardPlan();
+                    console.log(chalk.yellow('\n   ⏹  Cancelled. Use /retry to run it again.'));
+                } else {
+                    console.error(chalk.red(`Error: ${error.message}`));
+                    console.log(chalk.gray('   💡 Use /retry to try again'));
+                }
             }
         }
 
+        activeTurn = null;
+    };
+
+    rl.on('line', async (line) => {
+        if (busy) {
+            queuedLines.push(line);
+            console.log(chalk.gray('   Queued until the current turn is done (Ctrl+C cancels the turn and the queue)'));
+            return;
+        }
+        busy = true;
+        try {
+            await handleLine(line);
+            while (queuedLines.length > 0) await handleLine(queuedLines.shift()!);
+        } finally {
+            busy = false;
+        }
         rl.prompt();
     }).on('close', () => {
         console.log(renderGoodbye());
@@ -789,29 +1529,109 @@ async function main() {
     }
 
     // 1. Load Config (with optional override)
-    const config = loadConfig(options.configPath);
+    const interactive = !!process.stdin.isTTY && !(action === 'run' && (options.outputFormat ?? 'text') !== 'text');
+    let config: ReturnType<typeof loadConfig>;
+    try {
+        config = loadConfig({
+            configPath: options.configPath,
+            profile: options.profile,
+            verifyCommand: options.verifyCommand,
+            noVerify: options.noVerify,
+            allowCommands: options.allowCommands,
+            pluginDir: options.pluginDir,
+            reasoningDisplay: options.reasoningDisplay,
+            trustProject: (projectPath, settings) => confirmProjectTrust(projectPath, settings, options, interactive)
+        });
+    } catch (e: any) {
+        if (!(e instanceof ConfigError)) throw e;
+        console.error(chalk.red(`Error loading config${e.file ? ` from ${e.file}` : ''}:`));
+        for (const line of formatIssues(e.issues)) console.error(chalk.red(`   ${line}`));
+        console.error(`You can also configure via environment variables:
+- OPENCODE_PROVIDER (openai, ollama or anthropic)
+- OPENCODE_BASE_URL
+- OPENCODE_MODEL
+- OPENCODE_API_KEY (or OPENAI_API_KEY)
+- OPENCODE_PROFILE`);
+        process.exit(EXIT_CODES.ERROR);
+    }
+
+    if (action === 'doctor') {
+        process.exitCode = await runDoctor(config, options.measureContext ?? false);
+        return;
+    }
+
+    // Settings the config leaves open come from cached /probe results (a replay sends what was recorded)
+    if (!options.llmReplay) {
+        const probeChanges = applyCachedProbes(config);
+        if (options.showBanner && action !== 'run') reportProbeChanges(config, probeChanges);
+        if (options.stream && getCachedProbe(config.baseURL, config.model)?.streaming === false) {
+            options.stream = false;
+            if (action !== 'run') console.log(chalk.gray('   The server does not stream (see /probe): --stream is off'));
+        }
+    }
 
     // 2. Load plugins
-    const defaultPluginDir = path.join(os.homedir(), '.config', 'opencode', 'plugins');
-    const pluginDir = options.pluginDir ?? defaultPluginDir;
-    const { definitions: pluginDefs, handlers: pluginHandlers } = loadPlugins(pluginDir);
-    const toolsDefinition = pluginDefs.length > 0 ? [...TOOLS_DEFINITION, ...pluginDefs] : [];
+    const { definitions: pluginDefs, handlers: pluginHandlers } = loadPlugins(config.pluginDir!);
+    const toolsDefinition = [...TOOLS_DEFINITION, ...pluginDefs];
 
     if (options.verbose) setLogLevel('verbose');
     if (options.quiet) setLogLevel('quiet');
     if (options.debug) setLogLevel('debug');
     if (options.auditLogPath) setAuditLog(path.resolve(options.auditLogPath));
 
+    // JSON output keeps stdout machine-readable: no renderer, no prompts
+    const machineOutput = action === 'run' && (options.outputFormat ?? 'text') !== 'text';
+    if (machineOutput && options.plan && !options.autoApprove) {
+        console.error(chalk.red(`   ❌ --plan with --output-format ${options.outputFormat} needs --yes (the plan cannot be approved interactively)`));
+        process.exit(EXIT_CODES.ERROR);
+    }
+
     // 3. Initialize Components
     const tools = new ToolExecutor({
         autoApproveCommands: options.autoApprove ?? false,
         pluginHandlers,
         dryRun: options.dryRun ?? false,
-        allowlistCommands: options.allowCommands,
-        quiet: options.quiet ?? false
+        allowlistCommands: config.allowCommands,
+        quiet: (options.quiet || machineOutput) ?? false,
+        permissions: config.permissions,
+        // Without --yes, commands are denied rather than prompted for (and so are "ask" rules)
+        approve: machineOutput ? () => false : undefined,
+        persistRule: (section, pattern, action) => saveProjectRule(config, section, pattern, action),
+        commandTimeout: config.commandTimeout,
+        outputLimit: config.commandOutputLimit,
+        allowedRoots: options.allowedRoots,
+        protectedPaths: config.protectedPaths,
+        // --yes does not cover protected paths
+        approvePath: machineOutput ? () => false : undefined
     });
-    const llm = new LLMClient(config);
-    const agent = new Agent(llm, tools, { toolsDefinition });
+    // Background processes do not outlive the CLI
+    process.on('exit', () => tools.getProcesses().stopAll());
+    const llmOptions: LLMClientOptions = {};
+    if (options.llmRecord && options.llmReplay) {
+        console.error(chalk.red('   ❌ --llm-record and --llm-replay cannot be combined'));
+        process.exit(EXIT_CODES.ERROR);
+    }
+    try {
+        if (options.llmRecord) llmOptions.record = new CassetteRecorder(options.llmRecord);
+        if (options.llmReplay) llmOptions.replay = new CassettePlayer(options.llmReplay, options.llmReplayMatch);
+    } catch (e: any) {
+        console.error(chalk.red(`   ❌ ${e.message}`));
+        process.exit(EXIT_CODES.ERROR);
+    }
+    if (!machineOutput && options.showBanner) {
+        if (llmOptions.record) console.log(chalk.gray(`   Recording LLM traffic to ${llmOptions.record.filePath}`));
+        if (llmOptions.replay) console.log(chalk.gray(`   Replaying LLM traffic from ${llmOptions.replay.filePath} (${llmOptions.replay.remaining} responses)`));
+    }
+    const llm = new LLMClient(config, llmOptions);
+    const agent = new Agent(llm, tools, {
+        toolsDefinition,
+        contextLength: config.contextLength,
+        compactThreshold: config.compactThreshold,
+        verify: config.verify
+    });
+    if (!machineOutput) {
+        attachTerminalRenderer(agent, { stream: options.stream, debug: options.debug, quiet: options.quiet, reasoning: config.reasoning?.display });
+    }
 
     // 4. Load session if requested
     if (options.sessionPath) {
@@ -838,31 +1658,73 @@ async function main() {
 
     // 6. Run or REPL
     if (action === 'run' && options.runPrompt) {
-        if (!options.showBanner) {
+        const format = options.outputFormat ?? 'text';
+        if (!options.showBanner || machineOutput) {
             // Quiet mode: minimal output
         } else {
             console.log(renderTitleBar());
             console.log(chalk.gray(`\n  Prompt: ${options.runPrompt}\n`));
         }
+        const writeLine = (line: string) => process.stdout.write(line + '\n');
+        if (format === 'ndjson') attachNdjsonWriter(agent, writeLine);
+        const recorder = new RunRecorder(agent, options.runPrompt);
+
+        const images: ImagePart[] = [];
+        if (options.images && !llm.acceptsImages()) {
+            console.error(chalk.red(`   ❌ ${llm.getChain()[0].label} does not accept images (--image)`));
+            process.exit(EXIT_CODES.ERROR);
+        }
+        for (const imagePath of options.images ?? []) {
+            try {
+                const image = loadImage(imagePath);
+                if (image.warning) console.error(chalk.yellow(`   ⚠️  ${imagePath}: ${image.warning}`));
+                images.push(image.part);
+            } catch (e: any) {
+                console.error(chalk.red(`   ❌ ${e.message}`));
+                process.exit(EXIT_CODES.ERROR);
+            }
+        }
+
+        let answer: string | void = undefined;
+        let runError: Error | undefined;
         try {
-            const chatOpts = options.stream ? { stream: true, onChunk: (c: string) => process.stdout.write(c), debug: options.debug } : options.debug ? { debug: true } : undefined;
-            const response = await agent.chat(options.runPrompt, chatOpts);
-            if (response) {
-                if (options.stream) process.stdout.write('\n');
-                else console.log(await marked(response));
+            const chatOpts: ChatOptions = { stream: options.stream, debug: options.debug, images };
+            if (options.plan) {
+                // Plan output is human-readable, keep it off stdout in JSON modes
+                answer = machineOutput
+                    ? await agent.executePlan(await agent.plan(options.runPrompt, { debug: options.debug, images }), chatOpts)
+                    : await runPlanFlow(agent, options.runPrompt, chatOpts, options.autoApprove);
+            } else {
+                answer = await agent.chat(options.runPrompt, chatOpts);
             }
         } catch (error: any) {
-            console.error(chalk.red(`Error: ${error.message}`));
-            process.exit(1);
+            runError = error;
+        }
+
+        const report = recorder.finish(answer, runError);
+        if (format === 'json') {
+            writeLine(JSON.stringify(report, null, 2));
+        } else if (format === 'ndjson') {
+            writeLine(JSON.stringify({ type: 'result', timestamp: Date.now(), ...report }));
+        } else if (runError) {
+            console.error(chalk.red(`Error: ${runError.message}`));
+        } else if (!options.quiet) {
+            console.log(chalk.gray(`  Tokens: ${formatUsage(report.usage)}`));
         }
+        process.exitCode = report.exitCode;
         return;
     }
 
     // 7. Start REPL
-    await startRepl(config, agent, options.showBanner, {
+    for (const imagePath of options.images ?? []) {
+        const image = attachImage(imagePath, llm);
+        if (image) pendingImages.push(image);
+    }
+    await startRepl(config, agent, llm, options.showBanner, {
         stream: options.stream,
         debug: options.debug,
-        historyPath: path.join(os.homedir(), '.opencode_history')
+        historyPath: path.join(os.homedir(), '.opencode_history'),
+        plan: options.plan
     }, options, projectSummary);
 }
 
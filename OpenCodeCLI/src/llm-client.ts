@@ -1,161 +1,449 @@
 import fetch from 'node-fetch';
-import { OpenCodeConfig } from './config';
+import { OpenCodeConfig, ModelTarget, activeModelTarget } from './config';
+import { SamplingDefaults } from './config-schema';
 import { ToolCall, TOOLS_DEFINITION } from './tools';
 import { logDebug } from './logger';
+import { extractToolCalls, getToolNames, toPromptToolMessages } from './tool-parsing';
+import { ModelPricing, TokenUsage, UsageTracker, estimateCost } from './usage';
+import { estimateTokens } from './compaction';
+import { HttpRequest, ProviderAdapter, ProviderResponse, ReportedUsage, StreamParser, getProviderAdapter } from './providers';
+import { TypedEventEmitter, LLMClientEvents } from './events';
+import { CircuitBreaker } from './circuit-breaker';
+import { auditEvent } from './audit';
+import { CassettePlayer, CassetteRecorder } from './cassette';
+import { LLMError, RateLimitError, ImagesUnsupportedError, MAX_RETRY_AFTER, backoffDelay, classifyFetchError, classifyHttpError, createAbortError } from './llm-errors';
+import { RateLimiter, sleep } from './rate-limiter';
+import { ThinkTagStream, inlineReasoning, separateReasoning } from './reasoning';
+import { hasImages, stripImages } from './images';
+
+export { createAbortError, isAbortError } from './llm-errors';
+
+export interface TextPart {
+    type: 'text';
+    text: string;
+}
+
+/** An image as a base64 data URL (data:image/png;base64,...), see images.ts */
+export interface ImagePart {
+    type: 'image_url';
+    image_url: { url: string };
+}
+
+/** OpenAI-style content parts, for user messages with images */
+export type ContentPart = TextPart | ImagePart;
 
 export interface Message {
     role: 'user' | 'assistant' | 'system' | 'tool';
-    content: string | null;
+    content: string | ContentPart[] | null;
     tool_calls?: ToolCall[];
     tool_call_id?: string;
     name?: string;
+    /** Reasoning of a thinking model, kept apart from the answer (see reasoning.ts) */
+    reasoning?: string;
+}
+
+/**
+ * Timeouts, network errors, 429 and 5xx responses: worth retrying or moving
+ * to a fallback model. A Retry-After longer than MAX_RETRY_AFTER is not waited for.
+ */
+function isRetryable(error: unknown): error is LLMError {
+    return error instanceof LLMError && error.retryable && (error.retryAfterMs ?? 0) <= MAX_RETRY_AFTER;
+}
+
+export interface LLMChatOptions {
+    stream?: boolean;
+    onChunk?: (chunk: string) => void;
+    /** Streamed reasoning tokens (only with stream: true) */
+    onReasoning?: (chunk: string) => void;
+    tools?: object[];
+    debug?: boolean;
+    signal?: AbortSignal;
+    /** Called with the token usage of the request once it completes */
+    onUsage?: (usage: TokenUsage) => void;
+    /** What the request is for, matched against config.routing (default 'main') */
+    use?: string;
+    /** Request parameters over the model's and the session's (e.g. a sub-agent's) */
+    sampling?: SamplingDefaults;
 }
 
-export class LLMClient {
+export interface LLMClientOptions {
+    /** Save every request/response pair to this cassette */
+    record?: CassetteRecorder;
+    /** Serve responses from this cassette instead of the network */
+    replay?: CassettePlayer;
+    /** Share request limits with other clients (default: one built from config.rateLimit) */
+    limiter?: RateLimiter;
+}
+
+export class LLMClient extends TypedEventEmitter<LLMClientEvents> {
     private config: OpenCodeConfig;
+    private sessionUsage = new UsageTracker();
+    private breaker: CircuitBreaker;
+    /** Label of the model that last answered, per use */
+    private served = new Map<string, string>();
+    private recorder?: CassetteRecorder;
+    private player?: CassettePlayer;
+    private limiter: RateLimiter;
+    /** Models that rejected images this session */
+    private textOnly = new Set<string>();
 
-    constructor(config: OpenCodeConfig) {
+    constructor(config: OpenCodeConfig, options: LLMClientOptions = {}) {
+        super();
         this.config = config;
+        this.recorder = options.record;
+        this.player = options.replay;
+        this.limiter = options.limiter ?? new RateLimiter(config.rateLimit);
+        this.breaker = new CircuitBreaker(config.fallbackCooldown ?? 60000);
     }
 
-    async chat(messages: Message[], options?: { stream?: boolean; onChunk?: (chunk: string) => void; tools?: object[]; debug?: boolean }): Promise<Message> {
-        const url = `${this.config.baseURL}/chat/completions`;
+    /**
+     * Usage of every request made through this client
+     */
+    getSessionUsage(): UsageTracker {
+        return this.sessionUsage;
+    }
 
-        const cleanMessages = messages.map(m => ({
-            role: m.role,
-            content: m.content,
-            tool_calls: m.tool_calls,
-            tool_call_id: m.tool_call_id,
-            name: m.name
-        }));
+    /**
+     * The adapter for the configured provider API (looked up per request so
+     * that /model and /config changes apply immediately)
+     */
+    getProvider(): ProviderAdapter {
+        return getProviderAdapter(this.config.provider);
+    }
 
-        const stream = options?.stream ?? false;
-        const tools = options?.tools ?? TOOLS_DEFINITION;
-        const body = {
-            model: this.config.model,
-            messages: cleanMessages,
-            tools,
-            stream
-        };
+    /**
+     * The models a request for `use` tries, in order: the routed (or active)
+     * model, then the fallback chain
+     */
+    getChain(use: string = 'main'): ModelTarget[] {
+        const routing = this.config.routing ?? {};
+        const head = routing[use] ?? routing[use.split(':')[0]] ?? activeModelTarget(this.config);
+        return [head, ...(this.config.fallback ?? []).filter(t => t.label !== head.label)];
+    }
 
-        if (options?.debug) {
-            logDebug('Request', url, JSON.stringify(body, null, 2).slice(0, 2000));
+    /**
+     * Model that answered the last request for `use`
+     */
+    getServedModel(use: string = 'main'): string | undefined {
+        return this.served.get(use);
+    }
+
+    /**
+     * Models that failed and are skipped until retryAt
+     */
+    getOpenCircuits(): { key: string; retryAt: number }[] {
+        return this.breaker.getOpen().filter(c => c.retryAt > Date.now());
+    }
+
+    /**
+     * Whether the model for `use` takes images: not if its config says
+     * vision: false or it already rejected them
+     */
+    acceptsImages(use: string = 'main'): boolean {
+        const target = this.getChain(use)[0];
+        return target.vision !== false && !this.textOnly.has(target.label);
+    }
+
+    private reportSwitch(switched: LLMClientEvents['model:switch']) {
+        logDebug(`Model switch (${switched.use}): ${switched.from} -> ${switched.to} (${switched.reason})`);
+        auditEvent('model:switch', switched);
+        this.emit('model:switch', switched);
+    }
+
+    /**
+     * Build usage from what the server reported, or estimate it
+     */
+    private toUsage(serverUsage: ReportedUsage | undefined, requestMessages: Message[], tools: object[], reply: Message, pricing?: ModelPricing): TokenUsage {
+        let promptTokens: number;
+        let completionTokens: number;
+        let estimated = false;
+        if (serverUsage) {
+            promptTokens = serverUsage.promptTokens;
+            completionTokens = serverUsage.completionTokens;
+        } else {
+            estimated = true;
+            promptTokens = estimateTokens(requestMessages) + (tools.length > 0 ? Math.ceil(JSON.stringify(tools).length / 4) : 0);
+            completionTokens = estimateTokens([reply]) + Math.ceil((reply.reasoning?.length ?? 0) / 4);
         }
+        return { promptTokens, completionTokens, estimated, cost: estimateCost(promptTokens, completionTokens, pricing) };
+    }
 
-        const timeout = this.config.timeout ?? 60000;
+    private recordUsage(usage: TokenUsage, options?: LLMChatOptions) {
+        this.sessionUsage.add(usage);
+        options?.onUsage?.(usage);
+        logDebug(`Usage: ${usage.promptTokens} in / ${usage.completionTokens} out${usage.estimated ? ' (estimated)' : ''}`);
+    }
+
+    async chat(messages: Message[], options?: LLMChatOptions): Promise<Message> {
+        const use = options?.use ?? 'main';
+        const chain = this.getChain(use);
+        this.breaker.setCooldown(this.config.fallbackCooldown ?? 60000);
+        // Skip models whose circuit is open; if all of them are, try them all anyway
+        const available = chain.filter(t => !this.breaker.isOpen(t.label));
+        const candidates = available.length > 0 ? available : chain;
         const maxRetries = this.config.retries ?? 3;
 
-        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        let lastError: any;
+        for (let i = 0; i < candidates.length; i++) {
+            const target = candidates[i];
+            // A model probed after its cooldown gets one attempt, not the full retries
+            const retries = this.breaker.isProbing(target.label) ? 0 : maxRetries;
             try {
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), timeout);
+                const reply = await this.send(target, messages, options, retries);
+                this.breaker.recordSuccess(target.label);
+                const previous = this.served.get(use);
+                if (previous && previous !== target.label && chain.findIndex(t => t.label === previous) > chain.indexOf(target)) {
+                    this.reportSwitch({ use, from: previous, to: target.label, reason: 'recovered' });
+                }
+                this.served.set(use, target.label);
+                return reply;
+            } catch (error: any) {
+                // Reported by the caller (the agent's turn:error)
+                if (options?.signal?.aborted || chain.length === 1 || !isRetryable(error)) throw error;
+                lastError = error;
+                this.breaker.recordFailure(target.label);
+                const next = candidates[i + 1];
+                if (next) {
+                    this.reportSwitch({ use, from: target.label, to: next.label, reason: 'failure', error: error.message });
+                    this.served.set(use, next.label);
+                }
+            }
+        }
 
-                const headers: Record<string, string> = {
-                    'Content-Type': 'application/json'
-                };
+        // Each switch was reported as llm:switch; the caller reports the last failure
+        throw lastError;
+    }
 
-                if (this.config.apiKey) {
-                    headers['Authorization'] = `Bearer ${this.config.apiKey}`;
-                }
+    /**
+     * Send one request to one model, retrying transient failures
+     */
+    private async send(target: ModelTarget, messages: Message[], options: LLMChatOptions | undefined, maxRetries: number): Promise<Message> {
+        const provider = getProviderAdapter(target.provider);
+        const stream = options?.stream ?? false;
+        const tools = options?.tools ?? TOOLS_DEFINITION;
+        const promptTools = target.toolCalling === 'prompt' && tools.length > 0;
+        // Reasoning is not sent back unless configured (adapters ignore the field)
+        const withReasoning = this.config.reasoning?.keepInHistory ? inlineReasoning(messages) : messages;
+        // Fallback and routed models may lack vision even when the main model has it
+        const visible = hasImages(withReasoning) && (target.vision === false || this.textOnly.has(target.label))
+            ? stripImages(withReasoning, `[image omitted: ${target.label} does not accept images]`)
+            : withReasoning;
+        const outgoing = promptTools ? toPromptToolMessages(visible, tools) : visible;
 
-                const response = await fetch(url, {
-                    method: 'POST',
-                    headers,
-                    body: JSON.stringify(body),
-                    signal: controller.signal as any
-                });
+        const request = provider.buildChatRequest({
+            model: target.model,
+            messages: outgoing,
+            tools: promptTools ? [] : tools,
+            stream,
+            contextLength: target.contextLength,
+            sampling: { ...target.sampling, ...this.config.samplingOverrides, ...options?.sampling }
+        }, { baseURL: target.baseURL, apiKey: target.apiKey });
+
+        if (options?.debug) {
+            logDebug('Request', provider.kind, request.url, JSON.stringify(request.body, null, 2).slice(0, 2000));
+        }
+
+        const timeout = this.config.timeout ?? 60000;
 
+        const signal = options?.signal;
+
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            if (signal?.aborted) throw createAbortError('Cancelled by user');
+
+            // Shared with sub-agents and compaction
+            const release = await this.limiter.acquire(signal);
+            const controller = new AbortController();
+            let timedOut = false;
+            let timeoutId: NodeJS.Timeout | undefined;
+            // The timeout covers the wait for the headers, then each wait for more of the body
+            const restartTimeout = () => {
                 clearTimeout(timeoutId);
+                timeoutId = setTimeout(() => {
+                    timedOut = true;
+                    controller.abort();
+                }, timeout);
+            };
+            restartTimeout();
+            // Text already shown cannot be taken back, so a request that failed after it is not sent again
+            let emitted = false;
+            const onAbort = () => controller.abort();
+            signal?.addEventListener('abort', onAbort);
+
+            try {
+                const response = await this.post(request, controller.signal);
+                restartTimeout();
 
                 if (!response.ok) {
                     const text = await response.text();
-                    throw new Error(`API Error ${response.status}: ${text}`);
+                    const retryAfter: string | null = response.headers.get('retry-after');
+                    this.recorder?.record(request.url, request.body, {
+                        status: response.status,
+                        body: text,
+                        ...(retryAfter ? { headers: { 'retry-after': retryAfter } } : {})
+                    });
+                    const error = classifyHttpError(response.status, text, retryAfter, hasImages(visible));
+                    if (error instanceof ImagesUnsupportedError) this.textOnly.add(target.label);
+                    throw error;
                 }
 
-                if (stream && options?.onChunk && response.body) {
-                    return await this.parseStreamResponse(response, options.onChunk);
+                if (stream && response.body) {
+                    const onReasoning = (text: string) => {
+                        emitted = true;
+                        options?.onReasoning?.(text);
+                    };
+                    const onChunk = (text: string) => {
+                        emitted = true;
+                        options?.onChunk?.(text);
+                    };
+                    const thinkTags = new ThinkTagStream(onChunk, onReasoning);
+                    const parser = provider.createStreamParser(text => thinkTags.push(text), onReasoning);
+                    const chunks: string[] = [];
+                    let parsed: ProviderResponse;
+                    try {
+                        parsed = await this.parseStreamResponse(response, parser, signal, chunk => {
+                            restartTimeout();
+                            if (this.recorder) chunks.push(chunk);
+                        });
+                        thinkTags.flush();
+                    } finally {
+                        // Keep broken streams too: they are what a bug report needs
+                        if (!signal?.aborted) this.recorder?.record(request.url, request.body, { status: response.status, chunks });
+                    }
+                    const { message: streamed, usage } = parsed;
+                    this.recordUsage(this.toUsage(usage, outgoing, tools, streamed, target.pricing), options);
+                    return this.withTextToolCalls(separateReasoning(streamed), tools);
                 }
 
-                const data: any = await response.json();
+                const text = await response.text();
+                this.recorder?.record(request.url, request.body, { status: response.status, body: text });
+                const data: any = JSON.parse(text);
                 if (options?.debug) {
                     logDebug('Response', JSON.stringify(data).slice(0, 1000));
                 }
-                const choice = data.choices[0];
+                const { message, usage } = provider.parseResponse(data);
+                this.recordUsage(this.toUsage(usage, outgoing, tools, message, target.pricing), options);
 
-                return {
-                    role: 'assistant',
-                    content: choice.message.content,
-                    tool_calls: choice.message.tool_calls
-                };
+                return this.withTextToolCalls(separateReasoning(message), tools);
 
-            } catch (error: any) {
-                const isRetryable = error.name === 'AbortError' || (error.message && (
-                    error.message.includes('ECONNRESET') ||
-                    error.message.includes('ETIMEDOUT') ||
-                    error.message.includes('fetch failed') ||
-                    error.message.startsWith('API Error 5')
-                ));
-                if (attempt < maxRetries && isRetryable) {
-                    const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-                    if (options?.debug) logDebug(`Retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
-                    await new Promise(r => setTimeout(r, delay));
+            } catch (raw: any) {
+                clearTimeout(timeoutId);
+                if (signal?.aborted) throw createAbortError('Cancelled by user');
+                const error = classifyFetchError(raw, timeout, timedOut);
+                if (emitted && error instanceof LLMError) {
+                    // Neither retried nor sent to a fallback model, which would repeat the answer
+                    throw new LLMError(error.kind, `${error.message} (after part of the answer was streamed)`, { status: error.status });
+                }
+
+                // Other requests (sub-agents) should not run into the same limit
+                if (error instanceof RateLimitError && error.retryAfterMs !== undefined && !this.player) {
+                    this.limiter.pauseUntil(Date.now() + Math.min(error.retryAfterMs, MAX_RETRY_AFTER));
+                }
+                if (attempt < maxRetries && isRetryable(error)) {
+                    // No need to wait for a server when replaying
+                    const delayMs = this.player ? 0 : backoffDelay(attempt, error);
+                    logDebug(`Retry ${attempt + 1}/${maxRetries} of ${target.label} in ${delayMs}ms after ${error.kind} error: ${error.message}`);
+                    this.emit('retry', { model: target.label, attempt: attempt + 1, maxRetries, delayMs, kind: error.kind, error: error.message });
+                    release();
+                    await sleep(delayMs, signal);
                 } else {
-                    console.error('LLM Request failed:', error.message);
                     throw error;
                 }
+            } finally {
+                clearTimeout(timeoutId);
+                release();
+                signal?.removeEventListener('abort', onAbort);
             }
         }
 
         throw new Error('LLM request failed after retries');
     }
 
-    private async parseStreamResponse(response: any, onChunk: (chunk: string) => void): Promise<Message> {
+    /**
+     * POST the request, or serve it from the replay cassette
+     */
+    private async post(request: HttpRequest, signal: AbortSignal): Promise<any> {
+        if (this.player) return this.player.replay(request.url, request.body);
+        try {
+            return await fetch(request.url, {
+                method: 'POST',
+                headers: request.headers,
+                body: JSON.stringify(request.body),
+                signal: signal as any
+            });
+        } catch (error: any) {
+            // Timeouts and cancellations are not the server's answer
+            if (!signal.aborted) {
+                const classified = classifyFetchError(error, 0, false);
+                this.recorder?.record(request.url, request.body, {
+                    status: 0,
+                    error: error.message,
+                    ...(classified instanceof LLMError ? { errorKind: classified.kind } : {})
+                });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Models without native function calling often write the call into the
+     * content. Turn those into real tool calls.
+     */
+    private withTextToolCalls(message: Message, tools: object[]): Message {
+        if (tools.length === 0 || typeof message.content !== 'string' || !message.content || (message.tool_calls && message.tool_calls.length > 0)) {
+            return message;
+        }
+        const extracted = extractToolCalls(message.content, getToolNames(tools));
+        if (extracted.toolCalls.length === 0) return message;
+        logDebug(`Extracted ${extracted.toolCalls.length} tool call(s) from text content`);
+        return { ...message, content: extracted.content, tool_calls: extracted.toolCalls };
+    }
+
+    /**
+     * Split the response body into lines and feed them to the provider's parser
+     */
+    private async parseStreamResponse(response: any, parser: StreamParser, signal?: AbortSignal, onRaw?: (chunk: string) => void): Promise<ProviderResponse> {
         const stream = response.body as NodeJS.ReadableStream;
-        let content = '';
-        const toolCallsAccum: Record<number, { id?: string; name?: string; args: string }> = {};
 
         return new Promise((resolve, reject) => {
+            let settled = false;
+            const fail = (err: Error) => {
+                if (settled) return;
+                settled = true;
+                signal?.removeEventListener('abort', onAbort);
+                (stream as any).destroy?.();
+                reject(err);
+            };
+            const onAbort = () => fail(createAbortError('Cancelled by user'));
+            if (signal?.aborted) return onAbort();
+            signal?.addEventListener('abort', onAbort, { once: true });
+
             let buffer = '';
             stream.on('data', (chunk: Buffer) => {
+                onRaw?.(chunk.toString());
                 buffer += chunk.toString();
                 const lines = buffer.split('\n');
                 buffer = lines.pop() || '';
-                for (const line of lines) {
-                    if (line.startsWith('data: ') && line !== 'data: [DONE]') {
-                        try {
-                            const json = JSON.parse(line.slice(6));
-                            const delta = json.choices?.[0]?.delta;
-                            if (delta?.content) {
-                                content += delta.content;
-                                onChunk(delta.content);
-                            }
-                            if (delta?.tool_calls) {
-                                for (const tc of delta.tool_calls) {
-                                    const idx = tc.index ?? 0;
-                                    if (!toolCallsAccum[idx]) toolCallsAccum[idx] = { args: '' };
-                                    if (tc.id) toolCallsAccum[idx].id = tc.id;
-                                    if (tc.function?.name) toolCallsAccum[idx].name = tc.function.name;
-                                    if (tc.function?.arguments) toolCallsAccum[idx].args += tc.function.arguments;
-                                }
-                            }
-                        } catch (_) { /* skip parse errors */ }
-                    }
+                try {
+                    for (const line of lines) parser.push(line.replace(/\r$/, ''));
+                } catch (err: any) {
+                    // An error event inside the stream
+                    fail(err);
                 }
             });
             stream.on('end', () => {
-                const toolCalls: ToolCall[] | undefined = Object.keys(toolCallsAccum).length > 0
-                    ? Object.values(toolCallsAccum).map((tc) => ({
-                        id: tc.id,
-                        function: { name: tc.name || 'unknown', arguments: tc.args }
-                    }))
-                    : undefined;
-                resolve({
-                    role: 'assistant',
-                    content: content || null,
-                    tool_calls: toolCalls
-                });
+                if (settled) return;
+                try {
+                    if (buffer) parser.push(buffer);
+                    settled = true;
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve(parser.finish());
+                } catch (err: any) {
+                    fail(err);
+                }
+            });
+            stream.on('error', (err) => {
+                fail(signal?.aborted ? createAbortError('Cancelled by user') : err);
             });
-            stream.on('error', reject);
         });
     }
 }
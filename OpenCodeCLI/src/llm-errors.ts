@@ -0,0 +1,155 @@
+/**
+ * Errors raised by LLMClient, classified so callers can decide what to do:
+ * retry, move to a fallback model, compact the history or give up.
+ */
+
+export type LLMErrorKind = 'auth' | 'rate_limit' | 'context_overflow' | 'server' | 'network' | 'timeout' | 'request';
+
+export class LLMError extends Error {
+    readonly kind: LLMErrorKind;
+    /** HTTP status, if the server answered */
+    readonly status?: number;
+    /** Worth retrying (and moving to a fallback model once retries run out) */
+    readonly retryable: boolean;
+    /** Delay the server asked for (Retry-After), in ms */
+    readonly retryAfterMs?: number;
+
+    constructor(kind: LLMErrorKind, message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = 'LLMError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+}
+
+/** 401/403: bad or missing API key */
+export class AuthError extends LLMError {
+    constructor(status: number, detail: string) {
+        super('auth', `Authentication failed (HTTP ${status}): check apiKey / OPENCODE_API_KEY. ${detail}`, { status });
+        this.name = 'AuthError';
+    }
+}
+
+/** 429: too many requests */
+export class RateLimitError extends LLMError {
+    constructor(status: number, detail: string, retryAfterMs?: number) {
+        super('rate_limit', `Rate limited (HTTP ${status})${retryAfterMs !== undefined ? `, retry after ${Math.ceil(retryAfterMs / 1000)}s` : ''}: ${detail}`, { status, retryable: true, retryAfterMs });
+        this.name = 'RateLimitError';
+    }
+}
+
+/** The prompt does not fit the model's context window */
+export class ContextOverflowError extends LLMError {
+    constructor(status: number, detail: string) {
+        super('context_overflow', `The conversation is longer than the model's context window (HTTP ${status}). Compact the history or lower contextLength. ${detail}`, { status });
+        this.name = 'ContextOverflowError';
+    }
+}
+
+/** The request had images and the model cannot read them */
+export class ImagesUnsupportedError extends LLMError {
+    constructor(status: number, detail: string) {
+        super('request', `The model does not accept images (HTTP ${status}). Images are left out of later requests to it; set "vision": false on the model to skip this error. ${detail}`, { status });
+        this.name = 'ImagesUnsupportedError';
+    }
+}
+
+/** 5xx (including the 530 of a dead Cloudflare tunnel) */
+export class ServerError extends LLMError {
+    constructor(status: number, detail: string, retryAfterMs?: number) {
+        super('server', `Server error (HTTP ${status}): ${detail}`, { status, retryable: true, retryAfterMs });
+        this.name = 'ServerError';
+    }
+}
+
+/** The server could not be reached or dropped the connection */
+export class NetworkError extends LLMError {
+    constructor(detail: string) {
+        super('network', `Network error: ${detail}`, { retryable: true });
+        this.name = 'NetworkError';
+    }
+}
+
+/** No answer within config.timeout */
+export class TimeoutError extends LLMError {
+    constructor(timeoutMs: number) {
+        super('timeout', `No response within ${timeoutMs}ms (raise "timeout" in the config or with /timeout)`, { retryable: true });
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Error raised when a request is cancelled through an AbortSignal
+ */
+export function createAbortError(message: string = 'Request cancelled'): Error {
+    const error = new Error(message);
+    error.name = 'AbortError';
+    return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+    return (error as Error | undefined)?.name === 'AbortError';
+}
+
+const CONTEXT_OVERFLOW_PATTERN = /context[ _-]?length|context window|maximum context|too many tokens|prompt is too long|context_length_exceeded|num_ctx/i;
+const IMAGES_UNSUPPORTED_PATTERN = /image|vision|multimodal|mmproj/i;
+
+/**
+ * Retry-After is either seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Turn a non-2xx response into the matching error class. `withImages` tells
+ * whether the request had images, so a 4xx about them is recognized.
+ */
+export function classifyHttpError(status: number, body: string, retryAfter?: string | null, withImages = false): LLMError {
+    const detail = body.length > 500 ? `${body.slice(0, 500)}...` : body;
+    const retryAfterMs = parseRetryAfter(retryAfter);
+    if (status === 401 || status === 403) return new AuthError(status, detail);
+    if (status === 429) return new RateLimitError(status, detail, retryAfterMs);
+    if ((status === 400 || status === 413 || status === 422) && CONTEXT_OVERFLOW_PATTERN.test(body)) {
+        return new ContextOverflowError(status, detail);
+    }
+    if (withImages && status >= 400 && status < 500 && IMAGES_UNSUPPORTED_PATTERN.test(body)) {
+        return new ImagesUnsupportedError(status, detail);
+    }
+    if (status >= 500) return new ServerError(status, detail, retryAfterMs);
+    return new LLMError('request', `Request rejected (HTTP ${status}): ${detail}`, { status });
+}
+
+/**
+ * Classify an error thrown by fetch (or while reading the body)
+ */
+export function classifyFetchError(error: any, timeoutMs: number, timedOut: boolean): Error {
+    if (error instanceof LLMError) return error;
+    if (timedOut) return new TimeoutError(timeoutMs);
+    const message: string = error?.message ?? String(error);
+    if (/ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|EPIPE|socket hang up|fetch failed|network/i.test(message)) {
+        return new NetworkError(message);
+    }
+    return error;
+}
+
+const BASE_DELAY = 1000;
+const MAX_DELAY = 10000;
+/** Longest Retry-After that is honored; beyond it the request fails instead */
+export const MAX_RETRY_AFTER = 60000;
+
+/**
+ * Exponential backoff with jitter (half fixed, half random), or the server's
+ * Retry-After when it sent one
+ */
+export function backoffDelay(attempt: number, error?: LLMError): number {
+    if (error?.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, MAX_RETRY_AFTER);
+    const ceiling = Math.min(BASE_DELAY * Math.pow(2, attempt), MAX_DELAY);
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
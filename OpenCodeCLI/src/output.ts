@@ -0,0 +1,184 @@
+import * as path from 'path';
+import { Agent } from './agent';
+import { AgentEvents, CommandDenial } from './events';
+import { UsageTotals } from './usage';
+import { VerificationResult } from './tools';
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Exit codes of `opencode --run`
+ */
+export const EXIT_CODES = {
+    SUCCESS: 0,
+    /** Bad arguments, config errors and other failures outside the turn */
+    ERROR: 1,
+    /** The LLM request failed (after retries) */
+    LLM_FAILURE: 2,
+    /** The agent stopped at the step limit without a final answer */
+    STEP_LIMIT: 3,
+    /** The turn finished but at least one shell command was denied */
+    COMMAND_DENIED: 4
+} as const;
+
+export type StopReason = 'completed' | 'step_limit' | 'error' | 'cancelled';
+
+export interface ToolCallRecord {
+    id: string;
+    name: string;
+    /** Parsed arguments (the raw string if they were not valid JSON) */
+    args: unknown;
+    result: string;
+    durationMs: number;
+    step: number;
+}
+
+/** The single object printed by --output-format json */
+export interface RunReport {
+    prompt: string;
+    answer: string;
+    stopReason: StopReason;
+    error?: string;
+    toolCalls: ToolCallRecord[];
+    /** Paths relative to the working directory */
+    filesModified: string[];
+    deniedCommands: CommandDenial[];
+    usage: UsageTotals;
+    verification: VerificationResult | null;
+    exitCode: number;
+}
+
+function parseArgs(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch (_) {
+        return raw;
+    }
+}
+
+/**
+ * Collects what happens during a --run turn so it can be reported as JSON
+ * and mapped to an exit code.
+ */
+export class RunRecorder {
+    private toolCalls: ToolCallRecord[] = [];
+    private denied: CommandDenial[] = [];
+    private stopReason: StopReason = 'completed';
+    private detachListeners: () => void;
+
+    constructor(private agent: Agent, private prompt: string) {
+        const onFinish = ({ step, call, result, durationMs }: AgentEvents['tool:finish']) => {
+            this.toolCalls.push({
+                id: call.id || result.tool_call_id,
+                name: call.function.name,
+                args: parseArgs(call.function.arguments),
+                result: result.content,
+                durationMs,
+                step
+            });
+        };
+        const onDenied = (denial: CommandDenial) => this.denied.push(denial);
+        // A verification fix-up may follow a step limit, so the last one wins
+        const onEnd = () => { this.stopReason = 'completed'; };
+        const onStepLimit = () => { this.stopReason = 'step_limit'; };
+        const onCancelled = () => { this.stopReason = 'cancelled'; };
+
+        agent.on('tool:finish', onFinish);
+        agent.on('tool:denied', onDenied);
+        agent.on('turn:end', onEnd);
+        agent.on('step-limit', onStepLimit);
+        agent.on('turn:cancelled', onCancelled);
+        this.detachListeners = () => {
+            agent.off('tool:finish', onFinish);
+            agent.off('tool:denied', onDenied);
+            agent.off('turn:end', onEnd);
+            agent.off('step-limit', onStepLimit);
+            agent.off('turn:cancelled', onCancelled);
+        };
+    }
+
+    /**
+     * Stop recording and build the report for the finished (or failed) run
+     */
+    finish(answer: string | void, error?: Error): RunReport {
+        this.detachListeners();
+        const stopReason: StopReason = error && this.stopReason !== 'cancelled' ? 'error' : this.stopReason;
+
+        let exitCode: number = EXIT_CODES.SUCCESS;
+        if (stopReason === 'error') exitCode = EXIT_CODES.LLM_FAILURE;
+        else if (stopReason === 'cancelled') exitCode = EXIT_CODES.ERROR;
+        else if (stopReason === 'step_limit') exitCode = EXIT_CODES.STEP_LIMIT;
+        else if (this.denied.length > 0) exitCode = EXIT_CODES.COMMAND_DENIED;
+
+        return {
+            prompt: this.prompt,
+            answer: answer || '',
+            stopReason,
+            ...(error ? { error: error.message } : {}),
+            toolCalls: this.toolCalls,
+            filesModified: this.agent.getCheckpoints().currentTurnFiles().map(f => path.relative(process.cwd(), f)),
+            deniedCommands: this.denied,
+            usage: this.agent.getSessionUsage().getTotals(),
+            verification: this.agent.getLastVerification(),
+            exitCode
+        };
+    }
+}
+
+type EventSerializers = { [K in keyof AgentEvents]?: (payload: AgentEvents[K]) => object };
+
+// Events are flattened to plain data; full histories and tool schemas are left out
+const serializers: EventSerializers = {
+    'turn:start': ({ input, mode }) => ({ input, mode }),
+    'turn:end': ({ response, mode, steps }) => ({ response, mode, steps }),
+    'turn:cancelled': ({ mode }) => ({ mode }),
+    'turn:error': ({ error, mode }) => ({ error: error.message, mode }),
+    'llm:request': ({ step, messages, tools }) => ({ step, messages: messages.length, tools: tools.length }),
+    'llm:response': ({ step, message, durationMs, usage }) => ({
+        step,
+        content: message.content,
+        ...(message.reasoning ? { reasoning: message.reasoning } : {}),
+        toolCalls: (message.tool_calls ?? []).map(tc => ({ id: tc.id, name: tc.function.name, args: parseArgs(tc.function.arguments) })),
+        durationMs,
+        usage
+    }),
+    'token': ({ text }) => ({ text }),
+    'reasoning': ({ text }) => ({ text }),
+    'tool:start': ({ step, call }) => ({ step, id: call.id, name: call.function.name, args: parseArgs(call.function.arguments) }),
+    'tool:finish': ({ step, call, result, durationMs }) => ({ step, id: call.id, name: call.function.name, result: result.content, durationMs }),
+    'tool:output': ({ stream, text }) => ({ stream, text }),
+    'tool:denied': (denial) => denial,
+    'compaction:start': ({ tokens }) => ({ tokens }),
+    'compaction:end': ({ result }) => ({
+        tokensBefore: result.tokensBefore,
+        tokensAfter: result.tokensAfter,
+        summarized: result.summarized,
+        stubbed: result.stubbed
+    }),
+    'llm:switch': (switched) => switched,
+    'llm:retry': (retry) => retry,
+    'step-limit': ({ steps, mode }) => ({ steps, mode }),
+    'verify:start': ({ command, attempt, files }) => ({ command, attempt, files: files.map(f => path.relative(process.cwd(), f)) }),
+    'verify:result': ({ result, attempt, maxAttempts }) => ({ ...result, attempt, maxAttempts })
+};
+
+/**
+ * Write every agent event as one JSON line ({"type": "<event>", ...}).
+ * Returns a function that detaches it.
+ */
+export function attachNdjsonWriter(agent: Agent, write: (line: string) => void): () => void {
+    const entries = (Object.entries(serializers) as [keyof AgentEvents, (payload: any) => object][])
+        .map(([event, serialize]) => {
+            const handler = (payload: any) => write(JSON.stringify({ type: event, timestamp: Date.now(), ...serialize(payload) }));
+            agent.on(event, handler);
+            return [event, handler] as const;
+        });
+
+    return () => {
+        for (const [event, handler] of entries) {
+            agent.off(event, handler);
+        }
+    };
+}
@@ -0,0 +1,263 @@
+/**
+ * Unified diffs for the apply_patch tool: parsing (git and plain diff
+ * headers, creations, deletions, renames) and applying hunks with fuzzy
+ * context matching. Models often get line numbers and whitespace slightly
+ * wrong, so hunks are searched for near where their header puts them.
+ */
+
+export class PatchParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PatchParseError';
+    }
+}
+
+export interface HunkLine {
+    type: ' ' | '-' | '+';
+    text: string;
+}
+
+export interface Hunk {
+    /** The @@ line as given */
+    header: string;
+    /** 1-based line in the old file, when the header has numbers */
+    oldStart?: number;
+    lines: HunkLine[];
+    /** "\ No newline at end of file" after the old / new side's last line */
+    noNewlineOld?: boolean;
+    noNewlineNew?: boolean;
+}
+
+export interface FilePatch {
+    /** null for a file the patch creates */
+    oldPath: string | null;
+    /** null for a file the patch deletes */
+    newPath: string | null;
+    hunks: Hunk[];
+}
+
+export interface HunkResult {
+    /** 1-based */
+    index: number;
+    header: string;
+    applied: boolean;
+    /** 1-based line the hunk was applied at */
+    line?: number;
+    /** What was relaxed to find the hunk */
+    fuzz?: string;
+    error?: string;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+function parsePath(raw: string): string | null {
+    // Plain diff headers may end with a tab and a timestamp
+    const path = raw.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+    return path === '/dev/null' ? null : path;
+}
+
+/** Drop git's a/ and b/ prefixes when both sides use them */
+function stripPrefixes(patch: FilePatch) {
+    const { oldPath, newPath } = patch;
+    if ((oldPath === null || oldPath.startsWith('a/')) && (newPath === null || newPath.startsWith('b/'))) {
+        patch.oldPath = oldPath && oldPath.slice(2);
+        patch.newPath = newPath && newPath.slice(2);
+    }
+}
+
+/**
+ * Parse a unified diff with one or more files. Code fences around it are
+ * ignored, and so are blank context lines that lost their leading space.
+ */
+export function parsePatch(text: string): FilePatch[] {
+    const lines = text.replace(/\r\n/g, '\n').split('\n').filter(l => !l.startsWith('```'));
+    const patches: FilePatch[] = [];
+    let current: FilePatch | null = null;
+    let hunk: Hunk | null = null;
+    // Set by "diff --git" until the ---/+++ lines (or the hunks) follow
+    let gitHeader = false;
+
+    // "--- a/x" + "+++ b/x" starts the next file, even without a blank line before it
+    const isFileHeader = (i: number) => lines[i].startsWith('--- ') && lines[i + 1]?.startsWith('+++ ');
+    const isBodyLine = (i: number) => /^[ +\-\\]/.test(lines[i]) && !isFileHeader(i);
+    // An empty line is context that lost its space if the hunk goes on after it
+    const continuesHunk = (i: number) => {
+        while (i < lines.length && lines[i] === '') i++;
+        return i < lines.length && isBodyLine(i);
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+
+        if (hunk) {
+            const type = line[0];
+            if ((type === ' ' || type === '-' || type === '+') && isBodyLine(i)) {
+                hunk.lines.push({ type, text: line.slice(1) });
+                continue;
+            } else if (line.startsWith('\\')) {
+                const last = hunk.lines[hunk.lines.length - 1];
+                if (last?.type !== '+') hunk.noNewlineOld = true;
+                if (last?.type !== '-') hunk.noNewlineNew = true;
+                continue;
+            } else if (line === '' && continuesHunk(i + 1)) {
+                hunk.lines.push({ type: ' ', text: '' });
+                continue;
+            }
+            hunk = null;
+        }
+
+        if (line.startsWith('diff --git ')) {
+            const match = /^diff --git (\S+) (\S+)$/.exec(line);
+            current = { oldPath: match ? match[1] : null, newPath: match ? match[2] : null, hunks: [] };
+            patches.push(current);
+            gitHeader = true;
+        } else if (isFileHeader(i)) {
+            if (!gitHeader || !current) {
+                current = { oldPath: null, newPath: null, hunks: [] };
+                patches.push(current);
+            }
+            current.oldPath = parsePath(line.slice(4));
+            current.newPath = parsePath(lines[i + 1].slice(4));
+            gitHeader = false;
+            i++;
+        } else if (current && gitHeader && line.startsWith('rename from ')) {
+            current.oldPath = `a/${line.slice('rename from '.length).trim()}`;
+        } else if (current && gitHeader && line.startsWith('rename to ')) {
+            current.newPath = `b/${line.slice('rename to '.length).trim()}`;
+        } else if (current && gitHeader && line.startsWith('new file mode')) {
+            current.oldPath = null;
+        } else if (current && gitHeader && line.startsWith('deleted file mode')) {
+            current.newPath = null;
+        } else if (line.startsWith('@@')) {
+            if (!current) throw new PatchParseError(`Hunk "${line}" comes before any file header (--- a/path, +++ b/path)`);
+            const match = HUNK_HEADER.exec(line);
+            hunk = { header: line.trim(), oldStart: match ? Number(match[1]) : undefined, lines: [] };
+            current.hunks.push(hunk);
+            gitHeader = false;
+        }
+        // Anything else (index lines, modes, commit messages) is ignored
+    }
+
+    if (patches.length === 0) throw new PatchParseError('No file headers found. Start each file with "--- a/path" and "+++ b/path" lines.');
+    for (const patch of patches) {
+        stripPrefixes(patch);
+        const name = patch.newPath ?? patch.oldPath;
+        if (!name) throw new PatchParseError('A file in the patch has neither an old nor a new path');
+        const renamed = patch.oldPath !== null && patch.newPath !== null && patch.oldPath !== patch.newPath;
+        if (patch.hunks.length === 0 && !renamed && patch.newPath !== null) {
+            throw new PatchParseError(`${name}: no hunks (@@ ... @@ followed by lines starting with " ", "-" or "+")`);
+        }
+        for (const [index, h] of patch.hunks.entries()) {
+            if (!h.lines.some(l => l.type !== ' ')) throw new PatchParseError(`${name}: hunk ${index + 1} (${h.header}) changes nothing`);
+        }
+    }
+    return patches;
+}
+
+type Compare = (a: string, b: string) => boolean;
+
+const MATCHERS: { fuzz?: string; equal: Compare }[] = [
+    { equal: (a, b) => a === b },
+    { fuzz: 'trailing whitespace ignored', equal: (a, b) => a.trimEnd() === b.trimEnd() },
+    { fuzz: 'indentation ignored', equal: (a, b) => a.trim() === b.trim() }
+];
+
+function matchesAt(lines: string[], needle: string[], at: number, equal: Compare): boolean {
+    if (at < 0 || at + needle.length > lines.length) return false;
+    return needle.every((l, k) => equal(lines[at + k], l));
+}
+
+/**
+ * Where a hunk's old lines start in `lines`: the match closest to
+ * `expected`, or an error when there is none or (without line numbers) more
+ * than one
+ */
+function locate(lines: string[], hunkLines: HunkLine[], expected: number | undefined): { at: number; trimStart: number; trimEnd: number; fuzz?: string } | { error: string } {
+    // Without a match, up to 2 context lines are dropped from each end (like patch's fuzz factor)
+    const leading = hunkLines.findIndex(l => l.type !== ' ');
+    const trailing = [...hunkLines].reverse().findIndex(l => l.type !== ' ');
+    for (let drop = 0; drop <= 2; drop++) {
+        const trimStart = Math.min(drop, leading);
+        const trimEnd = Math.min(drop, trailing);
+        if (drop > 0 && trimStart === 0 && trimEnd === 0) break;
+        const needle = hunkLines.slice(trimStart, hunkLines.length - trimEnd).filter(l => l.type !== '+').map(l => l.text);
+        if (needle.length === 0) {
+            // Only additions: they go where the header says, or at the end
+            const at = expected === undefined ? lines.length : Math.min(Math.max(expected, 0), lines.length);
+            return { at, trimStart, trimEnd };
+        }
+        for (const { fuzz, equal } of MATCHERS) {
+            const found: number[] = [];
+            for (let at = 0; at + needle.length <= lines.length; at++) {
+                if (matchesAt(lines, needle, at, equal)) found.push(at);
+            }
+            if (found.length === 0) continue;
+            if (expected === undefined && found.length > 1) {
+                return { error: `its lines occur ${found.length} times (lines ${found.slice(0, 5).map(f => f + 1).join(', ')}); add line numbers to the @@ header or more context` };
+            }
+            const at = expected === undefined ? found[0] : found.reduce((best, f) => Math.abs(f - expected) < Math.abs(best - expected) ? f : best);
+            const fuzzes = [fuzz, drop > 0 ? `${drop} context line(s) dropped` : undefined].filter(Boolean);
+            return { at, trimStart, trimEnd, ...(fuzzes.length > 0 ? { fuzz: fuzzes.join(', ') } : {}) };
+        }
+    }
+    return { error: describeMismatch(lines, hunkLines.filter(l => l.type !== '+').map(l => l.text)) };
+}
+
+/**
+ * Why the old lines were not found, from the position matching most of them
+ */
+function describeMismatch(lines: string[], needle: string[]): string {
+    let best = { at: -1, matched: 0 };
+    for (let at = 0; at < lines.length; at++) {
+        let matched = 0;
+        while (matched < needle.length && at + matched < lines.length && lines[at + matched].trim() === needle[matched].trim()) matched++;
+        if (matched > best.matched) best = { at, matched };
+    }
+    if (best.at === -1) {
+        return `context not found; the file has no line like "${needle[0].trim()}"`;
+    }
+    const line = best.at + best.matched;
+    const actual = line < lines.length ? `the file has "${lines[line]}"` : 'the file ends there';
+    return `context not found; closest match at line ${best.at + 1}, but at line ${line + 1} the hunk expects "${needle[best.matched]}" and ${actual}`;
+}
+
+/**
+ * Apply hunks in order. `content` is null when any hunk failed; the results
+ * say which and why.
+ */
+export function applyHunks(original: string, hunks: Hunk[]): { content: string | null; results: HunkResult[] } {
+    const eol = original.includes('\r\n') ? '\r\n' : '\n';
+    let finalNewline = original === '' || original.endsWith('\n');
+    const lines = original === '' ? [] : original.split(/\r?\n/);
+    if (original.endsWith('\n')) lines.pop();
+
+    const results: HunkResult[] = [];
+    // Lines added minus lines removed by the hunks applied so far
+    let delta = 0;
+    for (const [index, hunk] of hunks.entries()) {
+        const expected = hunk.oldStart === undefined ? undefined : Math.max(hunk.oldStart - 1, 0) + delta;
+        const found = locate(lines, hunk.lines, expected);
+        if ('error' in found) {
+            results.push({ index: index + 1, header: hunk.header, applied: false, error: found.error });
+            continue;
+        }
+        const used = hunk.lines.slice(found.trimStart, hunk.lines.length - found.trimEnd);
+        const oldCount = used.filter(l => l.type !== '+').length;
+        // Context lines keep the file's version (its whitespace may differ from the hunk's)
+        const replacement: string[] = [];
+        let k = found.at;
+        for (const l of used) {
+            if (l.type === ' ') replacement.push(lines[k++] ?? l.text);
+            else if (l.type === '-') k++;
+            else replacement.push(l.text);
+        }
+        lines.splice(found.at, oldCount, ...replacement);
+        delta += replacement.length - oldCount;
+        if (hunk.noNewlineNew) finalNewline = false;
+        else if (hunk.noNewlineOld) finalNewline = true;
+        results.push({ index: index + 1, header: hunk.header, applied: true, line: found.at + 1, ...(found.fuzz ? { fuzz: found.fuzz } : {}) });
+    }
+
+    if (results.some(r => !r.applied)) return { content: null, results };
+    return { content: lines.length === 0 ? '' : lines.join(eol) + (finalNewline ? eol : ''), results };
+}
@@ -0,0 +1,198 @@
+/**
+ * Allow/ask/deny rules for tools and shell commands. Rules map a pattern
+ * (`*` matches anything) to an action:
+ *
+ *   "permissions": {
+ *     "tools": { "git_commit": "ask" },
+ *     "commands": { "npm test*": "allow", "git push*": "ask", "rm -rf*": "deny" }
+ *   }
+ *
+ * Deny rules always win; otherwise the longest matching pattern decides.
+ */
+
+export type PermissionAction = 'allow' | 'ask' | 'deny';
+
+export const PERMISSION_ACTIONS: PermissionAction[] = ['allow', 'ask', 'deny'];
+
+export type PermissionSection = 'tools' | 'commands';
+
+/**
+ * Built in under the configured rules. Being longer than broad allows like
+ * "git *" (an `--allow git` entry), they still ask for these; configure the
+ * same or a longer pattern to change that.
+ */
+export const DEFAULT_COMMAND_RULES: Record<string, PermissionAction> = {
+    'git push*': 'ask',
+    'git reset --hard*': 'ask',
+    'git clean*': 'ask',
+    'git branch -D*': 'ask',
+    'git checkout -- *': 'ask',
+    'rm -rf*': 'ask',
+    'rm -fr*': 'ask',
+    'npm publish*': 'ask',
+    'sudo *': 'ask'
+};
+
+export interface PermissionsConfig {
+    /** Tool name patterns; without a rule tools run without asking */
+    tools?: Record<string, PermissionAction>;
+    /** Command patterns; `tools.run_command` is the action for commands without a rule */
+    commands?: Record<string, PermissionAction>;
+}
+
+/** Answer to an approval prompt */
+export type ApprovalAnswer = 'yes' | 'no' | 'session' | 'project';
+
+export interface PermissionRequest {
+    tool: string;
+    /** Set for run_command */
+    command?: string;
+    args: Record<string, unknown>;
+}
+
+export interface PermissionDecision {
+    action: PermissionAction;
+    /** The pattern that decided, unless the default did */
+    rule?: string;
+}
+
+/**
+ * Project rules over user rules, pattern by pattern
+ */
+export function mergePermissions(user: PermissionsConfig | undefined, project: PermissionsConfig | undefined): PermissionsConfig | undefined {
+    if (!user && !project) return undefined;
+    return {
+        tools: { ...user?.tools, ...project?.tools },
+        commands: { ...user?.commands, ...project?.commands }
+    };
+}
+
+export function normalizeCommand(command: string): string {
+    return command.trim().replace(/\s+/g, ' ');
+}
+
+function patternToRegExp(pattern: string): RegExp {
+    const source = normalizeCommand(pattern).split('*').map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * The commands of a shell line (split at ;, &&, ||, | and &), so that
+ * `npm test && rm -rf ~` is not allowed by "npm test*". Quotes are respected.
+ */
+export function splitCommand(command: string): string[] {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+    for (let i = 0; i < command.length; i++) {
+        const c = command[i];
+        if (quote) {
+            if (c === '\\' && quote === '"') {
+                current += c + (command[i + 1] ?? '');
+                i++;
+                continue;
+            }
+            if (c === quote) quote = null;
+            current += c;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+            current += c;
+        } else if (c === '\\') {
+            current += c + (command[i + 1] ?? '');
+            i++;
+        } else if (c === ';' || c === '\n' || c === '|' || (c === '&' && command[i - 1] !== '>' && command[i + 1] !== '>')) {
+            parts.push(current);
+            current = '';
+            // && and ||
+            if (command[i + 1] === c) i++;
+        } else {
+            current += c;
+        }
+    }
+    parts.push(current);
+    return parts.map(normalizeCommand).filter(Boolean);
+}
+
+/** $(...) and backticks run commands the rules never see */
+function hasSubstitution(command: string): boolean {
+    return /\$\(|`/.test(command);
+}
+
+type Rules = Map<string, { action: PermissionAction; regex: RegExp }>;
+
+function toRules(entries: Record<string, PermissionAction> | undefined): Rules {
+    const rules: Rules = new Map();
+    for (const [pattern, action] of Object.entries(entries ?? {})) {
+        rules.set(pattern, { action, regex: patternToRegExp(pattern) });
+    }
+    return rules;
+}
+
+export class PermissionEngine {
+    private tools: Rules;
+    private commands: Rules;
+
+    /**
+     * `defaultCommand` applies to commands no rule (and no tools.run_command
+     * rule) covers
+     */
+    constructor(config: PermissionsConfig = {}, private defaultCommand: PermissionAction = 'ask') {
+        this.tools = toRules(config.tools);
+        this.commands = toRules(config.commands);
+    }
+
+    /** Add (or replace) a rule, e.g. for an "always" answer */
+    addRule(section: PermissionSection, pattern: string, action: PermissionAction) {
+        const rules = section === 'tools' ? this.tools : this.commands;
+        rules.delete(pattern);
+        rules.set(pattern, { action, regex: patternToRegExp(pattern) });
+    }
+
+    private match(rules: Rules, subject: string): PermissionDecision | undefined {
+        let best: PermissionDecision | undefined;
+        for (const [pattern, { action, regex }] of rules) {
+            if (!regex.test(subject)) continue;
+            if (action === 'deny') return { action, rule: pattern };
+            if (!best || pattern.length > best.rule!.length) best = { action, rule: pattern };
+        }
+        return best;
+    }
+
+    checkTool(tool: string): PermissionDecision {
+        return this.match(this.tools, tool) ?? { action: 'allow' };
+    }
+
+    /**
+     * Every command of the line must be allowed for the line to run; the
+     * strictest decision is returned
+     */
+    checkCommand(command: string): PermissionDecision {
+        const line = normalizeCommand(command);
+        const fallback = this.match(this.tools, 'run_command') ?? { action: this.defaultCommand };
+        const whole = this.match(this.commands, line);
+        if (whole?.action === 'deny') return whole;
+
+        const decisions = splitCommand(line).map(part => this.match(this.commands, part) ?? fallback);
+        const denied = decisions.find(d => d.action === 'deny');
+        if (denied) return denied;
+        // A rule for the exact line (an "always" answer) covers its parts
+        if (whole && !whole.rule!.includes('*')) return whole;
+        const asked = decisions.find(d => d.action === 'ask');
+        if (asked) return asked;
+        if (hasSubstitution(line) && decisions.some(d => d.rule)) return { action: 'ask' };
+        return decisions[0] ?? fallback;
+    }
+
+    check(request: PermissionRequest): PermissionDecision {
+        return request.command !== undefined ? this.checkCommand(request.command) : this.checkTool(request.tool);
+    }
+}
+
+/**
+ * The rule an "always" answer adds: the exact command, or the tool name
+ */
+export function alwaysRule(request: PermissionRequest): { section: PermissionSection; pattern: string } {
+    return request.command !== undefined
+        ? { section: 'commands', pattern: normalizeCommand(request.command) }
+        : { section: 'tools', pattern: request.tool };
+}
@@ -0,0 +1,335 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { Message } from './llm-client';
+import { ModelTarget, OpenCodeConfig } from './config';
+import { ModelEntry } from './config-schema';
+import { HttpRequest, ProviderAdapter, ProviderKind, getProviderAdapter } from './providers';
+import { ContextOverflowError, classifyFetchError, classifyHttpError } from './llm-errors';
+import { extractToolCalls, getToolNames } from './tool-parsing';
+import { TOOLS_DEFINITION } from './tools';
+
+/**
+ * Capability probing (/probe, opencode doctor): a few small requests tell
+ * how fast a model answers, whether it calls tools natively, whether the
+ * server streams and how long a prompt it takes. Results are cached per
+ * endpoint and model and fill in settings the config leaves open.
+ */
+
+export const PROBE_CACHE_FILE = path.join(os.homedir(), '.config', 'opencode', 'probes.json');
+/** Older results are not applied automatically (the server may have changed) */
+export const PROBE_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * 'native': tool_calls in the response; 'text': the call written into the
+ * content; 'rejected': the server refused the tools field; 'ignored': the
+ * model answered without calling a tool
+ */
+export type ToolSupport = 'native' | 'text' | 'rejected' | 'ignored';
+
+const TOOL_SUPPORT_NOTES: Record<ToolSupport, string> = {
+    native: 'native tool_calls',
+    text: 'tool calls written as text',
+    rejected: 'tools field rejected by the server',
+    ignored: 'no tool call made'
+};
+
+export interface ProbeResult {
+    baseURL: string;
+    model: string;
+    provider: ProviderKind;
+    probedAt: number;
+    reachable: boolean;
+    /** Round trip of a minimal chat request (ms) */
+    latencyMs?: number;
+    streaming?: boolean;
+    /** Time to the first streamed token (ms) */
+    firstTokenMs?: number;
+    tools?: ToolSupport;
+    contextLength?: number;
+    /** Reported by the server, or found by sending growing prompts */
+    contextSource?: 'server' | 'measured';
+    /** Why the model is unreachable or a step failed */
+    error?: string;
+}
+
+export interface ProbeOptions {
+    /** Send growing prompts when the server does not report the context window */
+    measureContext?: boolean;
+    /** Per request (ms) */
+    timeout?: number;
+    /** Called before each step, for progress output */
+    onStep?: (step: string) => void;
+}
+
+const PING_PROMPT: Message[] = [{ role: 'user', content: 'Reply with the single word OK.' }];
+// The notebook's "Test Tool Calling" request
+const TOOL_PROMPT: Message[] = [{ role: 'user', content: 'Create a file called hello.py with print("hello world") in it' }];
+const PROBE_TOOLS = TOOLS_DEFINITION.filter(t => ['write_file', 'read_file', 'run_command'].includes(t.function.name));
+/** Prompt sizes tried when measuring the context window, in tokens */
+const CONTEXT_STEPS = [4096, 8192, 16384, 32768, 65536, 131072];
+const FILLER = 'The quick brown fox jumps over the lazy dog. ';
+
+async function send(request: HttpRequest, timeout: number): Promise<any> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+    try {
+        return await fetch(request.url, {
+            method: request.body === undefined ? 'GET' : 'POST',
+            headers: request.headers,
+            body: request.body === undefined ? undefined : JSON.stringify(request.body),
+            signal: controller.signal as any
+        });
+    } catch (error) {
+        throw classifyFetchError(error, timeout, timedOut);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+async function chat(adapter: ProviderAdapter, target: ModelTarget, messages: Message[], timeout: number, extra: { tools?: object[]; maxTokens: number }) {
+    const request = adapter.buildChatRequest({
+        model: target.model,
+        messages,
+        tools: extra.tools ?? [],
+        stream: false,
+        contextLength: target.contextLength,
+        sampling: { temperature: 0, max_tokens: extra.maxTokens }
+    }, { baseURL: target.baseURL, apiKey: target.apiKey });
+    const response = await send(request, timeout);
+    const text = await response.text();
+    if (!response.ok) throw classifyHttpError(response.status, text, response.headers.get('retry-after'));
+    return adapter.parseResponse(JSON.parse(text)).message;
+}
+
+/**
+ * Whether tokens arrive as a stream, and how soon the first one does
+ */
+async function probeStreaming(adapter: ProviderAdapter, target: ModelTarget, timeout: number): Promise<{ streaming: boolean; firstTokenMs?: number }> {
+    const request = adapter.buildChatRequest({
+        model: target.model,
+        messages: PING_PROMPT,
+        tools: [],
+        stream: true,
+        contextLength: target.contextLength,
+        sampling: { temperature: 0, max_tokens: 8 }
+    }, { baseURL: target.baseURL, apiKey: target.apiKey });
+    const start = Date.now();
+    const response = await send(request, timeout);
+    if (!response.ok) throw classifyHttpError(response.status, await response.text(), response.headers.get('retry-after'));
+
+    let firstTokenMs: number | undefined;
+    const parser = adapter.createStreamParser(() => {
+        firstTokenMs ??= Date.now() - start;
+    });
+    let buffer = '';
+    for await (const chunk of response.body) {
+        buffer += chunk.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) parser.push(line.replace(/\r$/, ''));
+    }
+    if (buffer) parser.push(buffer);
+    parser.finish();
+    // A server that ignores "stream" answers with one JSON body the parser finds no tokens in
+    return { streaming: firstTokenMs !== undefined, firstTokenMs };
+}
+
+async function probeTools(adapter: ProviderAdapter, target: ModelTarget, timeout: number): Promise<ToolSupport> {
+    let message: Message;
+    try {
+        message = await chat(adapter, target, TOOL_PROMPT, timeout, { tools: PROBE_TOOLS, maxTokens: 256 });
+    } catch (error: any) {
+        // e.g. llama.cpp without --jinja, or a template without tool support
+        if (error.kind === 'request') return 'rejected';
+        throw error;
+    }
+    if (message.tool_calls && message.tool_calls.length > 0) return 'native';
+    const content = typeof message.content === 'string' ? message.content : '';
+    return extractToolCalls(content, getToolNames(PROBE_TOOLS)).toolCalls.length > 0 ? 'text' : 'ignored';
+}
+
+async function serverContextLength(adapter: ProviderAdapter, target: ModelTarget, timeout: number): Promise<number | undefined> {
+    try {
+        const response = await send(adapter.buildModelInfoRequest({ baseURL: target.baseURL, apiKey: target.apiKey }, target.model), timeout);
+        if (!response.ok) return undefined;
+        return adapter.parseContextLength(await response.json(), target.model);
+    } catch (_) {
+        return undefined;
+    }
+}
+
+/**
+ * Largest prompt of CONTEXT_STEPS the server accepts, stopping at the first
+ * context overflow error. Servers that truncate silently report the maximum.
+ */
+async function measureContextLength(adapter: ProviderAdapter, target: ModelTarget, timeout: number): Promise<number | undefined> {
+    let accepted: number | undefined;
+    for (const tokens of CONTEXT_STEPS) {
+        // About 10 tokens per sentence; keep room for the reply
+        const filler = FILLER.repeat(Math.floor(tokens * 0.9 / 10));
+        try {
+            await chat(adapter, { ...target, contextLength: tokens }, [{ role: 'user', content: `${filler}\nReply with OK.` }], timeout, { maxTokens: 1 });
+            accepted = tokens;
+        } catch (error) {
+            if (error instanceof ContextOverflowError) break;
+            throw error;
+        }
+    }
+    return accepted;
+}
+
+/**
+ * Run the probe requests against one model. Never throws: failures end up
+ * in `reachable` and `error`.
+ */
+export async function probeModel(target: ModelTarget, options: ProbeOptions = {}): Promise<ProbeResult> {
+    const adapter = getProviderAdapter(target.provider);
+    const timeout = options.timeout ?? 60000;
+    const result: ProbeResult = { baseURL: target.baseURL, model: target.model, provider: target.provider, probedAt: Date.now(), reachable: false };
+
+    options.onStep?.('latency');
+    const start = Date.now();
+    try {
+        await chat(adapter, target, PING_PROMPT, timeout, { maxTokens: 8 });
+    } catch (error: any) {
+        result.error = error.message;
+        return result;
+    }
+    result.reachable = true;
+    result.latencyMs = Date.now() - start;
+
+    try {
+        options.onStep?.('streaming');
+        Object.assign(result, await probeStreaming(adapter, target, timeout));
+        options.onStep?.('tool calling');
+        result.tools = await probeTools(adapter, target, timeout);
+        options.onStep?.('context length');
+        const reported = await serverContextLength(adapter, target, timeout);
+        if (reported) {
+            result.contextLength = reported;
+            result.contextSource = 'server';
+        } else if (options.measureContext) {
+            result.contextLength = await measureContextLength(adapter, target, timeout);
+            if (result.contextLength) result.contextSource = 'measured';
+        }
+    } catch (error: any) {
+        result.error = error.message;
+    }
+    return result;
+}
+
+function cacheKey(baseURL: string, model: string): string {
+    return `${baseURL.replace(/\/$/, '')} ${model}`;
+}
+
+export function loadProbeCache(): Record<string, ProbeResult> {
+    try {
+        const data = JSON.parse(fs.readFileSync(PROBE_CACHE_FILE, 'utf-8'));
+        return data && typeof data === 'object' ? data : {};
+    } catch (_) {
+        return {};
+    }
+}
+
+export function saveProbeResult(result: ProbeResult) {
+    const cache = loadProbeCache();
+    cache[cacheKey(result.baseURL, result.model)] = result;
+    fs.mkdirSync(path.dirname(PROBE_CACHE_FILE), { recursive: true });
+    fs.writeFileSync(PROBE_CACHE_FILE, JSON.stringify(cache, null, 2), 'utf-8');
+}
+
+/**
+ * The cached result for an endpoint and model, unless it is older than PROBE_MAX_AGE
+ */
+export function getCachedProbe(baseURL: string, model: string, cache = loadProbeCache()): ProbeResult | undefined {
+    const result = cache[cacheKey(baseURL, model)];
+    return result && result.reachable && Date.now() - result.probedAt <= PROBE_MAX_AGE ? result : undefined;
+}
+
+/**
+ * Tool calling mode that suits the probed model: only models that returned
+ * real tool_calls keep the native mode
+ */
+export function recommendedToolCalling(result: ProbeResult): 'native' | 'prompt' | undefined {
+    if (!result.tools) return undefined;
+    return result.tools === 'native' ? 'native' : 'prompt';
+}
+
+function modelEntry(config: OpenCodeConfig, target: { providerId?: string; model: string }): ModelEntry | undefined {
+    return target.providerId ? config.file?.providers[target.providerId]?.models[target.model] : undefined;
+}
+
+/**
+ * Fill in what the config leaves open for a fallback or routed model
+ */
+function applyToTarget(config: OpenCodeConfig, target: ModelTarget, result: ProbeResult): ModelTarget {
+    const entry = modelEntry(config, target);
+    const toolCalling = recommendedToolCalling(result);
+    return {
+        ...target,
+        ...(toolCalling && entry?.toolCalling === undefined && entry?.tools === undefined ? { toolCalling } : {}),
+        ...(result.contextLength && entry?.contextLength === undefined ? { contextLength: result.contextLength } : {})
+    };
+}
+
+/**
+ * Apply a probe result to the active model where the config has no explicit
+ * setting. Returns what changed, for display.
+ */
+export function applyProbeResult(config: OpenCodeConfig, result: ProbeResult): string[] {
+    const changes: string[] = [];
+    const entry = modelEntry(config, { providerId: config.providerId, model: config.model });
+    const toolCalling = recommendedToolCalling(result);
+    if (toolCalling && entry?.toolCalling === undefined && entry?.tools === undefined && config.toolCalling !== toolCalling) {
+        config.toolCalling = toolCalling;
+        changes.push(`toolCalling: ${toolCalling} (${TOOL_SUPPORT_NOTES[result.tools!]})`);
+    }
+    if (result.contextLength && (config.sources?.contextLength?.layer ?? 'default') === 'default' && config.contextLength !== result.contextLength) {
+        config.contextLength = result.contextLength;
+        if (config.sources) config.sources.contextLength = { layer: 'default', origin: `probe (${PROBE_CACHE_FILE})` };
+        changes.push(`contextLength: ${result.contextLength} (${result.contextSource === 'server' ? 'reported by the server' : 'measured'})`);
+    }
+    return changes;
+}
+
+/**
+ * Apply cached results to the active, fallback and routed models. Returns
+ * the changes to the active model.
+ */
+export function applyCachedProbes(config: OpenCodeConfig): string[] {
+    const cache = loadProbeCache();
+    const cached = (target: ModelTarget) => getCachedProbe(target.baseURL, target.model, cache);
+    config.fallback = config.fallback?.map(target => {
+        const result = cached(target);
+        return result ? applyToTarget(config, target, result) : target;
+    });
+    if (config.routing) {
+        for (const [use, target] of Object.entries(config.routing)) {
+            const result = cached(target);
+            if (result) config.routing[use] = applyToTarget(config, target, result);
+        }
+    }
+    const active = getCachedProbe(config.baseURL, config.model, cache);
+    return active ? applyProbeResult(config, active) : [];
+}
+
+/**
+ * Report lines for /probe and opencode doctor
+ */
+export function formatProbeResult(result: ProbeResult): string[] {
+    if (!result.reachable) return [`❌ Unreachable: ${result.error ?? 'no response'}`];
+    const lines = [`Latency:   ${result.latencyMs}ms`];
+    if (result.streaming !== undefined) {
+        lines.push(`Streaming: ${result.streaming ? `yes (first token after ${result.firstTokenMs}ms)` : 'no (answers arrive in one piece)'}`);
+    }
+    if (result.tools) lines.push(`Tools:     ${TOOL_SUPPORT_NOTES[result.tools]}${result.tools === 'native' ? ' ✅' : ' (toolCalling: "prompt" suits it better)'}`);
+    lines.push(`Context:   ${result.contextLength ? `${result.contextLength} tokens (${result.contextSource === 'server' ? 'reported by the server' : 'largest prompt accepted'})` : 'unknown'}`);
+    if (result.error) lines.push(`⚠️  Stopped early: ${result.error}`);
+    return lines;
+}
@@ -0,0 +1,308 @@
+import { spawn, ChildProcess } from 'child_process';
+
+/**
+ * Shell commands for run_command (with a timeout, capped output and live
+ * output events) and the background processes of start_process.
+ */
+
+export type OutputStream = 'stdout' | 'stderr';
+
+/** Output kept per background process; the middle of longer output is dropped */
+const MAX_BUFFERED_OUTPUT = 256 * 1024;
+/** How long a process gets to exit after SIGTERM before it is killed */
+const STOP_GRACE_MS = 5000;
+/** How long output is still read after the shell exits; background children may keep the pipes open */
+const PIPE_GRACE_MS = 1000;
+const MAX_PROCESSES = 10;
+
+/**
+ * Keep the start and the end of `text` (errors and summaries are usually
+ * at the end), with a note on what was left out
+ */
+export function truncateOutput(text: string, limit: number): string {
+    if (text.length <= limit) return text;
+    const head = Math.floor(limit / 3);
+    const tail = limit - head;
+    const omitted = text.slice(head, text.length - tail);
+    const lines = omitted.split('\n').length - 1;
+    return `${text.slice(0, head)}\n\n... [${omitted.length} characters${lines > 0 ? `, ${lines} lines` : ''} omitted] ...\n\n${text.slice(text.length - tail)}`;
+}
+
+/**
+ * Output that keeps its first and last `keep` characters, with positions
+ * counted over everything appended
+ */
+export class OutputBuffer {
+    private head = '';
+    private tail = '';
+    private total = 0;
+
+    constructor(private keep: number) {}
+
+    get length(): number {
+        return this.total;
+    }
+
+    append(text: string) {
+        this.total += text.length;
+        if (this.head.length < this.keep) {
+            const room = this.keep - this.head.length;
+            this.head += text.slice(0, room);
+            text = text.slice(room);
+        }
+        if (text) this.tail = (this.tail + text).slice(-this.keep);
+    }
+
+    /**
+     * Output from position `from` on, truncated to `limit` characters
+     */
+    read(from: number, limit: number): string {
+        const parts: string[] = [];
+        const tailStart = this.total - this.tail.length;
+        if (from < this.head.length) parts.push(this.head.slice(from));
+        const start = Math.max(from, this.head.length);
+        if (start < tailStart) parts.push(`\n... [${tailStart - start} characters not kept] ...\n`);
+        parts.push(this.tail.slice(Math.max(0, start - tailStart)));
+        return truncateOutput(parts.join(''), limit);
+    }
+}
+
+function spawnShell(command: string, cwd: string): ChildProcess {
+    // Own process group, so that killing it also stops what the shell started
+    return spawn(command, { cwd, shell: true, detached: process.platform !== 'win32', stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/**
+ * Signal the whole process group. The shell may have exited already while
+ * something it started in the background still runs.
+ */
+function killTree(child: ChildProcess, signal: NodeJS.Signals) {
+    if (child.pid === undefined) return;
+    if (process.platform === 'win32') {
+        if (child.exitCode === null && child.signalCode === null) child.kill(signal);
+        return;
+    }
+    try {
+        process.kill(-child.pid, signal);
+    } catch (e: any) {
+        // ESRCH: nothing of the group is left
+        if (e.code !== 'ESRCH') child.kill(signal);
+    }
+}
+
+/**
+ * Close the pipes a while after the shell exits, so that 'close' is not
+ * held back forever by a background child that inherited them
+ */
+function closePipesAfterExit(child: ChildProcess) {
+    let timer: NodeJS.Timeout | undefined;
+    child.on('exit', () => {
+        timer = setTimeout(() => {
+            child.stdout?.destroy();
+            child.stderr?.destroy();
+        }, PIPE_GRACE_MS);
+    });
+    child.on('close', () => clearTimeout(timer));
+}
+
+export interface ShellResult {
+    /** stdout and stderr as they arrived, truncated to the output limit */
+    output: string;
+    exitCode: number | null;
+    timedOut: boolean;
+    cancelled: boolean;
+    durationMs: number;
+}
+
+export interface ShellOptions {
+    cwd: string;
+    /** ms; 0 for none */
+    timeout: number;
+    /** Characters of output returned */
+    outputLimit: number;
+    signal?: AbortSignal;
+    onOutput?: (stream: OutputStream, text: string) => void;
+}
+
+/**
+ * Run a command to completion. It is killed (with everything it started)
+ * on timeout or when `signal` aborts.
+ */
+export function runShell(command: string, options: ShellOptions): Promise<ShellResult> {
+    const start = Date.now();
+    const output = new OutputBuffer(options.outputLimit);
+    return new Promise((resolve) => {
+        const child = spawnShell(command, options.cwd);
+        closePipesAfterExit(child);
+        let timedOut = false;
+        let cancelled = false;
+        const stop = () => {
+            killTree(child, 'SIGTERM');
+            setTimeout(() => killTree(child, 'SIGKILL'), STOP_GRACE_MS).unref();
+        };
+        const timer = options.timeout > 0 ? setTimeout(() => { timedOut = true; stop(); }, options.timeout) : undefined;
+        const onAbort = () => { cancelled = true; stop(); };
+        options.signal?.addEventListener('abort', onAbort);
+
+        for (const stream of ['stdout', 'stderr'] as const) {
+            child[stream]!.setEncoding('utf-8');
+            child[stream]!.on('data', (text: string) => {
+                output.append(text);
+                options.onOutput?.(stream, text);
+            });
+        }
+
+        const finish = (exitCode: number | null, error?: Error) => {
+            if (timer) clearTimeout(timer);
+            // Background children are not waited for; start_process is for those
+            killTree(child, 'SIGTERM');
+            options.signal?.removeEventListener('abort', onAbort);
+            if (error) output.append(`${output.length > 0 ? '\n' : ''}${error.message}`);
+            resolve({ output: output.read(0, options.outputLimit), exitCode, timedOut, cancelled, durationMs: Date.now() - start });
+        };
+        child.on('error', (e) => finish(null, e));
+        child.on('close', (code) => finish(code));
+        if (options.signal?.aborted) onAbort();
+    });
+}
+
+export interface ProcessInfo {
+    id: string;
+    command: string;
+    pid?: number;
+    startedAt: number;
+    /** null while running (or when it was killed by a signal) */
+    exitCode: number | null;
+    running: boolean;
+}
+
+interface ManagedProcess extends ProcessInfo {
+    child: ChildProcess;
+    output: OutputBuffer;
+    /** Position up to which read() returned the output */
+    readOffset: number;
+    exited: Promise<void>;
+}
+
+/**
+ * Background processes started by the agent (dev servers, watchers). They
+ * are stopped by stopAll() when the CLI exits.
+ */
+export class ProcessManager {
+    private processes = new Map<string, ManagedProcess>();
+    private nextId = 1;
+    /** Notified when a running process prints something */
+    private listeners = new Set<() => void>();
+
+    start(command: string, cwd: string): ProcessInfo {
+        const running = [...this.processes.values()].filter(p => p.running).length;
+        if (running >= MAX_PROCESSES) {
+            throw new Error(`${running} background processes are running already; stop one with stop_process first`);
+        }
+        const child = spawnShell(command, cwd);
+        closePipesAfterExit(child);
+        const entry: ManagedProcess = {
+            id: `p${this.nextId++}`,
+            command,
+            pid: child.pid,
+            startedAt: Date.now(),
+            exitCode: null,
+            running: true,
+            child,
+            output: new OutputBuffer(MAX_BUFFERED_OUTPUT),
+            readOffset: 0,
+            exited: new Promise(resolve => {
+                child.on('close', (code) => {
+                    entry.running = false;
+                    entry.exitCode = code;
+                    this.notify();
+                    resolve();
+                });
+            })
+        };
+        child.on('error', (e) => entry.output.append(`${e.message}\n`));
+        for (const stream of ['stdout', 'stderr'] as const) {
+            child[stream]!.setEncoding('utf-8');
+            child[stream]!.on('data', (text: string) => {
+                entry.output.append(text);
+                this.notify();
+            });
+        }
+        this.processes.set(entry.id, entry);
+        return this.info(entry);
+    }
+
+    private notify() {
+        for (const listener of this.listeners) listener();
+    }
+
+    private info(entry: ManagedProcess): ProcessInfo {
+        const { id, command, pid, startedAt, exitCode, running } = entry;
+        return { id, command, pid, startedAt, exitCode, running };
+    }
+
+    private entry(id: string): ManagedProcess {
+        const entry = this.processes.get(id);
+        if (!entry) throw new Error(`No background process "${id}" (see list_processes)`);
+        return entry;
+    }
+
+    /**
+     * Wait up to `ms` for new output or the exit of a process
+     */
+    async waitForOutput(id: string, ms: number): Promise<void> {
+        const entry = this.entry(id);
+        if (!entry.running || entry.output.length > entry.readOffset || ms <= 0) return;
+        await new Promise<void>(resolve => {
+            const done = () => {
+                clearTimeout(timer);
+                this.listeners.delete(done);
+                resolve();
+            };
+            const timer = setTimeout(done, ms);
+            this.listeners.add(done);
+        });
+    }
+
+    /**
+     * Wait up to `ms` for a process to exit
+     */
+    async waitForExit(id: string, ms: number): Promise<void> {
+        const entry = this.entry(id);
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([entry.exited, new Promise<void>(resolve => { timer = setTimeout(resolve, ms); })]);
+        clearTimeout(timer);
+    }
+
+    /**
+     * Output printed since the last read, truncated to `limit` characters
+     */
+    read(id: string, limit: number): { info: ProcessInfo; output: string } {
+        const entry = this.entry(id);
+        const output = entry.output.read(entry.readOffset, limit);
+        entry.readOffset = entry.output.length;
+        return { info: this.info(entry), output };
+    }
+
+    /**
+     * SIGTERM, then SIGKILL if the process is still running after a grace period
+     */
+    async stop(id: string): Promise<ProcessInfo> {
+        const entry = this.entry(id);
+        // Also when the shell is gone: what it left in the background is in its group
+        killTree(entry.child, 'SIGTERM');
+        const timer = setTimeout(() => killTree(entry.child, 'SIGKILL'), STOP_GRACE_MS);
+        await entry.exited;
+        clearTimeout(timer);
+        return this.info(entry);
+    }
+
+    list(): ProcessInfo[] {
+        return [...this.processes.values()].map(p => this.info(p));
+    }
+
+    /** Kill every running process (synchronous, for process exit) */
+    stopAll() {
+        for (const entry of this.processes.values()) killTree(entry.child, 'SIGTERM');
+    }
+}
@@ -57,3 +57,19 @@ export function formatProjectContextForPrompt(ctx: ProjectContext): string {
     }
     return parts.join('\n');
 }
+
+export const PROJECT_CONFIG_FILE = path.join('.opencode', 'config.json');
+
+/**
+ * Find the nearest .opencode/config.json, walking up from cwd
+ */
+export function findProjectConfig(cwd: string = process.cwd()): string | undefined {
+    let dir = path.resolve(cwd);
+    while (true) {
+        const candidate = path.join(dir, PROJECT_CONFIG_FILE);
+        if (fs.existsSync(candidate)) return candidate;
+        const parent = path.dirname(dir);
+        if (parent === dir) return undefined;
+        dir = parent;
+    }
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execSync } from 'child_process';
+
+const USER_PROMPTS_DIR = path.join(os.homedir(), '.config', 'opencode', 'prompts');
+const PROJECT_PROMPTS_DIR = path.join('.opencode', 'prompts');
+
+export interface PromptVariables {
+    os: string;
+    shell: string;
+    cwd: string;
+    branch: string;
+    tools: string;
+    date: string;
+    [name: string]: string;
+}
+
+export const DEFAULT_SYSTEM_TEMPLATE = `You are OpenCode, an autonomous coding agent in the user's terminal.
+
+ENVIRONMENT: {{os}}, {{shell}}, CWD: {{cwd}}, git branch: {{branch}}, date: {{date}}
+
+TOOLS AVAILABLE:
+{{tools}}
+
+WORKFLOW:
+1. UNDERSTAND the request
+2. EXPLORE using list_files, read_file
+3. PLAN your approach
+4. EXECUTE using tools
+5. VERIFY your changes
+
+RULES:
+- Always read a file before editing
+- Use tools to interact with the filesystem
+- Be concise in responses
+- Handle errors and try alternatives
+
+Respond to user requests by using the available tools.`;
+
+interface ToolDefinitionLike {
+    function?: {
+        name?: string;
+        description?: string;
+        parameters?: { properties?: Record<string, unknown>; required?: string[] };
+    };
+}
+
+/**
+ * Render tool definitions as a bullet list: "- name(a, b?): description"
+ */
+export function formatToolsForPrompt(definitions: object[]): string {
+    const lines: string[] = [];
+    for (const def of definitions as ToolDefinitionLike[]) {
+        const fn = def.function;
+        if (!fn?.name) continue;
+        const required = fn.parameters?.required ?? [];
+        const params = Object.keys(fn.parameters?.properties ?? {})
+            .map(p => required.includes(p) ? p : `${p}?`);
+        lines.push(`- ${fn.name}(${params.join(', ')}): ${fn.description || 'No description'}`);
+    }
+    return lines.join('\n');
+}
+
+function getGitBranch(cwd: string): string {
+    try {
+        return execSync('git rev-parse --abbrev-ref HEAD', { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+    } catch (e) {
+        return 'none';
+    }
+}
+
+/**
+ * Collect the variables available to prompt templates
+ */
+export function getPromptVariables(toolDefinitions: object[], cwd: string = process.cwd()): PromptVariables {
+    const osType = process.platform === 'win32' ? 'Windows' : process.platform === 'darwin' ? 'macOS' : 'Linux';
+    return {
+        os: osType,
+        shell: osType === 'Windows' ? 'PowerShell' : 'bash',
+        cwd,
+        branch: getGitBranch(cwd),
+        tools: formatToolsForPrompt(toolDefinitions),
+        date: new Date().toISOString().slice(0, 10)
+    };
+}
+
+/**
+ * Replace {{name}} placeholders; unknown placeholders are left untouched
+ */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => vars[name] ?? match);
+}
+
+/**
+ * Load a prompt template by name. A project-local .opencode/prompts/<name>.md
+ * wins over ~/.config/opencode/prompts/<name>.md; returns null if neither exists.
+ */
+export function loadPromptTemplate(name: string, cwd: string = process.cwd()): { template: string; path: string } | null {
+    const candidates = [
+        path.join(cwd, PROJECT_PROMPTS_DIR, `${name}.md`),
+        path.join(USER_PROMPTS_DIR, `${name}.md`)
+    ];
+    for (const candidate of candidates) {
+        try {
+            if (fs.existsSync(candidate)) {
+                return { template: fs.readFileSync(candidate, 'utf-8'), path: candidate };
+            }
+        } catch (e) {
+            console.warn(`[prompts] Failed to read ${candidate}:`, (e as Error).message);
+        }
+    }
+    return null;
+}
+
+/**
+ * Build the system prompt from the user's template (or the default) and the
+ * tools the agent actually has.
+ */
+export function buildSystemPrompt(toolDefinitions: object[], cwd: string = process.cwd()): string {
+    const loaded = loadPromptTemplate('system', cwd);
+    return renderTemplate(loaded?.template ?? DEFAULT_SYSTEM_TEMPLATE, getPromptVariables(toolDefinitions, cwd));
+}
@@ -0,0 +1,605 @@
+import { Message } from './llm-client';
+import { ToolCall } from './tools';
+import { SamplingDefaults, ToolChoice } from './config-schema';
+import { LLMError, classifyHttpError } from './llm-errors';
+import { contentText, parseDataUrl } from './images';
+
+/**
+ * Provider adapters: each one maps our Message/ToolCall types to one chat
+ * API and back. LLMClient owns the transport (fetch, retries, timeouts,
+ * cancellation); adapters only build requests and parse responses.
+ */
+
+export type ProviderKind = 'openai' | 'ollama' | 'anthropic';
+
+export const PROVIDER_KINDS: ProviderKind[] = ['openai', 'ollama', 'anthropic'];
+
+export interface ProviderRequest {
+    model: string;
+    messages: Message[];
+    /** Tool definitions in OpenAI function format (TOOLS_DEFINITION) */
+    tools: object[];
+    stream: boolean;
+    /** Context window to request (Ollama's num_ctx) */
+    contextLength?: number;
+    sampling?: SamplingDefaults;
+}
+
+export interface ProviderConnection {
+    baseURL: string;
+    apiKey?: string;
+}
+
+export interface HttpRequest {
+    url: string;
+    headers: Record<string, string>;
+    body?: unknown;
+}
+
+/** Token counts as reported by the server */
+export interface ReportedUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface ProviderResponse {
+    message: Message;
+    usage?: ReportedUsage;
+}
+
+/**
+ * Consumes a streamed response line by line (SSE `data:` lines or NDJSON)
+ */
+export interface StreamParser {
+    push(line: string): void;
+    finish(): ProviderResponse;
+}
+
+export interface ProviderAdapter {
+    readonly kind: ProviderKind;
+    buildChatRequest(request: ProviderRequest, connection: ProviderConnection): HttpRequest;
+    parseResponse(data: any): ProviderResponse;
+    /** onReasoning gets reasoning sent in its own field (inline <think> tags are left to LLMClient) */
+    createStreamParser(onChunk: (text: string) => void, onReasoning?: (text: string) => void): StreamParser;
+    /** Request that lists the models the server offers (used by /ping) */
+    buildModelsRequest(connection: ProviderConnection): HttpRequest;
+    parseModels(data: any): string[];
+    /** Request for what the server knows about one model (used by /probe) */
+    buildModelInfoRequest(connection: ProviderConnection, model: string): HttpRequest;
+    /** Context window the server reports for the model, if it does */
+    parseContextLength(data: any, model: string): number | undefined;
+}
+
+interface OpenAIToolDefinition {
+    function?: { name?: string; description?: string; parameters?: unknown };
+}
+
+let callCounter = 0;
+
+function makeCallId(prefix: string): string {
+    callCounter++;
+    return `${prefix}_${callCounter}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(raw || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (_) {
+        return {};
+    }
+}
+
+function stringifyArguments(args: unknown): string {
+    if (typeof args === 'string') return args;
+    return JSON.stringify(args ?? {});
+}
+
+function positiveInt(value: unknown): number | undefined {
+    const n = typeof value === 'string' ? Number(value) : value;
+    return typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+/** Parse the JSON payload of an SSE `data:` line (null for other lines) */
+function sseData(line: string): any {
+    if (!line.startsWith('data:')) return null;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return null;
+    try {
+        return JSON.parse(payload);
+    } catch (_) {
+        return null;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible /chat/completions (vLLM, llama.cpp, LM Studio, the Colab server)
+// ---------------------------------------------------------------------------
+
+const openaiAdapter: ProviderAdapter = {
+    kind: 'openai',
+
+    buildChatRequest(request, connection) {
+        const body: Record<string, unknown> = {
+            model: request.model,
+            messages: request.messages.map(m => ({
+                role: m.role,
+                content: m.content,
+                tool_calls: m.tool_calls,
+                tool_call_id: m.tool_call_id,
+                name: m.name
+            })),
+            stream: request.stream
+        };
+        if (request.stream) body.stream_options = { include_usage: true };
+        const { tool_choice, ...sampling } = request.sampling ?? {};
+        Object.assign(body, sampling);
+        if (request.tools.length > 0) {
+            body.tools = request.tools;
+            // Servers reject tool_choice without tools
+            if (tool_choice) body.tool_choice = tool_choice;
+        }
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (connection.apiKey) headers['Authorization'] = `Bearer ${connection.apiKey}`;
+        return { url: `${connection.baseURL}/chat/completions`, headers, body };
+    },
+
+    parseResponse(data) {
+        const choice = data.choices[0];
+        const usage = data.usage && typeof data.usage.prompt_tokens === 'number'
+            ? { promptTokens: data.usage.prompt_tokens, completionTokens: data.usage.completion_tokens ?? 0 }
+            : undefined;
+        // reasoning_content: DeepSeek, vLLM and llama.cpp; reasoning: OpenRouter and newer vLLM
+        const reasoning = choice.message.reasoning_content || choice.message.reasoning;
+        return {
+            message: { role: 'assistant', content: choice.message.content, tool_calls: choice.message.tool_calls, ...(reasoning ? { reasoning } : {}) },
+            usage
+        };
+    },
+
+    createStreamParser(onChunk, onReasoning) {
+        let content = '';
+        let reasoning = '';
+        let usage: ReportedUsage | undefined;
+        const toolCallsAccum: Record<number, { id?: string; name?: string; args: string }> = {};
+
+        return {
+            push(line) {
+                const json = sseData(line);
+                if (!json) return;
+                // Sent in the final chunk when stream_options.include_usage is set
+                if (json.usage && typeof json.usage.prompt_tokens === 'number') {
+                    usage = { promptTokens: json.usage.prompt_tokens, completionTokens: json.usage.completion_tokens ?? 0 };
+                }
+                const delta = json.choices?.[0]?.delta;
+                const thinking = delta?.reasoning_content || delta?.reasoning;
+                if (thinking) {
+                    reasoning += thinking;
+                    onReasoning?.(thinking);
+                }
+                if (delta?.content) {
+                    content += delta.content;
+                    onChunk(delta.content);
+                }
+                if (delta?.tool_calls) {
+                    for (const tc of delta.tool_calls) {
+                        const idx = tc.index ?? 0;
+                        if (!toolCallsAccum[idx]) toolCallsAccum[idx] = { args: '' };
+                        if (tc.id) toolCallsAccum[idx].id = tc.id;
+                        if (tc.function?.name) toolCallsAccum[idx].name = tc.function.name;
+                        if (tc.function?.arguments) toolCallsAccum[idx].args += tc.function.arguments;
+                    }
+                }
+            },
+            finish() {
+                const toolCalls: ToolCall[] | undefined = Object.keys(toolCallsAccum).length > 0
+                    ? Object.values(toolCallsAccum).map(tc => ({
+                        id: tc.id,
+                        function: { name: tc.name || 'unknown', arguments: tc.args }
+                    }))
+                    : undefined;
+                return { message: { role: 'assistant', content: content || null, tool_calls: toolCalls, ...(reasoning ? { reasoning } : {}) }, usage };
+            }
+        };
+    },
+
+    buildModelsRequest(connection) {
+        const headers: Record<string, string> = {};
+        if (connection.apiKey) headers['Authorization'] = `Bearer ${connection.apiKey}`;
+        return { url: `${connection.baseURL}/models`, headers };
+    },
+
+    parseModels(data) {
+        return (data.data ?? []).map((m: any) => m.id);
+    },
+
+    buildModelInfoRequest(connection) {
+        return this.buildModelsRequest(connection);
+    },
+
+    parseContextLength(data, model) {
+        const entry = (data.data ?? []).find((m: any) => m.id === model);
+        if (!entry) return undefined;
+        // vLLM, OpenRouter, LM Studio, llama.cpp
+        return positiveInt(entry.max_model_len) ?? positiveInt(entry.context_length)
+            ?? positiveInt(entry.max_context_length) ?? positiveInt(entry.meta?.n_ctx_train);
+    }
+};
+
+// ---------------------------------------------------------------------------
+// Ollama native /api/chat
+// ---------------------------------------------------------------------------
+
+/** Ollama serves its native API at the root; tolerate a copied OpenAI-style /v1 suffix */
+function ollamaRoot(baseURL: string): string {
+    return baseURL.replace(/\/v1\/?$/, '').replace(/\/$/, '');
+}
+
+function fromOllamaToolCalls(calls: any[] | undefined): ToolCall[] | undefined {
+    if (!calls || calls.length === 0) return undefined;
+    // Ollama does not assign call ids
+    return calls.map(tc => ({
+        id: tc.id || makeCallId('call_ollama'),
+        function: { name: tc.function?.name ?? 'unknown', arguments: stringifyArguments(tc.function?.arguments) }
+    }));
+}
+
+// Errors about the request itself; the rest (busy, out of memory, a crashed runner) are worth retrying
+const OLLAMA_REQUEST_ERROR = /not found|try pulling|invalid|unsupported|context|num_ctx|too long/i;
+
+/**
+ * Ollama reports some errors in the body of a 200 response, and mid-stream,
+ * as {"error": "..."}. Classify them like the HTTP errors they stand for.
+ */
+function ollamaError(message: string): LLMError {
+    return classifyHttpError(OLLAMA_REQUEST_ERROR.test(message) ? 400 : 503, `Ollama error: ${message}`);
+}
+
+function ollamaUsage(data: any): ReportedUsage | undefined {
+    if (typeof data.prompt_eval_count !== 'number' && typeof data.eval_count !== 'number') return undefined;
+    return { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count ?? 0 };
+}
+
+const ollamaAdapter: ProviderAdapter = {
+    kind: 'ollama',
+
+    buildChatRequest(request, connection) {
+        const messages = request.messages.map(m => {
+            const out: Record<string, unknown> = { role: m.role, content: m.content ?? '' };
+            // Images go in a separate list of bare base64 strings
+            if (Array.isArray(m.content)) {
+                out.content = m.content.map(p => p.type === 'text' ? p.text : '').filter(Boolean).join('\n');
+                out.images = m.content.flatMap(p => p.type === 'image_url' ? [parseDataUrl(p.image_url.url)?.data ?? ''] : []).filter(Boolean);
+            }
+            if (m.tool_calls && m.tool_calls.length > 0) {
+                out.tool_calls = m.tool_calls.map(tc => ({
+                    function: { name: tc.function.name, arguments: parseArguments(tc.function.arguments) }
+                }));
+            }
+            if (m.role === 'tool' && m.name) out.tool_name = m.name;
+            return out;
+        });
+
+        // Ollama streams by default, so always say which one we want
+        const body: Record<string, unknown> = { model: request.model, messages, stream: request.stream };
+        if (request.tools.length > 0) body.tools = request.tools;
+        const options: Record<string, unknown> = {};
+        if (request.contextLength) options.num_ctx = request.contextLength;
+        if (request.sampling?.temperature !== undefined) options.temperature = request.sampling.temperature;
+        if (request.sampling?.top_p !== undefined) options.top_p = request.sampling.top_p;
+        if (request.sampling?.max_tokens !== undefined) options.num_predict = request.sampling.max_tokens;
+        if (request.sampling?.seed !== undefined) options.seed = request.sampling.seed;
+        if (request.sampling?.stop !== undefined) options.stop = ([] as string[]).concat(request.sampling.stop);
+        // Ollama has no tool_choice; 'none' can at least be honored by not offering tools
+        if (request.sampling?.tool_choice === 'none') delete body.tools;
+        if (Object.keys(options).length > 0) body.options = options;
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (connection.apiKey) headers['Authorization'] = `Bearer ${connection.apiKey}`;
+        return { url: `${ollamaRoot(connection.baseURL)}/api/chat`, headers, body };
+    },
+
+    parseResponse(data) {
+        if (data.error) throw ollamaError(String(data.error));
+        return {
+            message: {
+                role: 'assistant',
+                content: data.message?.content || null,
+                tool_calls: fromOllamaToolCalls(data.message?.tool_calls),
+                ...(data.message?.thinking ? { reasoning: data.message.thinking } : {})
+            },
+            usage: ollamaUsage(data)
+        };
+    },
+
+    createStreamParser(onChunk, onReasoning) {
+        let content = '';
+        let reasoning = '';
+        let usage: ReportedUsage | undefined;
+        const toolCalls: ToolCall[] = [];
+
+        return {
+            push(line) {
+                if (!line.trim()) return;
+                let json: any;
+                try {
+                    json = JSON.parse(line);
+                } catch (_) {
+                    return;
+                }
+                if (json.error) throw ollamaError(String(json.error));
+                const thinking = json.message?.thinking;
+                if (thinking) {
+                    reasoning += thinking;
+                    onReasoning?.(thinking);
+                }
+                const text = json.message?.content;
+                if (text) {
+                    content += text;
+                    onChunk(text);
+                }
+                toolCalls.push(...(fromOllamaToolCalls(json.message?.tool_calls) ?? []));
+                if (json.done) usage = ollamaUsage(json);
+            },
+            finish() {
+                return {
+                    message: {
+                        role: 'assistant',
+                        content: content || null,
+                        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+                        ...(reasoning ? { reasoning } : {})
+                    },
+                    usage
+                };
+            }
+        };
+    },
+
+    buildModelsRequest(connection) {
+        return { url: `${ollamaRoot(connection.baseURL)}/api/tags`, headers: {} };
+    },
+
+    parseModels(data) {
+        return (data.models ?? []).map((m: any) => m.name);
+    },
+
+    buildModelInfoRequest(connection, model) {
+        return { url: `${ollamaRoot(connection.baseURL)}/api/show`, headers: { 'Content-Type': 'application/json' }, body: { model } };
+    },
+
+    parseContextLength(data) {
+        // A num_ctx set in the Modelfile is what the server uses; the model's maximum otherwise
+        const numCtx = /(?:^|\n)num_ctx\s+(\d+)/.exec(data.parameters ?? '');
+        if (numCtx) return positiveInt(numCtx[1]);
+        const key = Object.keys(data.model_info ?? {}).find(k => k.endsWith('.context_length'));
+        return key ? positiveInt(data.model_info[key]) : undefined;
+    }
+};
+
+// ---------------------------------------------------------------------------
+// Anthropic-style /v1/messages
+// ---------------------------------------------------------------------------
+
+const ANTHROPIC_VERSION = '2023-06-01';
+/** max_tokens is required by the Messages API */
+const ANTHROPIC_MAX_TOKENS = 4096;
+
+type AnthropicBlock = Record<string, unknown>;
+
+function anthropicHeaders(connection: ProviderConnection): Record<string, string> {
+    const headers: Record<string, string> = { 'anthropic-version': ANTHROPIC_VERSION };
+    if (connection.apiKey) headers['x-api-key'] = connection.apiKey;
+    return headers;
+}
+
+/**
+ * System messages go to the top-level `system` field, tool results become
+ * tool_result blocks in a user turn, and consecutive turns of the same role
+ * are merged because the API requires alternating roles.
+ */
+function toAnthropicMessages(messages: Message[]): { system: string; messages: { role: string; content: AnthropicBlock[] }[] } {
+    const system: string[] = [];
+    const result: { role: string; content: AnthropicBlock[] }[] = [];
+    // Tool results without an id are matched to the oldest unanswered call
+    const pendingIds: string[] = [];
+
+    const append = (role: string, blocks: AnthropicBlock[]) => {
+        if (blocks.length === 0) return;
+        const last = result[result.length - 1];
+        if (last && last.role === role) last.content.push(...blocks);
+        else result.push({ role, content: blocks });
+    };
+
+    for (const m of messages) {
+        if (m.role === 'system') {
+            if (m.content) system.push(contentText(m.content));
+        } else if (m.role === 'tool') {
+            const id = m.tool_call_id || pendingIds[0] || makeCallId('toolu');
+            const idx = pendingIds.indexOf(id);
+            if (idx >= 0) pendingIds.splice(idx, 1);
+            append('user', [{ type: 'tool_result', tool_use_id: id, content: contentText(m.content) }]);
+        } else if (m.role === 'assistant') {
+            const blocks: AnthropicBlock[] = [];
+            if (m.content) blocks.push({ type: 'text', text: contentText(m.content) });
+            for (const tc of m.tool_calls ?? []) {
+                const id = tc.id || makeCallId('toolu');
+                pendingIds.push(id);
+                blocks.push({ type: 'tool_use', id, name: tc.function.name, input: parseArguments(tc.function.arguments) });
+            }
+            append('assistant', blocks);
+        } else {
+            append('user', toAnthropicUserBlocks(m.content));
+        }
+    }
+    return { system: system.join('\n\n'), messages: result };
+}
+
+function toAnthropicUserBlocks(content: Message['content']): AnthropicBlock[] {
+    if (!Array.isArray(content)) return [{ type: 'text', text: content ?? '' }];
+    return content.map(p => {
+        if (p.type === 'text') return { type: 'text', text: p.text };
+        const image = parseDataUrl(p.image_url.url);
+        return image
+            ? { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } }
+            : { type: 'image', source: { type: 'url', url: p.image_url.url } };
+    });
+}
+
+function fromAnthropicContent(blocks: any[]): Message {
+    const text = blocks.filter(b => b.type === 'text').map(b => b.text).join('');
+    const reasoning = blocks.filter(b => b.type === 'thinking').map(b => b.thinking).join('\n\n');
+    const toolCalls: ToolCall[] = blocks
+        .filter(b => b.type === 'tool_use')
+        .map(b => ({ id: b.id, function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }));
+    return {
+        role: 'assistant',
+        content: text || null,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        ...(reasoning ? { reasoning } : {})
+    };
+}
+
+function toAnthropicToolChoice(choice: ToolChoice): object {
+    if (choice === 'required') return { type: 'any' };
+    if (choice === 'auto' || choice === 'none') return { type: choice };
+    return { type: 'tool', name: choice.function.name };
+}
+
+const anthropicAdapter: ProviderAdapter = {
+    kind: 'anthropic',
+
+    buildChatRequest(request, connection) {
+        const { system, messages } = toAnthropicMessages(request.messages);
+        const body: Record<string, unknown> = {
+            model: request.model,
+            max_tokens: request.sampling?.max_tokens ?? ANTHROPIC_MAX_TOKENS,
+            messages,
+            stream: request.stream
+        };
+        if (request.sampling?.temperature !== undefined) body.temperature = request.sampling.temperature;
+        if (request.sampling?.top_p !== undefined) body.top_p = request.sampling.top_p;
+        if (request.sampling?.stop !== undefined) body.stop_sequences = ([] as string[]).concat(request.sampling.stop);
+        if (system) body.system = system;
+        if (request.tools.length > 0) {
+            body.tools = (request.tools as OpenAIToolDefinition[])
+                .filter(t => t.function?.name)
+                .map(t => ({ name: t.function!.name, description: t.function!.description, input_schema: t.function!.parameters ?? { type: 'object', properties: {} } }));
+            if (request.sampling?.tool_choice) body.tool_choice = toAnthropicToolChoice(request.sampling.tool_choice);
+        }
+        return {
+            url: `${connection.baseURL}/messages`,
+            headers: { 'Content-Type': 'application/json', ...anthropicHeaders(connection) },
+            body
+        };
+    },
+
+    parseResponse(data) {
+        const usage = data.usage
+            ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+            : undefined;
+        return { message: fromAnthropicContent(data.content ?? []), usage };
+    },
+
+    createStreamParser(onChunk, onReasoning) {
+        const blocks: any[] = [];
+        const partialJson: Record<number, string> = {};
+        let promptTokens: number | undefined;
+        let completionTokens: number | undefined;
+
+        return {
+            push(line) {
+                // `event:` lines are redundant, every data payload carries its type
+                const json = sseData(line);
+                if (!json) return;
+                switch (json.type) {
+                    case 'message_start':
+                        promptTokens = json.message?.usage?.input_tokens;
+                        completionTokens = json.message?.usage?.output_tokens;
+                        break;
+                    case 'content_block_start':
+                        blocks[json.index] = { ...json.content_block };
+                        if (json.content_block?.type === 'text') blocks[json.index].text = '';
+                        if (json.content_block?.type === 'thinking') blocks[json.index].thinking = '';
+                        if (json.content_block?.type === 'tool_use') partialJson[json.index] = '';
+                        break;
+                    case 'content_block_delta': {
+                        const block = blocks[json.index];
+                        if (!block) break;
+                        if (json.delta?.type === 'text_delta') {
+                            block.text += json.delta.text;
+                            onChunk(json.delta.text);
+                        } else if (json.delta?.type === 'thinking_delta') {
+                            block.thinking += json.delta.thinking;
+                            onReasoning?.(json.delta.thinking);
+                        } else if (json.delta?.type === 'input_json_delta') {
+                            partialJson[json.index] += json.delta.partial_json;
+                        }
+                        break;
+                    }
+                    case 'content_block_stop':
+                        if (partialJson[json.index] !== undefined && blocks[json.index]) {
+                            blocks[json.index].input = parseArguments(partialJson[json.index]);
+                        }
+                        break;
+                    case 'message_delta':
+                        if (typeof json.usage?.output_tokens === 'number') completionTokens = json.usage.output_tokens;
+                        break;
+                    case 'error': {
+                        // Errors after the 200 header: map the error type to its status
+                        const status = json.error?.type === 'overloaded_error' ? 529
+                            : json.error?.type === 'rate_limit_error' ? 429
+                                : json.error?.type === 'api_error' ? 500 : 400;
+                        throw classifyHttpError(status, json.error?.message ?? 'stream error');
+                    }
+                }
+            },
+            finish() {
+                const usage = promptTokens !== undefined
+                    ? { promptTokens, completionTokens: completionTokens ?? 0 }
+                    : undefined;
+                return { message: fromAnthropicContent(blocks.filter(Boolean)), usage };
+            }
+        };
+    },
+
+    buildModelsRequest(connection) {
+        return { url: `${connection.baseURL}/models`, headers: anthropicHeaders(connection) };
+    },
+
+    parseModels(data) {
+        return (data.data ?? []).map((m: any) => m.id);
+    },
+
+    buildModelInfoRequest(connection, model) {
+        return { url: `${connection.baseURL}/models/${encodeURIComponent(model)}`, headers: anthropicHeaders(connection) };
+    },
+
+    parseContextLength(data) {
+        return positiveInt(data.max_input_tokens) ?? positiveInt(data.context_window);
+    }
+};
+
+const ADAPTERS: Record<ProviderKind, ProviderAdapter> = {
+    openai: openaiAdapter,
+    ollama: ollamaAdapter,
+    anthropic: anthropicAdapter
+};
+
+export function getProviderAdapter(kind: ProviderKind = 'openai'): ProviderAdapter {
+    return ADAPTERS[kind] ?? openaiAdapter;
+}
+
+/**
+ * Provider kind from a config entry: an explicit "type", else a guess from
+ * the opencode.ai style "npm" package name, else OpenAI-compatible.
+ */
+export function resolveProviderKind(entry: { type?: unknown; npm?: unknown } | undefined): ProviderKind {
+    if (typeof entry?.type === 'string' && PROVIDER_KINDS.includes(entry.type as ProviderKind)) {
+        return entry.type as ProviderKind;
+    }
+    const npm = typeof entry?.npm === 'string' ? entry.npm : '';
+    if (npm.includes('anthropic')) return 'anthropic';
+    if (npm.includes('ollama')) return 'ollama';
+    return 'openai';
+}
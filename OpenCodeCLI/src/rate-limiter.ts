@@ -0,0 +1,109 @@
+import { createAbortError } from './llm-errors';
+
+export interface RateLimits {
+    /** Requests started in any 60s window */
+    requestsPerMinute?: number;
+    /** Requests in flight at the same time */
+    maxConcurrent?: number;
+}
+
+const WINDOW_MS = 60000;
+
+/**
+ * setTimeout as a promise that rejects with an AbortError on cancellation
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError('Cancelled by user'));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError('Cancelled by user'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Client-side limits for LLM requests. One instance lives in LLMClient, so the
+ * main agent, sub-agents and compaction all draw from the same budget.
+ */
+export class RateLimiter {
+    private starts: number[] = [];
+    private active = 0;
+    private waiters: (() => void)[] = [];
+    private pausedUntil = 0;
+
+    constructor(private limits: RateLimits = {}) {}
+
+    setLimits(limits: RateLimits) {
+        this.limits = limits;
+        this.wakeUp();
+    }
+
+    /**
+     * Hold every request back until `until` (after a 429 with Retry-After)
+     */
+    pauseUntil(until: number) {
+        this.pausedUntil = Math.max(this.pausedUntil, until);
+    }
+
+    /**
+     * Wait for a slot. Call the returned function when the request is done.
+     */
+    async acquire(signal?: AbortSignal): Promise<() => void> {
+        for (;;) {
+            if (signal?.aborted) throw createAbortError('Cancelled by user');
+            const now = Date.now();
+            this.starts = this.starts.filter(t => now - t < WINDOW_MS);
+
+            const { requestsPerMinute, maxConcurrent } = this.limits;
+            if (maxConcurrent && this.active >= maxConcurrent) {
+                await this.waitForRelease(signal);
+                continue;
+            }
+            let wait = this.pausedUntil - now;
+            if (requestsPerMinute && this.starts.length >= requestsPerMinute) {
+                wait = Math.max(wait, this.starts[0] + WINDOW_MS - now);
+            }
+            if (wait > 0) {
+                await sleep(wait, signal);
+                continue;
+            }
+
+            this.active++;
+            this.starts.push(now);
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                this.active--;
+                this.wakeUp();
+            };
+        }
+    }
+
+    private waitForRelease(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const waiter = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                this.waiters = this.waiters.filter(w => w !== waiter);
+                reject(createAbortError('Cancelled by user'));
+            };
+            this.waiters.push(waiter);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private wakeUp() {
+        const waiters = this.waiters;
+        this.waiters = [];
+        for (const waiter of waiters) waiter();
+    }
+}
@@ -0,0 +1,123 @@
+import { Message } from './llm-client';
+
+/**
+ * Reasoning ("thinking") models such as qwen3 and deepseek-r1 either send
+ * their reasoning in a separate field (reasoning_content, Ollama's thinking,
+ * Anthropic thinking blocks) or inline as <think>...</think>. Both end up in
+ * Message.reasoning so the answer in `content` is clean.
+ */
+
+const OPEN = '<think>';
+const CLOSE = '</think>';
+
+/** How the REPL shows reasoning */
+export type ReasoningDisplay = 'collapsed' | 'full' | 'hidden';
+
+export const REASONING_DISPLAYS: ReasoningDisplay[] = ['collapsed', 'full', 'hidden'];
+
+export interface ReasoningConfig {
+    /** Default 'collapsed' */
+    display?: ReasoningDisplay;
+    /** Send earlier reasoning back to the model as <think> blocks (default false) */
+    keepInHistory?: boolean;
+}
+
+/**
+ * Split <think> blocks out of a complete text
+ */
+export function splitThinkTags(text: string): { content: string; reasoning: string } {
+    const reasoning: string[] = [];
+    let content = text;
+
+    // Chat templates often open the block in the prompt, so the reply starts inside it
+    const firstClose = content.indexOf(CLOSE);
+    const firstOpen = content.indexOf(OPEN);
+    if (firstClose !== -1 && (firstOpen === -1 || firstClose < firstOpen)) {
+        reasoning.push(content.slice(0, firstClose));
+        content = content.slice(firstClose + CLOSE.length);
+    }
+    // An unclosed block (cut off by max_tokens) is reasoning up to the end
+    content = content.replace(/<think>([\s\S]*?)(?:<\/think>|$)/g, (_, inner: string) => {
+        reasoning.push(inner);
+        return '';
+    });
+
+    const parts = reasoning.map(r => r.trim()).filter(Boolean);
+    return { content: reasoning.length > 0 ? content.trimStart() : content, reasoning: parts.join('\n\n') };
+}
+
+/**
+ * Move inline <think> blocks of a parsed reply into `reasoning`, after any
+ * reasoning the provider sent in its own field
+ */
+export function separateReasoning(message: Message): Message {
+    if (typeof message.content !== 'string' || (!message.content.includes(OPEN) && !message.content.includes(CLOSE))) return message;
+    const { content, reasoning } = splitThinkTags(message.content);
+    const combined = [message.reasoning, reasoning].filter(Boolean).join('\n\n');
+    return { ...message, content: content || null, ...(combined ? { reasoning: combined } : {}) };
+}
+
+/**
+ * Put reasoning back in front of the content, for config.reasoning.keepInHistory
+ */
+export function inlineReasoning(messages: Message[]): Message[] {
+    return messages.map(m => m.role === 'assistant' && m.reasoning
+        ? { ...m, content: `${OPEN}\n${m.reasoning}\n${CLOSE}\n${m.content ?? ''}` }
+        : m);
+}
+
+/** Length of the longest end of `text` that could be the start of `tag` */
+function partialTagLength(text: string, tag: string): number {
+    for (let n = Math.min(tag.length - 1, text.length); n > 0; n--) {
+        if (text.endsWith(tag.slice(0, n))) return n;
+    }
+    return 0;
+}
+
+/**
+ * Routes streamed content chunks to content or reasoning as <think> tags
+ * open and close, including tags split across chunks
+ */
+export class ThinkTagStream {
+    private pending = '';
+    private inThink = false;
+    /** Drop the blank lines that usually follow </think> */
+    private trimNext = false;
+
+    constructor(private onContent: (text: string) => void, private onReasoning: (text: string) => void) {}
+
+    push(chunk: string) {
+        this.pending += chunk;
+        for (;;) {
+            const tag = this.inThink ? CLOSE : OPEN;
+            const index = this.pending.indexOf(tag);
+            if (index !== -1) {
+                this.emit(this.pending.slice(0, index));
+                this.pending = this.pending.slice(index + tag.length);
+                this.inThink = !this.inThink;
+                this.trimNext = true;
+                continue;
+            }
+            const keep = partialTagLength(this.pending, tag);
+            this.emit(this.pending.slice(0, this.pending.length - keep));
+            this.pending = this.pending.slice(this.pending.length - keep);
+            return;
+        }
+    }
+
+    flush() {
+        this.emit(this.pending);
+        this.pending = '';
+    }
+
+    private emit(text: string) {
+        if (this.trimNext) {
+            text = text.replace(/^\s+/, '');
+            if (!text) return;
+            this.trimNext = false;
+        }
+        if (!text) return;
+        if (this.inThink) this.onReasoning(text);
+        else this.onContent(text);
+    }
+}
@@ -0,0 +1,204 @@
+import chalk from 'chalk';
+import ora, { Ora } from 'ora';
+import { marked } from 'marked';
+import { Agent } from './agent';
+import { AgentEvents } from './events';
+import { ReasoningDisplay } from './reasoning';
+
+export interface TerminalRendererOptions {
+    /** Tokens are printed as they stream in instead of rendering markdown at the end */
+    stream?: boolean;
+    debug?: boolean;
+    /** Suppress the spinner and tool banners */
+    quiet?: boolean;
+    /** How to show the reasoning of thinking models (default 'collapsed') */
+    reasoning?: ReasoningDisplay;
+}
+
+const COLLAPSED_REASONING_LINES = 3;
+
+/**
+ * Reasoning shown dimmed; collapsed keeps the first lines and says how to see the rest
+ */
+export function formatReasoning(reasoning: string, display: ReasoningDisplay): string {
+    const lines = reasoning.trim().split('\n');
+    const shown = display === 'collapsed' ? lines.slice(0, COLLAPSED_REASONING_LINES) : lines;
+    const more = lines.length - shown.length;
+    return chalk.dim(`   💭 ${shown.join('\n      ')}`) +
+        (more > 0 ? chalk.dim.italic(`\n      ... ${more} more line(s), /reasoning to expand`) : '');
+}
+
+/**
+ * Render agent events to the terminal: spinner, tool banners, streamed
+ * tokens and the final markdown answer. Returns a function that detaches it.
+ */
+export function attachTerminalRenderer(agent: Agent, options: TerminalRendererOptions = {}): () => void {
+    let spinner: Ora | null = null;
+    let streamed = false;
+    const reasoningDisplay = options.reasoning ?? 'collapsed';
+    // Reasoning streamed for the current response, and whether it was shown yet
+    let reasoningText = '';
+    let reasoningShown = false;
+    // Command output not yet ended by a newline
+    let partialOutput = '';
+
+    const stopSpinner = () => {
+        if (spinner?.isSpinning) spinner.stop();
+    };
+
+    // Print above the spinner without garbling it
+    const print = (text: string) => {
+        if (spinner?.isSpinning) {
+            spinner.clear();
+            console.log(text);
+            spinner.render();
+        } else {
+            console.log(text);
+        }
+    };
+    /** Print the last line of command output when it did not end with a newline */
+    const flushOutput = () => {
+        if (partialOutput) print(chalk.dim(`   │ ${partialOutput}`));
+        partialOutput = '';
+    };
+
+    const handlers: { [K in keyof AgentEvents]?: (payload: AgentEvents[K]) => void } = {
+        'turn:start': () => {
+            streamed = false;
+            if (!options.quiet) spinner = ora('Thinking...').start();
+        },
+        'compaction:start': () => {
+            if (spinner) spinner.text = 'Compacting history...';
+        },
+        'compaction:end': ({ result }) => {
+            if (spinner) spinner.text = 'Thinking...';
+            if (result.summarized > 0 || result.stubbed > 0) {
+                print(chalk.gray(`   🗜️  Compacted history: ~${result.tokensBefore} → ~${result.tokensAfter} tokens`));
+            }
+        },
+        'token': ({ text }) => {
+            if (!options.stream) return;
+            stopSpinner();
+            if (reasoningText && !reasoningShown && reasoningDisplay !== 'hidden') {
+                // Full reasoning was streamed live; collapsed is printed before the answer starts
+                if (reasoningDisplay === 'full') process.stdout.write('\n\n');
+                else console.log(formatReasoning(reasoningText, reasoningDisplay));
+                reasoningShown = true;
+            }
+            streamed = true;
+            process.stdout.write(text);
+        },
+        'reasoning': ({ text }) => {
+            const first = !reasoningText;
+            reasoningText += text;
+            if (reasoningDisplay === 'hidden') return;
+            if (reasoningDisplay === 'collapsed') {
+                if (spinner) spinner.text = `Reasoning... (${reasoningText.length} chars)`;
+                return;
+            }
+            stopSpinner();
+            process.stdout.write(chalk.dim(first ? `   💭 ${text}` : text));
+        },
+        'llm:response': ({ message }) => {
+            if (message.reasoning && reasoningDisplay !== 'hidden' && !reasoningShown) {
+                // Without an answer (only tool calls) the streamed reasoning just needs its line ended
+                if (options.stream && reasoningDisplay === 'full' && reasoningText) process.stdout.write('\n');
+                else print(formatReasoning(message.reasoning, reasoningDisplay));
+            }
+            reasoningText = '';
+            reasoningShown = false;
+            if (spinner && message.tool_calls && message.tool_calls.length > 0) {
+                if (streamed) {
+                    process.stdout.write('\n');
+                    streamed = false;
+                }
+                spinner.text = `Executing ${message.tool_calls.length} tools...`;
+                if (!spinner.isSpinning) spinner.start();
+            }
+        },
+        'llm:switch': ({ use, from, to, reason, error }) => {
+            const what = use === 'main' ? '' : ` for ${use}`;
+            print(reason === 'failure'
+                ? chalk.yellow(`   ⚠️  ${from} failed${error ? ` (${error.slice(0, 120)})` : ''}; switching to ${to}${what}`)
+                : chalk.green(`   ✅ ${to} is reachable again; switching back from ${from}${what}`));
+        },
+        'llm:retry': ({ attempt, maxRetries, delayMs, error }) => {
+            const msg = `${error.slice(0, 120)}; retrying in ${(delayMs / 1000).toFixed(1)}s (${attempt}/${maxRetries})`;
+            if (spinner?.isSpinning) spinner.text = msg;
+            else if (!options.quiet) print(chalk.yellow(`   ⚠️  ${msg}`));
+        },
+        'tool:start': ({ call }) => {
+            if (spinner) spinner.text = `Executing tool: ${call.function.name}...`;
+        },
+        'tool:log': ({ message }) => {
+            if (!options.quiet) print(message);
+        },
+        'tool:output': ({ text }) => {
+            if (options.quiet) return;
+            const lines = (partialOutput + text).split('\n');
+            partialOutput = lines.pop()!;
+            for (const line of lines) print(chalk.dim(`   │ ${line}`));
+        },
+        'tool:finish': ({ durationMs }) => {
+            flushOutput();
+            if (options.debug) print(chalk.gray(`   (${durationMs}ms)`));
+            if (spinner) spinner.text = 'Analyzing results...';
+        },
+        'turn:end': ({ response, mode }) => {
+            stopSpinner();
+            // Plans are shown by the approval flow
+            if (mode !== 'chat') return;
+            if (options.stream) {
+                process.stdout.write('\n');
+            } else if (response) {
+                process.stdout.write(marked.parse(response) as string);
+                process.stdout.write('\n');
+            }
+        },
+        'verify:start': ({ command, attempt }) => {
+            stopSpinner();
+            spinner = options.quiet ? null : ora(`Verifying${attempt > 1 ? ` (attempt ${attempt})` : ''}: ${command}`).start();
+        },
+        'verify:result': ({ result, attempt, maxAttempts }) => {
+            flushOutput();
+            const secs = (result.durationMs / 1000).toFixed(1);
+            if (result.passed) {
+                const msg = `Verification passed: ${result.command} (${secs}s)`;
+                if (spinner) spinner.succeed(msg);
+                else console.log(chalk.green(`   ✅ ${msg}`));
+                return;
+            }
+            const msg = attempt > maxAttempts
+                ? `Verification still failing after ${maxAttempts} fix attempt(s): ${result.command}`
+                : `Verification failed: ${result.command} (exit ${result.exitCode ?? '?'}). Asking the model to fix it (${attempt}/${maxAttempts})...`;
+            if (spinner) spinner.fail(msg);
+            else console.log(chalk.red(`   ❌ ${msg}`));
+        },
+        'step-limit': ({ steps }) => {
+            if (spinner) spinner.warn(`Stopped after ${steps} steps without a final answer`);
+            else console.log(chalk.yellow(`   ⚠️  Stopped after ${steps} steps without a final answer`));
+        },
+        'turn:cancelled': () => {
+            if (spinner) spinner.warn('Cancelled');
+        },
+        'turn:error': ({ error }) => {
+            if (spinner) spinner.fail('An error occurred');
+            console.error('\n   Error details:', error.message);
+            if (options.debug && error.stack) {
+                console.error('   Stack:', error.stack);
+            }
+        }
+    };
+
+    const entries = Object.entries(handlers) as [keyof AgentEvents, (payload: any) => void][];
+    for (const [event, handler] of entries) {
+        agent.on(event, handler);
+    }
+
+    return () => {
+        stopSpinner();
+        for (const [event, handler] of entries) {
+            agent.off(event, handler);
+        }
+    };
+}
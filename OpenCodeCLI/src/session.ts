@@ -12,6 +12,14 @@ export function loadSession(filePath: string): Message[] {
     if (!Array.isArray(data)) {
         throw new Error('Invalid session format: expected array of messages');
     }
+    data.forEach((m: any, i: number) => {
+        // Messages with images keep their content parts (text and base64 image_url)
+        const validParts = Array.isArray(m?.content) && m.content.every((p: any) =>
+            (p?.type === 'text' && typeof p.text === 'string') || (p?.type === 'image_url' && typeof p.image_url?.url === 'string'));
+        if (m?.content != null && typeof m.content !== 'string' && !validParts) {
+            throw new Error(`Invalid session format: message ${i} has unsupported content`);
+        }
+    });
     return data as Message[];
 }
 
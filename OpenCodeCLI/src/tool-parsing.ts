@@ -0,0 +1,151 @@
+import { Message } from './llm-client';
+import { ToolCall } from './tools';
+
+/**
+ * Extraction of tool calls that a model wrote into its text content instead
+ * of the `tool_calls` field, plus the prompt-based tool calling used for
+ * endpoints that reject the `tools` request field.
+ */
+
+export interface ExtractedToolCalls {
+    toolCalls: ToolCall[];
+    /** The content with the tool call blocks removed (null if nothing is left) */
+    content: string | null;
+}
+
+interface ToolDefinitionLike {
+    function?: { name?: string; description?: string; parameters?: unknown };
+}
+
+// <tool_call>{...}</tool_call> (Hermes / Qwen) and <function_call>{...}</function_call>
+const TAGGED_JSON = /<(tool_call|function_call)>\s*([\s\S]*?)\s*<\/\1>/g;
+// <function=name>{...}</function> (Llama 3.1)
+const FUNCTION_TAG = /<function=([\w.-]+)>\s*([\s\S]*?)\s*<\/function>/g;
+// ```json {...} ``` and ```tool_call {...} ```
+const FENCED_JSON = /```(?:json|tool_call|tool|function)?\s*\n?([\s\S]*?)```/g;
+
+let callCounter = 0;
+
+function makeCallId(): string {
+    callCounter++;
+    return `call_text_${callCounter}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function getToolNames(definitions: object[]): string[] {
+    return (definitions as ToolDefinitionLike[])
+        .map(d => d.function?.name)
+        .filter((n): n is string => !!n);
+}
+
+function tryParseJson(text: string): unknown {
+    try {
+        return JSON.parse(text.trim());
+    } catch (_) {
+        return undefined;
+    }
+}
+
+/**
+ * Normalize the many shapes models use: {name, arguments}, {name, parameters},
+ * {tool, args}, {function: {name, arguments}} and arrays of those.
+ */
+function toToolCalls(value: unknown, knownTools: string[], nameOverride?: string): ToolCall[] {
+    if (Array.isArray(value)) {
+        return value.flatMap(v => toToolCalls(v, knownTools));
+    }
+    if (!value || typeof value !== 'object') return [];
+
+    const obj = value as Record<string, any>;
+    const inner = obj.function && typeof obj.function === 'object' ? obj.function : obj;
+    const name = nameOverride ?? inner.name ?? inner.tool ?? inner.tool_name;
+    if (typeof name !== 'string' || !knownTools.includes(name)) return [];
+
+    let args = nameOverride ? obj : (inner.arguments ?? inner.parameters ?? inner.args ?? inner.input ?? {});
+    if (typeof args === 'string') {
+        const parsed = tryParseJson(args);
+        args = parsed === undefined ? {} : parsed;
+    }
+    return [{ id: makeCallId(), function: { name, arguments: JSON.stringify(args) } }];
+}
+
+/**
+ * Find tool calls written as text. Only calls to known tools are accepted so
+ * that example JSON in an answer is not mistaken for a call.
+ */
+export function extractToolCalls(content: string, knownTools: string[]): ExtractedToolCalls {
+    const toolCalls: ToolCall[] = [];
+    let remaining = content;
+
+    const consume = (regex: RegExp, handler: (match: RegExpExecArray) => ToolCall[]) => {
+        remaining = remaining.replace(regex, (...args) => {
+            const match = args.slice(0, -2) as unknown as RegExpExecArray;
+            const calls = handler(match);
+            if (calls.length === 0) return match[0];
+            toolCalls.push(...calls);
+            return '';
+        });
+    };
+
+    consume(TAGGED_JSON, m => toToolCalls(tryParseJson(m[2]), knownTools));
+    consume(FUNCTION_TAG, m => toToolCalls(tryParseJson(m[2]) ?? {}, knownTools, m[1]));
+    if (toolCalls.length === 0) {
+        consume(FENCED_JSON, m => toToolCalls(tryParseJson(m[1]), knownTools));
+    }
+    if (toolCalls.length === 0) {
+        // The whole reply is a bare JSON tool call
+        const calls = toToolCalls(tryParseJson(remaining), knownTools);
+        if (calls.length > 0) {
+            toolCalls.push(...calls);
+            remaining = '';
+        }
+    }
+
+    const rest = remaining.trim();
+    return { toolCalls, content: rest ? rest : null };
+}
+
+/**
+ * Instructions and schemas injected into the system prompt when the endpoint
+ * does not accept the `tools` field.
+ */
+export function formatToolPrompt(definitions: object[]): string {
+    const schemas = (definitions as ToolDefinitionLike[])
+        .filter(d => d.function?.name)
+        .map(d => JSON.stringify({ name: d.function!.name, description: d.function!.description, parameters: d.function!.parameters }));
+
+    return `# Tool calling
+You can call tools. To call one, reply with one or more blocks in exactly this format and nothing else:
+<tool_call>{"name": "<tool name>", "arguments": {<arguments as JSON>}}</tool_call>
+Tool results are sent back to you in <tool_response> blocks. When you are done, answer normally without any <tool_call> block.
+
+Available tools (JSON schema):
+${schemas.join('\n')}`;
+}
+
+/**
+ * Rewrite a conversation for prompt-based tool calling: inject the tool
+ * schemas into the system prompt, turn assistant tool_calls into
+ * <tool_call> text and tool results into user <tool_response> messages.
+ */
+export function toPromptToolMessages(messages: Message[], definitions: object[]): Message[] {
+    const toolPrompt = formatToolPrompt(definitions);
+    const result: Message[] = [];
+
+    for (const m of messages) {
+        if (m.role === 'assistant' && m.tool_calls && m.tool_calls.length > 0) {
+            const calls = m.tool_calls.map(tc => `<tool_call>{"name": ${JSON.stringify(tc.function.name)}, "arguments": ${tc.function.arguments || '{}'}}</tool_call>`);
+            result.push({ role: 'assistant', content: [m.content, ...calls].filter(Boolean).join('\n') });
+        } else if (m.role === 'tool') {
+            result.push({ role: 'user', content: `<tool_response name="${m.name || 'tool'}">\n${m.content ?? ''}\n</tool_response>` });
+        } else {
+            result.push({ role: m.role, content: m.content });
+        }
+    }
+
+    if (result[0]?.role === 'system') {
+        result[0] = { role: 'system', content: `${result[0].content ?? ''}\n\n${toolPrompt}` };
+    } else {
+        result.unshift({ role: 'system', content: toolPrompt });
+    }
+    return result;
+}
@@ -6,6 +6,13 @@ import chalk from 'chalk';
 import * as readlineSync from 'readline-sync';
 import { logVerbose } from './logger';
 import { auditLog } from './audit';
+import { TypedEventEmitter, ToolExecutorEvents } from './events';
+import { CheckpointStore } from './checkpoints';
+import { PathAccess, PathAccessError, Workspace } from './workspace';
+import { ProcessManager, runShell } from './processes';
+import { applyHunks, HunkResult, parsePatch } from './patch';
+import { detectImageType, formatBytes, imageDimensions } from './images';
+import { alwaysRule, ApprovalAnswer, DEFAULT_COMMAND_RULES, PermissionAction, PermissionEngine, PermissionRequest, PermissionSection, PermissionsConfig } from './permissions';
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -45,11 +52,14 @@ export const TOOLS_DEFINITION = [
         type: 'function',
         function: {
             name: 'read_file',
-            description: 'Read the contents of a file',
+            description: 'Read a text file. Lines are prefixed with their number and a tab (not part of the file). Long files are cut off with a hint for the next start_line; binary files only get a description.',
             parameters: {
                 type: 'object',
                 properties: {
-                    path: { type: 'string', description: 'File path' }
+                    path: { type: 'string', description: 'File path' },
+                    start_line: { type: 'number', description: 'First line to read (1-based, default 1)' },
+                    end_line: { type: 'number', description: 'Last line to read (inclusive, default: as much as fits)' },
+                    line_numbers: { type: 'boolean', description: 'Prefix lines with their number (default true)' }
                 },
                 required: ['path']
             }
@@ -73,7 +83,22 @@ export const TOOLS_DEFINITION = [
         type: 'function',
         function: {
             name: 'run_command',
-            description: 'Run a shell command',
+            description: 'Run a shell command and wait for it to finish. Use start_process for servers and watchers.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    command: { type: 'string', description: 'Command to run' },
+                    timeout: { type: 'number', description: 'Seconds before the command is killed (default 120)' }
+                },
+                required: ['command']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'start_process',
+            description: 'Start a long-running command (dev server, watcher) in the background. Returns its id and first output.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -83,6 +108,47 @@ export const TOOLS_DEFINITION = [
             }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'read_process_output',
+            description: 'Get the output a background process printed since the last read, and whether it is still running',
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: 'Process id from start_process' },
+                    wait: { type: 'number', description: 'Seconds to wait for new output (default 0)' }
+                },
+                required: ['id']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'stop_process',
+            description: 'Stop a background process',
+            parameters: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string', description: 'Process id from start_process' }
+                },
+                required: ['id']
+            }
+        }
+    },
+    {
+        type: 'function',
+        function: {
+            name: 'list_processes',
+            description: 'List background processes with their status',
+            parameters: {
+                type: 'object',
+                properties: {},
+                required: []
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -179,18 +245,34 @@ export const TOOLS_DEFINITION = [
         type: 'function',
         function: {
             name: 'edit_file',
-            description: 'Edit a file by replacing specific text. Use for partial edits instead of rewriting the whole file.',
+            description: 'Edit a file by replacing specific text. Use for partial edits instead of rewriting the whole file. old_text must match exactly once unless occurrence or replace_all is given.',
             parameters: {
                 type: 'object',
                 properties: {
                     path: { type: 'string', description: 'File path to edit' },
-                    old_text: { type: 'string', description: 'Exact text to find and replace' },
-                    new_text: { type: 'string', description: 'Replacement text' }
+                    old_text: { type: 'string', description: 'Exact text to find and replace, without the line numbers read_file adds' },
+                    new_text: { type: 'string', description: 'Replacement text' },
+                    occurrence: { type: 'number', description: 'Which match to replace when old_text occurs more than once (1 = first)' },
+                    replace_all: { type: 'boolean', description: 'Replace every match (default false)' }
                 },
                 required: ['path', 'old_text', 'new_text']
             }
         }
     },
+    {
+        type: 'function',
+        function: {
+            name: 'apply_patch',
+            description: 'Apply a unified diff (one or more files, with ---/+++ headers and @@ hunks). /dev/null as the old or new path creates or deletes a file; different paths rename it. Nothing is changed if any hunk fails.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    patch: { type: 'string', description: 'The unified diff' }
+                },
+                required: ['patch']
+            }
+        }
+    },
     {
         type: 'function',
         function: {
@@ -207,36 +289,190 @@ export const TOOLS_DEFINITION = [
     }
 ];
 
+/** Tools that never modify the workspace (used by plan mode) */
+export const READ_ONLY_TOOLS = ['read_file', 'list_files', 'grep_search', 'git_status', 'git_diff'];
+
+export interface VerificationResult {
+    command: string;
+    passed: boolean;
+    exitCode: number | null;
+    output: string;
+    durationMs: number;
+}
+
 export interface ToolExecutorOptions {
     autoApproveCommands?: boolean;
     pluginHandlers?: Map<string, (args: Record<string, unknown>) => Promise<string>>;
     dryRun?: boolean;
+    /** Commands allowed as "<cmd>" and "<cmd> *"; with --yes, other commands are denied */
     allowlistCommands?: string[];
     quiet?: boolean;
+    /** Allow/ask/deny rules for tools and commands */
+    permissions?: PermissionsConfig;
+    /** Asks the user to approve a tool call or shell command (defaults to a terminal prompt) */
+    approve?: (request: PermissionRequest) => ApprovalAnswer | boolean;
+    /** Saves an "always for this project" answer; without it such answers last for the session */
+    persistRule?: (section: PermissionSection, pattern: string, action: PermissionAction) => void;
+    /** Default run_command timeout in ms (0 for none) */
+    commandTimeout?: number;
+    /** Characters of command output returned to the model; longer output keeps its start and end */
+    outputLimit?: number;
+    /** Background processes (shared with sub-agents) */
+    processes?: ProcessManager;
+    /** Where file snapshots are recorded before mutating tools run */
+    checkpoints?: CheckpointStore;
+    /** Directories outside the workspace the file tools may use (--allow-root) */
+    allowedRoots?: string[];
+    /** Globs that need approval to read or write (defaults to DEFAULT_PROTECTED_PATHS) */
+    protectedPaths?: string[];
+    /** Asks the user to approve access to a protected path (defaults to a y/n terminal prompt) */
+    approvePath?: (access: PathAccess, filePath: string, glob: string) => boolean;
+}
+
+/** Tool names the model may use for the built-in tools */
+const TOOL_ALIASES: Record<string, string> = {
+    create_file: 'write_file',
+    file_write: 'write_file',
+    file_read: 'read_file',
+    ls: 'list_files',
+    shell: 'run_command',
+    bash: 'run_command',
+    search: 'grep_search',
+    grep: 'grep_search',
+    patch_file: 'edit_file',
+    mkdir: 'create_directory'
+};
+
+export const DEFAULT_COMMAND_TIMEOUT = 120000;
+export const DEFAULT_OUTPUT_LIMIT = 30000;
+/** How long start_process waits for the first output */
+const STARTUP_OUTPUT_WAIT = 2000;
+const MAX_OUTPUT_WAIT = 60000;
+/** What one read_file call returns at most; the model asks for the next range */
+const MAX_READ_CHARS = 30000;
+const MAX_READ_LINES = 2000;
+/** Longer lines (minified code) are cut */
+const MAX_LINE_CHARS = 2000;
+/** Bytes looked at to tell binary files from text, like git does */
+const BINARY_SNIFF_BYTES = 8000;
+/** Options git_add passes on; others (--chmod, --pathspec-from-file=...) could reach past the workspace */
+const GIT_ADD_OPTIONS = ['-A', '-u', '--'];
+
+function isBinary(data: Buffer): boolean {
+    const sample = data.subarray(0, BINARY_SNIFF_BYTES);
+    if (sample.includes(0)) return true;
+    // Mostly invalid UTF-8 (a few bad bytes may be a multi-byte character cut at the sample end)
+    const invalid = sample.toString('utf-8').split('\uFFFD').length - 1;
+    return invalid > sample.length / 10;
+}
+
+/**
+ * A start_line/end_line argument as a positive integer. Models send numbers
+ * as strings or with decimals; null and "" mean "not given".
+ */
+function parseLineArg(value: unknown, name: string): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+    if (!Number.isFinite(number)) throw new Error(`${name} must be a line number, got ${JSON.stringify(value)}`);
+    const line = Math.floor(number);
+    if (line < 1) throw new Error(`${name} must be 1 or more (lines are numbered from 1), got ${JSON.stringify(value)}`);
+    return line;
+}
+
+/**
+ * edit_file's occurrence as a number; models often send it as a string.
+ * Anything else is NaN, which editFile reports with the valid range.
+ */
+function parseOccurrenceArg(value: unknown): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    return typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
 }
 
-export class ToolExecutor {
+function describeBinary(filePath: string, data: Buffer): string {
+    const imageType = detectImageType(data);
+    const size = imageType ? imageDimensions(data, imageType) : null;
+    const kind = imageType ? `${imageType.slice('image/'.length).toUpperCase()} image${size ? `, ${size.width}x${size.height}` : ''}` : 'binary file';
+    return `${filePath} is a ${kind} (${formatBytes(data.length)}). Its contents are not shown.`;
+}
+
+function promptApproval(_request: PermissionRequest): ApprovalAnswer {
+    const answer = readlineSync.question('   Allow? (y)es / (n)o / (s)ession / (p)roject: ').trim().toLowerCase();
+    if (answer === 's' || answer === 'session') return 'session';
+    if (answer === 'p' || answer === 'project') return 'project';
+    return answer === 'y' || answer === 'yes' ? 'yes' : 'no';
+}
+
+function promptPathApproval(): boolean {
+    const answer = readlineSync.question('   Allow? (y/n): ');
+    return answer.toLowerCase() === 'y';
+}
+
+export class ToolExecutor extends TypedEventEmitter<ToolExecutorEvents> {
     private workspaceRoot: string;
-    private autoApproveCommands: boolean;
+    private workspace: Workspace;
     private pluginHandlers: Map<string, (args: Record<string, unknown>) => Promise<string>>;
     private dryRun: boolean;
-    private allowlistCommands: Set<string>;
+    private permissions: PermissionEngine;
     private quiet: boolean;
+    private approve: (request: PermissionRequest) => ApprovalAnswer | boolean;
+    private persistRule?: (section: PermissionSection, pattern: string, action: PermissionAction) => void;
+    private commandTimeout: number;
+    private outputLimit: number;
+    private processes: ProcessManager;
+    private checkpoints: CheckpointStore;
+    private approvePath: (access: PathAccess, filePath: string, glob: string) => boolean;
+    /** Protected paths approved this session, as "access:path" */
+    private approvedPaths = new Set<string>();
 
     constructor(options?: ToolExecutorOptions) {
+        super();
         this.workspaceRoot = process.cwd();
-        this.autoApproveCommands = options?.autoApproveCommands ?? false;
+        this.workspace = new Workspace(this.workspaceRoot, { extraRoots: options?.allowedRoots, protectedPaths: options?.protectedPaths });
         this.pluginHandlers = options?.pluginHandlers ?? new Map();
         this.dryRun = options?.dryRun ?? false;
-        this.allowlistCommands = new Set((options?.allowlistCommands ?? []).map(c => c.toLowerCase().trim()));
+        const allowlist = options?.allowlistCommands ?? [];
+        const commandRules = { ...DEFAULT_COMMAND_RULES, ...options?.permissions?.commands };
+        for (const command of allowlist) {
+            commandRules[command] ??= 'allow';
+            commandRules[`${command} *`] ??= 'allow';
+        }
+        // Commands no rule covers: asked for, or with --yes allowed (unless an allowlist limits them)
+        const defaultCommand: PermissionAction = !options?.autoApproveCommands ? 'ask' : allowlist.length > 0 ? 'deny' : 'allow';
+        this.permissions = new PermissionEngine({ tools: options?.permissions?.tools, commands: commandRules }, defaultCommand);
         this.quiet = options?.quiet ?? false;
+        this.approve = options?.approve ?? promptApproval;
+        this.persistRule = options?.persistRule;
+        this.commandTimeout = options?.commandTimeout ?? DEFAULT_COMMAND_TIMEOUT;
+        this.outputLimit = options?.outputLimit ?? DEFAULT_OUTPUT_LIMIT;
+        this.processes = options?.processes ?? new ProcessManager();
+        this.checkpoints = options?.checkpoints ?? new CheckpointStore();
+        this.approvePath = options?.approvePath ?? promptPathApproval;
+    }
+
+    getCheckpoints(): CheckpointStore {
+        return this.checkpoints;
+    }
+
+    getWorkspace(): Workspace {
+        return this.workspace;
+    }
+
+    getPermissions(): PermissionEngine {
+        return this.permissions;
+    }
+
+    getProcesses(): ProcessManager {
+        return this.processes;
     }
 
-    private log(...args: unknown[]) {
-        if (!this.quiet) console.log(...args);
+    /**
+     * Progress output is emitted as 'log' events; the terminal renderer prints them
+     */
+    private log(message: string) {
+        if (!this.quiet) this.emit('log', { message });
     }
 
-    async execute(call: ToolCall): Promise<ToolResult> {
+    async execute(call: ToolCall, options?: { signal?: AbortSignal }): Promise<ToolResult> {
         const name = call.function.name;
         const callId = call.id || 'call_' + Math.random().toString(36).substr(2, 9);
 
@@ -269,6 +505,19 @@ export class ToolExecutor {
 
         let output = '';
 
+        // Commands are checked against the command rules in runCommand and startProcess
+        const tool = TOOL_ALIASES[name] ?? name;
+        const refusal = tool !== 'run_command' ? this.authorize({ tool, args }) : null;
+        if (refusal) {
+            auditLog({ tool: name, args, error: refusal });
+            return {
+                tool_call_id: callId,
+                role: 'tool',
+                name,
+                content: refusal
+            };
+        }
+
         try {
             switch (name) {
                 case 'write_file':
@@ -279,7 +528,7 @@ export class ToolExecutor {
 
                 case 'read_file':
                 case 'file_read': // Alias
-                    output = await this.readFile(args.path);
+                    output = await this.readFile(args.path, args.start_line, args.end_line, args.line_numbers !== false && args.line_numbers !== 'false');
                     break;
 
                 case 'list_files':
@@ -290,7 +539,23 @@ export class ToolExecutor {
                 case 'run_command':
                 case 'shell': // Alias
                 case 'bash': // Alias
-                    output = await this.runCommand(args.command);
+                    output = await this.runCommand(args.command, args.timeout, options?.signal);
+                    break;
+
+                case 'start_process':
+                    output = await this.startProcess(args.command);
+                    break;
+
+                case 'read_process_output':
+                    output = await this.readProcessOutput(args.id, args.wait);
+                    break;
+
+                case 'stop_process':
+                    output = await this.stopProcess(args.id);
+                    break;
+
+                case 'list_processes':
+                    output = this.listProcesses();
                     break;
 
                 case 'git_status':
@@ -321,7 +586,11 @@ export class ToolExecutor {
 
                 case 'edit_file':
                 case 'patch_file':
-                    output = await this.editFile(args.path, args.old_text, args.new_text);
+                    output = await this.editFile(args.path, args.old_text, args.new_text, parseOccurrenceArg(args.occurrence), args.replace_all === true || args.replace_all === 'true');
+                    break;
+
+                case 'apply_patch':
+                    output = await this.applyPatch(args.patch);
                     break;
 
                 case 'create_directory':
@@ -353,62 +622,252 @@ export class ToolExecutor {
         };
     }
 
-    private resolvePath(filePath: string): string {
-        return path.resolve(this.workspaceRoot, filePath);
+    /**
+     * Run the project's configured verification command. It comes from the
+     * user's config, not the model, so it does not ask for approval.
+     */
+    async runVerification(command: string, options?: { timeout?: number; signal?: AbortSignal }): Promise<VerificationResult> {
+        // Same as run_command: killed with everything it started, output capped and streamed
+        const result = await runShell(command, {
+            cwd: this.workspaceRoot,
+            timeout: options?.timeout ?? 0,
+            outputLimit: this.outputLimit,
+            signal: options?.signal,
+            onOutput: (stream, text) => this.emit('output', { stream, text })
+        });
+        if (result.cancelled) {
+            const error = new Error('Verification cancelled');
+            error.name = 'AbortError';
+            throw error;
+        }
+        const passed = result.exitCode === 0 && !result.timedOut;
+        const output = (result.timedOut ? `Timed out after ${options?.timeout}ms\n` : '') + result.output;
+        auditLog({ tool: 'verify', args: { command }, ...(passed ? { result: 'passed' } : { error: `exit ${result.exitCode ?? 'unknown'}` }) });
+        return { command, passed, exitCode: result.exitCode, output, durationMs: result.durationMs };
+    }
+
+    /**
+     * Absolute path for a file tool argument, confined to the workspace.
+     * With `access`, protected paths need the user's approval (once per
+     * session and path).
+     */
+    private resolvePath(filePath: string, access?: PathAccess): string {
+        const fullPath = this.workspace.resolve(filePath);
+        const glob = access && this.workspace.protectedMatch(fullPath);
+        if (!access || !glob) return fullPath;
+
+        const key = `${access}:${fullPath}`;
+        if (this.approvedPaths.has(key) || (access === 'read' && this.approvedPaths.has(`write:${fullPath}`))) return fullPath;
+        this.log(chalk.yellow(`   ⚠️  Agent wants to ${access} ${filePath} (protected by "${glob}")`));
+        if (!this.approvePath(access, filePath, glob)) {
+            this.log(chalk.red('   ❌ Denied by user'));
+            throw new PathAccessError(`${filePath} is protected ("${glob}") and the user denied ${access} access.`);
+        }
+        this.approvedPaths.add(key);
+        return fullPath;
     }
 
     private async writeFile(filePath: string, content: string): Promise<string> {
-        const fullPath = this.resolvePath(filePath);
+        const fullPath = this.resolvePath(filePath, 'write');
+        await this.checkpoints.snapshot(fullPath);
         await fs.mkdir(path.dirname(fullPath), { recursive: true });
         await fs.writeFile(fullPath, content, 'utf-8');
         this.log(chalk.green(`   ✅ Wrote to ${filePath}`));
         return `Successfully wrote to ${filePath}`;
     }
 
-    private async readFile(filePath: string): Promise<string> {
-        const fullPath = this.resolvePath(filePath);
-        const content = await fs.readFile(fullPath, 'utf-8');
-        this.log(chalk.green(`   ✅ Read ${filePath} (${content.length} chars)`));
-        return content;
+    /**
+     * Lines `startLine` to `endLine` of a text file, cut at MAX_READ_CHARS /
+     * MAX_READ_LINES, after a header with the file's line count and size
+     */
+    private async readFile(filePath: string, startLine?: unknown, endLine?: unknown, lineNumbers = true): Promise<string> {
+        const first = parseLineArg(startLine, 'start_line');
+        const requestedLast = parseLineArg(endLine, 'end_line');
+        if (first !== undefined && requestedLast !== undefined && requestedLast < first) {
+            return `Error: end_line ${requestedLast} is before start_line ${first}.`;
+        }
+        const fullPath = this.resolvePath(filePath, 'read');
+        const data = await fs.readFile(fullPath);
+        if (isBinary(data)) {
+            this.log(chalk.yellow(`   ⚠️  ${filePath} is binary (${formatBytes(data.length)})`));
+            return describeBinary(filePath, data);
+        }
+
+        const content = data.toString('utf-8');
+        const lines = content.split(/\r?\n/);
+        if (content.endsWith('\n')) lines.pop();
+        const total = content === '' ? 0 : lines.length;
+        const header = `${filePath}: ${total} line(s), ${formatBytes(data.length)}`;
+        if (total === 0) {
+            this.log(chalk.green(`   ✅ Read ${filePath} (empty)`));
+            return `${header}. The file is empty.`;
+        }
+
+        const start = first ?? 1;
+        if (start > total) return `Error: start_line ${start} is past the end of ${filePath} (${total} lines).`;
+        // An end_line past the end reads to the end
+        const last = Math.min(total, requestedLast ?? total);
+        if (last < start) return `Error: end_line ${last} is before start_line ${start}.`;
+
+        const width = String(last).length;
+        const shown: string[] = [];
+        let chars = 0;
+        let end = start - 1;
+        for (let n = start; n <= last && shown.length < MAX_READ_LINES; n++) {
+            let line = lines[n - 1];
+            if (line.length > MAX_LINE_CHARS) line = `${line.slice(0, MAX_LINE_CHARS)}... [${line.length - MAX_LINE_CHARS} characters cut]`;
+            if (lineNumbers) line = `${String(n).padStart(width)}\t${line}`;
+            // Always show at least one line
+            if (shown.length > 0 && chars + line.length + 1 > MAX_READ_CHARS) break;
+            shown.push(line);
+            chars += line.length + 1;
+            end = n;
+        }
+
+        const range = start === 1 && end === total ? '' : ` Showing lines ${start}-${end}.`;
+        const more = end < last ? `\n... [output limit reached; read on with start_line: ${end + 1}]` : '';
+        this.log(chalk.green(`   ✅ Read ${filePath} (${range ? `lines ${start}-${end} of ${total}` : `${total} lines`})`));
+        return `${header}.${range}\n${shown.join('\n')}${more}`;
     }
 
     private async listFiles(dirPath: string): Promise<string> {
-        const fullPath = this.resolvePath(dirPath);
+        const fullPath = this.resolvePath(dirPath, 'read');
         const files = await fs.readdir(fullPath);
         this.log(chalk.green(`   ✅ Listed ${files.length} files in ${dirPath}`));
         return files.join('\n');
     }
 
-    private async runCommand(command: string): Promise<string> {
-        this.log(chalk.yellow(`   ⚠️  Agent wants to run: ${command}`));
+    /**
+     * Apply the permission rules to a tool call or command, asking the user
+     * when a rule says 'ask'. Returns the refusal sent to the model, or null.
+     */
+    private authorize(request: PermissionRequest): string | null {
+        const decision = this.permissions.check(request);
+        const { command } = request;
+        const subject = command !== undefined ? 'Command' : request.tool;
 
-        const cmdBase = (command.trim().split(/\s+/)[0] || '').toLowerCase();
-        const isAllowlisted = this.allowlistCommands.size > 0 && this.allowlistCommands.has(cmdBase);
-        const shouldAutoApprove = this.autoApproveCommands && (this.allowlistCommands.size === 0 || isAllowlisted);
+        if (decision.action === 'allow') {
+            if (command !== undefined) {
+                this.log(chalk.gray(decision.rule ? `   Allowed by rule "${decision.rule}"` : '   Auto-approved (--yes)'));
+            }
+            return null;
+        }
+
+        if (decision.action === 'deny') {
+            if (command !== undefined) {
+                this.emit('denied', decision.rule ? { command, reason: 'rule', rule: decision.rule } : { command, reason: 'allowlist' });
+            }
+            if (!decision.rule) {
+                this.log(chalk.red('   ❌ Command not in allowlist. Denied.'));
+                return 'Command not in allowlist. Use --allow "cmd1,cmd2" to add.';
+            }
+            this.log(chalk.red(`   ❌ Denied by rule "${decision.rule}"`));
+            return `${subject} denied by the permission rule "${decision.rule}".`;
+        }
 
-        if (!shouldAutoApprove) {
-            if (this.autoApproveCommands && this.allowlistCommands.size > 0 && !isAllowlisted) {
-                this.log(chalk.red(`   ❌ Command "${cmdBase}" not in allowlist. Denied.`));
-                return `Command "${cmdBase}" not in allowlist. Use --allow "cmd1,cmd2" to add.`;
+        if (command === undefined) {
+            const details = JSON.stringify(request.args);
+            this.log(chalk.yellow(`   ⚠️  Agent wants to use ${request.tool}: ${details.length > 200 ? details.slice(0, 200) + '…' : details}`));
+        }
+        const answer = this.approve(request);
+        if (answer === false || answer === 'no') {
+            this.log(chalk.red('   ❌ Denied by user'));
+            if (command !== undefined) this.emit('denied', { command, reason: 'user' });
+            return command !== undefined ? 'User denied command execution.' : `User denied ${request.tool}.`;
+        }
+        if (answer === 'session' || answer === 'project') {
+            const { section, pattern } = alwaysRule(request);
+            this.permissions.addRule(section, pattern, 'allow');
+            let saved = false;
+            if (answer === 'project' && this.persistRule) {
+                try {
+                    this.persistRule(section, pattern, 'allow');
+                    saved = true;
+                } catch (e: any) {
+                    this.log(chalk.red(`   ❌ Could not save the rule: ${e.message}`));
+                }
             }
-            const answer = readlineSync.question('   Allow? (y/n): ');
-            if (answer.toLowerCase() !== 'y') {
-                this.log(chalk.red('   ❌ Denied by user'));
-                return 'User denied command execution.';
+            if (saved) {
+                this.log(chalk.gray(`   Saved "${pattern}": allow to the project config`));
+            } else {
+                this.log(chalk.gray(`   Allowed "${pattern}" for this session`));
             }
-        } else {
-            this.log(chalk.gray('   Auto-approved (--yes)'));
         }
+        return null;
+    }
 
+    private async runCommand(command: string, timeoutSeconds?: number, signal?: AbortSignal): Promise<string> {
+        this.log(chalk.yellow(`   ⚠️  Agent wants to run: ${command}`));
+
+        const refusal = this.authorize({ tool: 'run_command', command, args: { command } });
+        if (refusal) return refusal;
+
+        const timeout = typeof timeoutSeconds === 'number' && timeoutSeconds > 0 ? timeoutSeconds * 1000 : this.commandTimeout;
         this.log(chalk.gray('   Running...'));
-        try {
-            const { stdout, stderr } = await execAsync(command, { cwd: this.workspaceRoot });
-            // console.log(chalk.green('   Command finished.'));
-            return stdout + (stderr ? `\nStderr: ${stderr}` : '');
-        } catch (e: any) {
-            this.log(chalk.red(`   ❌ Command failed`));
-            return `Command failed: ${e.message}\nStdout: ${e.stdout}\nStderr: ${e.stderr}`;
+        // Aborting the signal kills the command and everything it started
+        const result = await runShell(command, {
+            cwd: this.workspaceRoot,
+            timeout,
+            outputLimit: this.outputLimit,
+            signal,
+            onOutput: (stream, text) => this.emit('output', { stream, text })
+        });
+        const output = result.output || '(no output)';
+
+        if (result.cancelled) {
+            this.log(chalk.yellow('   ⏹  Command cancelled'));
+            return 'Command cancelled by user.';
+        }
+        if (result.timedOut) {
+            this.log(chalk.red(`   ❌ Timed out after ${timeout / 1000}s`));
+            return `Command timed out after ${timeout / 1000}s and was killed. Use a larger timeout, or start_process for servers and watchers.\nOutput:\n${output}`;
+        }
+        if (result.exitCode !== 0) {
+            this.log(chalk.red(`   ❌ Command failed (exit ${result.exitCode ?? 'unknown'})`));
+            return `Command failed with exit code ${result.exitCode ?? 'unknown'}.\nOutput:\n${output}`;
         }
+        return output;
+    }
+
+    private async startProcess(command: string): Promise<string> {
+        this.log(chalk.yellow(`   ⚠️  Agent wants to start in the background: ${command}`));
+
+        const refusal = this.authorize({ tool: 'start_process', command, args: { command } });
+        if (refusal) return refusal;
+
+        const info = this.processes.start(command, this.workspaceRoot);
+        this.log(chalk.green(`   ✅ Started ${info.id} (pid ${info.pid ?? '?'})`));
+        // Let it print its startup output (or fail right away)
+        await this.processes.waitForExit(info.id, STARTUP_OUTPUT_WAIT);
+        return `Started ${info.id}.\n${this.formatProcessOutput(info.id)}`;
+    }
+
+    private async readProcessOutput(id: string, waitSeconds?: number): Promise<string> {
+        const wait = typeof waitSeconds === 'number' && waitSeconds > 0 ? Math.min(waitSeconds * 1000, MAX_OUTPUT_WAIT) : 0;
+        await this.processes.waitForOutput(id, wait);
+        return this.formatProcessOutput(id);
+    }
+
+    private formatProcessOutput(id: string): string {
+        const { info, output } = this.processes.read(id, this.outputLimit);
+        const status = info.running ? 'is running' : `exited with code ${info.exitCode ?? 'unknown (killed)'}`;
+        return `${info.id} (${info.command}) ${status}.\n${output ? `Output:\n${output}` : 'No new output.'}`;
+    }
+
+    private async stopProcess(id: string): Promise<string> {
+        const { output } = this.processes.read(id, this.outputLimit);
+        const info = await this.processes.stop(id);
+        this.log(chalk.green(`   ✅ Stopped ${id}`));
+        return `Stopped ${id} (${info.command}).${output ? `\nLast output:\n${output}` : ''}`;
+    }
+
+    private listProcesses(): string {
+        const processes = this.processes.list();
+        if (processes.length === 0) return 'No background processes.';
+        return processes.map(p => {
+            const status = p.running ? `running for ${Math.round((Date.now() - p.startedAt) / 1000)}s` : `exited (${p.exitCode ?? 'killed'})`;
+            return `${p.id}  pid ${p.pid ?? '?'}  ${status}  ${p.command}`;
+        }).join('\n');
     }
 
     private async gitStatus(repoPath: string): Promise<string> {
@@ -438,6 +897,16 @@ export class ToolExecutor {
         const fullPath = this.resolvePath(repoPath);
         const pathArgs = paths.trim().split(/\s+/).filter(Boolean);
         if (pathArgs.length === 0) pathArgs.push('.');
+        // Every path must stay inside the workspace; after "--" even one starting with "-"
+        let options = true;
+        for (const arg of pathArgs) {
+            if (options && arg.startsWith('-')) {
+                if (!GIT_ADD_OPTIONS.includes(arg)) throw new Error(`git_add does not take the option ${arg} (only ${GIT_ADD_OPTIONS.join(', ')})`);
+                if (arg === '--') options = false;
+                continue;
+            }
+            this.workspace.resolve(path.resolve(fullPath, arg));
+        }
         try {
             const { stdout, stderr } = await execFileAsync('git', ['add', ...pathArgs], { cwd: fullPath });
             this.log(chalk.green(`   ✅ Git add ${paths}`));
@@ -471,7 +940,7 @@ export class ToolExecutor {
     }
 
     private async grepSearch(pattern: string, searchPath: string, recursive: boolean, ignoreCase: boolean): Promise<string> {
-        const fullPath = this.resolvePath(searchPath);
+        const fullPath = this.resolvePath(searchPath, 'read');
         const results: string[] = [];
         const maxResults = 50;
 
@@ -507,7 +976,8 @@ export class ToolExecutor {
 
                 if (entry.isDirectory() && recursive) {
                     await searchDir(entryPath);
-                } else if (entry.isFile()) {
+                } else if (entry.isFile() && !this.workspace.protectedMatch(entryPath)) {
+                    // Protected files are only searched when named directly
                     await searchFile(entryPath);
                 }
             }
@@ -531,29 +1001,138 @@ export class ToolExecutor {
         return results.join('\n') + (results.length >= maxResults ? `\n... (limited to ${maxResults} results)` : '');
     }
 
-    private async editFile(filePath: string, oldText: string, newText: string): Promise<string> {
-        const fullPath = this.resolvePath(filePath);
+    private async editFile(filePath: string, oldText: string, newText: string, occurrence?: number, replaceAll = false): Promise<string> {
+        const fullPath = this.resolvePath(filePath, 'write');
 
         try {
             const content = await fs.readFile(fullPath, 'utf-8');
 
-            if (!content.includes(oldText)) {
+            if (!oldText || !content.includes(oldText)) {
                 return `Error: Could not find the specified text in ${filePath}. Make sure to use exact matching text.`;
             }
 
-            const occurrences = content.split(oldText).length - 1;
-            const newContent = content.replace(oldText, newText);
+            const parts = content.split(oldText);
+            const occurrences = parts.length - 1;
+            let newContent: string;
+            let replaced: number;
+            if (replaceAll) {
+                newContent = parts.join(newText);
+                replaced = occurrences;
+            } else if (occurrence !== undefined) {
+                if (!Number.isInteger(occurrence) || occurrence < 1 || occurrence > occurrences) {
+                    return `Error: occurrence must be between 1 and ${occurrences}; old_text occurs ${occurrences} time(s) in ${filePath}.`;
+                }
+                newContent = parts.slice(0, occurrence).join(oldText) + newText + parts.slice(occurrence).join(oldText);
+                replaced = 1;
+            } else if (occurrences > 1) {
+                // Line of each match, so the model can pick one or add context
+                const lines: number[] = [];
+                let offset = 0;
+                for (const part of parts.slice(0, -1)) {
+                    offset += part.length;
+                    lines.push(content.slice(0, offset).split('\n').length);
+                    offset += oldText.length;
+                }
+                return `Error: old_text occurs ${occurrences} times in ${filePath} (lines ${lines.slice(0, 10).join(', ')}). Include more surrounding text to make it unique, or pass occurrence (1-${occurrences}) or replace_all: true.`;
+            } else {
+                newContent = parts[0] + newText + parts[1];
+                replaced = 1;
+            }
 
+            await this.checkpoints.snapshot(fullPath);
             await fs.writeFile(fullPath, newContent, 'utf-8');
-            this.log(chalk.green(`   ✅ Edited ${filePath} (replaced ${occurrences} occurrence(s))`));
-            return `Successfully edited ${filePath}. Replaced ${occurrences} occurrence(s).`;
+            this.log(chalk.green(`   ✅ Edited ${filePath} (replaced ${replaced} occurrence(s))`));
+            return `Successfully edited ${filePath}. Replaced ${replaced} occurrence(s).`;
         } catch (e: any) {
             return `Error editing file: ${e.message}`;
         }
     }
 
+    /**
+     * Apply a unified diff. Every file is patched in memory first; if any
+     * hunk fails nothing is written and the report says which and why.
+     */
+    private async applyPatch(patchText: string): Promise<string> {
+        const patches = parsePatch(patchText ?? '');
+        // Contents after the patch (null: deleted), by full path; later files see earlier changes
+        const pending = new Map<string, string | null>();
+        const read = async (fullPath: string): Promise<string | null> => {
+            if (pending.has(fullPath)) return pending.get(fullPath)!;
+            try {
+                return await fs.readFile(fullPath, 'utf-8');
+            } catch (e: any) {
+                if (e.code === 'ENOENT') return null;
+                throw e;
+            }
+        };
+
+        const summary: string[] = [];
+        const failures: string[] = [];
+        let hunkCount = 0;
+        const describe = (name: string, results: HunkResult[]) => results.map(r => r.applied
+            ? `${name} hunk ${r.index} applied at line ${r.line}${r.fuzz ? ` (${r.fuzz})` : ''}`
+            : `${name} hunk ${r.index} (${r.header}) failed: ${r.error}`);
+
+        for (const patch of patches) {
+            const name = (patch.newPath ?? patch.oldPath)!;
+            const oldFull = patch.oldPath !== null ? this.resolvePath(patch.oldPath, 'write') : null;
+            const newFull = patch.newPath !== null ? this.resolvePath(patch.newPath, 'write') : null;
+            const before = oldFull ? await read(oldFull) : '';
+            hunkCount += patch.hunks.length;
+
+            if (before === null) {
+                failures.push(`${patch.oldPath}: does not exist${patch.newPath === null ? ' (cannot delete it)' : '; use /dev/null as the old path to create it'}`);
+                continue;
+            }
+            if (newFull && newFull !== oldFull && (await read(newFull)) !== null) {
+                failures.push(`${patch.newPath}: already exists${oldFull ? ' (rename target)' : '; patch it instead of creating it'}`);
+                continue;
+            }
+
+            const { content, results } = applyHunks(before, patch.hunks);
+            const lines = describe(name, results);
+            if (content === null) {
+                failures.push(...lines.filter((_, i) => !results[i].applied));
+                summary.push(...lines.filter((_, i) => results[i].applied));
+                continue;
+            }
+            if (!newFull && content.trim() !== '') {
+                failures.push(`${patch.oldPath}: the patch deletes it, but its hunks do not remove all of its lines`);
+                continue;
+            }
+
+            if (oldFull && oldFull !== newFull) pending.set(oldFull, null);
+            if (newFull) pending.set(newFull, content);
+            const action = !oldFull ? 'created' : !newFull ? 'deleted' : oldFull !== newFull ? `renamed from ${patch.oldPath}` : 'modified';
+            summary.push(`${name}: ${action}${results.length > 0 ? `, ${results.length} hunk(s)` : ''}`);
+            summary.push(...lines.filter((_, i) => results[i].fuzz !== undefined));
+        }
+
+        if (failures.length > 0) {
+            this.log(chalk.red(`   ❌ Patch not applied (${failures.length} problem(s))`));
+            return [
+                `Error: patch not applied, no files were changed. ${failures.length} problem(s) in ${patches.length} file(s) and ${hunkCount} hunk(s):`,
+                ...failures.map(f => `- ${f}`),
+                ...(summary.length > 0 ? ['These parts would apply:', ...summary.map(s => `- ${s}`)] : []),
+                'Read the affected files again, fix the failed parts and send the whole patch again.'
+            ].join('\n');
+        }
+
+        for (const [fullPath, content] of pending) {
+            await this.checkpoints.snapshot(fullPath);
+            if (content === null) {
+                await fs.rm(fullPath, { force: true });
+            } else {
+                await fs.mkdir(path.dirname(fullPath), { recursive: true });
+                await fs.writeFile(fullPath, content, 'utf-8');
+            }
+        }
+        this.log(chalk.green(`   ✅ Applied patch to ${pending.size} file(s)`));
+        return `Patch applied:\n${summary.map(s => `- ${s}`).join('\n')}`;
+    }
+
     private async createDirectory(dirPath: string): Promise<string> {
-        const fullPath = this.resolvePath(dirPath);
+        const fullPath = this.resolvePath(dirPath, 'write');
 
         try {
             await fs.mkdir(fullPath, { recursive: true });
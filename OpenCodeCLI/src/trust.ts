@@ -0,0 +1,128 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModelRef, PartialConfigFile } from './config-schema';
+import { PermissionAction } from './permissions';
+
+/**
+ * Trust for project configs. A cloned repository's .opencode/config.json
+ * could run commands just by being opened, so its verify command, plugins,
+ * allowCommands and "allow" rules apply only once the user trusted them.
+ * The same goes for where requests are sent: a provider's baseURL or apiKey
+ * (a new baseURL would receive the user's key), fallback and routing.
+ * Trust is stored per project config with a hash of these settings; when
+ * they change, the user is asked again.
+ */
+
+export const TRUSTED_PROJECTS_FILE = path.join(os.homedir(), '.config', 'opencode', 'trusted-projects.json');
+
+function allowRules(rules: Record<string, PermissionAction> | undefined): Record<string, PermissionAction> {
+    return Object.fromEntries(Object.entries(rules ?? {}).filter(([, action]) => action === 'allow'));
+}
+
+/** Providers whose baseURL or apiKey the project sets, with just those keys */
+function providerEndpoints(providers: PartialConfigFile['providers']): PartialConfigFile['providers'] {
+    const endpoints: NonNullable<PartialConfigFile['providers']> = {};
+    for (const [id, entry] of Object.entries(providers ?? {})) {
+        if (entry.baseURL === undefined && entry.apiKey === undefined) continue;
+        endpoints[id] = {
+            ...(entry.baseURL !== undefined ? { baseURL: entry.baseURL } : {}),
+            ...(entry.apiKey !== undefined ? { apiKey: entry.apiKey } : {})
+        };
+    }
+    return Object.keys(endpoints).length > 0 ? endpoints : undefined;
+}
+
+function refLabel(ref: ModelRef): string {
+    return typeof ref === 'string' ? ref : `${ref.provider}/${ref.model}`;
+}
+
+function otherRules(rules: Record<string, PermissionAction> | undefined): Record<string, PermissionAction> {
+    return Object.fromEntries(Object.entries(rules ?? {}).filter(([, action]) => action !== 'allow'));
+}
+
+/**
+ * The settings of a project config that let opencode run something
+ * without asking or send requests elsewhere, or undefined when it has none
+ */
+export function projectExecutionSettings(project: PartialConfigFile): PartialConfigFile | undefined {
+    const settings: PartialConfigFile = {};
+    if (project.verify !== undefined) settings.verify = project.verify;
+    if (project.pluginDir !== undefined) settings.pluginDir = project.pluginDir;
+    if (project.allowCommands && project.allowCommands.length > 0) settings.allowCommands = project.allowCommands;
+    const endpoints = providerEndpoints(project.providers);
+    if (endpoints) settings.providers = endpoints;
+    if (project.fallback !== undefined) settings.fallback = project.fallback;
+    if (project.routing !== undefined) settings.routing = project.routing;
+    const tools = allowRules(project.permissions?.tools);
+    const commands = allowRules(project.permissions?.commands);
+    if (Object.keys(tools).length > 0 || Object.keys(commands).length > 0) {
+        settings.permissions = {
+            ...(Object.keys(tools).length > 0 ? { tools } : {}),
+            ...(Object.keys(commands).length > 0 ? { commands } : {})
+        };
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * The project config without its execution settings; deny and ask rules
+ * and the rest of its provider entries (models, contextLength) stay
+ */
+export function withoutExecutionSettings(project: PartialConfigFile): PartialConfigFile {
+    const { verify, pluginDir, allowCommands, permissions, fallback, routing, ...rest } = project;
+    const stripped: PartialConfigFile = rest;
+    if (rest.providers) {
+        stripped.providers = Object.fromEntries(Object.entries(rest.providers).map(([id, { baseURL, apiKey, ...entry }]) => [id, entry]));
+    }
+    if (permissions) stripped.permissions = { tools: otherRules(permissions.tools), commands: otherRules(permissions.commands) };
+    return stripped;
+}
+
+/** One line per setting, for the trust prompt and warnings */
+export function describeExecutionSettings(settings: PartialConfigFile): string[] {
+    const lines: string[] = [];
+    if (settings.verify !== undefined) {
+        const command = typeof settings.verify === 'string' ? settings.verify : (settings.verify as { command?: unknown } | null)?.command;
+        lines.push(`verify: runs \`${command}\` after every turn that changes files`);
+    }
+    if (settings.pluginDir !== undefined) lines.push(`pluginDir: loads plugins from ${settings.pluginDir}`);
+    if (settings.allowCommands) lines.push(`allowCommands: ${settings.allowCommands.join(', ')}`);
+    for (const [id, entry] of Object.entries(settings.providers ?? {})) {
+        if (entry.baseURL !== undefined) lines.push(`providers.${id}.baseURL: sends requests (and the API key) to ${entry.baseURL}`);
+        if (entry.apiKey !== undefined) lines.push(`providers.${id}.apiKey: sets the API key`);
+    }
+    if (settings.fallback) lines.push(`fallback: moves to ${settings.fallback.models.map(refLabel).join(', ')} when a model fails`);
+    for (const [use, ref] of Object.entries(settings.routing ?? {})) lines.push(`routing: sends ${use} requests to ${refLabel(ref)}`);
+    for (const [pattern] of Object.entries(settings.permissions?.tools ?? {})) lines.push(`permissions: allows the ${pattern} tool`);
+    for (const [pattern] of Object.entries(settings.permissions?.commands ?? {})) lines.push(`permissions: allows \`${pattern}\``);
+    return lines;
+}
+
+function fingerprint(settings: PartialConfigFile): string {
+    return crypto.createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+}
+
+function loadTrusted(): Record<string, string> {
+    try {
+        const data = JSON.parse(fs.readFileSync(TRUSTED_PROJECTS_FILE, 'utf-8'));
+        return data && typeof data === 'object' ? data : {};
+    } catch (_) {
+        return {};
+    }
+}
+
+export function isProjectTrusted(projectPath: string, settings: PartialConfigFile): boolean {
+    return loadTrusted()[path.resolve(projectPath)] === fingerprint(settings);
+}
+
+/**
+ * Remember that the user trusts these settings of a project config
+ */
+export function trustProject(projectPath: string, settings: PartialConfigFile) {
+    const trusted = loadTrusted();
+    trusted[path.resolve(projectPath)] = fingerprint(settings);
+    fs.mkdirSync(path.dirname(TRUSTED_PROJECTS_FILE), { recursive: true });
+    fs.writeFileSync(TRUSTED_PROJECTS_FILE, JSON.stringify(trusted, null, 2), 'utf-8');
+}
@@ -29,9 +29,12 @@ export function renderTitleBar(title?: string) {
     return chalk.cyan(line + '\n' + mid + '\n' + bot);
 }
 
-export function renderBanner(config: { baseURL: string; model: string }, projectSummary?: string) {
+export function renderBanner(config: { baseURL: string; model: string; profile?: string }, projectSummary?: string) {
     const lines: string[] = [];
     lines.push('');
+    if (config.profile) {
+        lines.push(chalk.gray('  Profile:') + '  ' + chalk.white(config.profile));
+    }
     lines.push(chalk.gray('  Endpoint:') + '  ' + chalk.white(config.baseURL));
     lines.push(chalk.gray('  Model:') + '    ' + chalk.white(config.model));
     if (projectSummary) {
@@ -0,0 +1,69 @@
+/** Token counts for one LLM request */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** True when the server did not report usage and the counts are estimated */
+    estimated: boolean;
+    /** Estimated cost in USD (only when the model has pricing configured) */
+    cost?: number;
+}
+
+/** Price of a model in USD per 1M tokens */
+export interface ModelPricing {
+    input: number;
+    output: number;
+}
+
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Requests whose counts were estimated */
+    estimatedRequests: number;
+    cost?: number;
+}
+
+export function estimateCost(promptTokens: number, completionTokens: number, pricing?: ModelPricing): number | undefined {
+    if (!pricing) return undefined;
+    return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Accumulates token usage over several requests (a turn, a session, a sub-agent run)
+ */
+export class UsageTracker {
+    private totals: UsageTotals = UsageTracker.empty();
+
+    static empty(): UsageTotals {
+        return { requests: 0, promptTokens: 0, completionTokens: 0, estimatedRequests: 0 };
+    }
+
+    add(usage: TokenUsage) {
+        this.totals.requests++;
+        this.totals.promptTokens += usage.promptTokens;
+        this.totals.completionTokens += usage.completionTokens;
+        if (usage.estimated) this.totals.estimatedRequests++;
+        if (usage.cost !== undefined) this.totals.cost = (this.totals.cost ?? 0) + usage.cost;
+    }
+
+    getTotals(): UsageTotals {
+        return { ...this.totals };
+    }
+
+    reset() {
+        this.totals = UsageTracker.empty();
+    }
+}
+
+/**
+ * One-line summary, e.g. "1,234 in / 567 out (3 requests, ~$0.0012)"
+ */
+export function formatUsage(totals: UsageTotals): string {
+    const fmt = (n: number) => n.toLocaleString('en-US');
+    const parts = [`${fmt(totals.promptTokens)} in / ${fmt(totals.completionTokens)} out`];
+    const details = [`${totals.requests} request${totals.requests === 1 ? '' : 's'}`];
+    if (totals.estimatedRequests > 0) details.push(`${totals.estimatedRequests} estimated`);
+    if (totals.cost !== undefined) details.push(`~$${totals.cost.toFixed(4)}`);
+    parts.push(`(${details.join(', ')})`);
+    return parts.join(' ');
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Where the file tools may go. Paths are confined to the workspace root
+ * (plus roots granted with --allow-root), after resolving symlinks, and
+ * paths matching a protected glob need the user's approval.
+ */
+
+/** Used when the config has no protectedPaths */
+export const DEFAULT_PROTECTED_PATHS = ['.env*', '.git', '**/.git/**', '*.lock', 'package-lock.json', 'npm-shrinkwrap.json', 'pnpm-lock.yaml'];
+
+export type PathAccess = 'read' | 'write';
+
+/** A path outside the allowed roots, or a protected path the user did not approve */
+export class PathAccessError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PathAccessError';
+    }
+}
+
+/**
+ * Glob to RegExp: `*` and `?` stay within a path segment, `**` spans
+ * segments. Globs without a slash match the file name at any depth (like
+ * .gitignore), others the path relative to the root.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const c = glob[i];
+        if (c === '*' && glob[i + 1] === '*') {
+            const slash = glob[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (c === '*') {
+            source += '[^/]*';
+        } else if (c === '?') {
+            source += '[^/]';
+        } else {
+            source += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(glob.includes('/') ? `^${source}$` : `(?:^|/)${source}$`);
+}
+
+/**
+ * realpath of the longest existing prefix, with the rest appended, so that
+ * files about to be created are checked through their parent's symlinks
+ */
+function realpathNearest(fullPath: string): string {
+    const missing: string[] = [];
+    let current = fullPath;
+    for (;;) {
+        try {
+            return path.join(fs.realpathSync(current), ...missing.reverse());
+        } catch (_) {
+            const parent = path.dirname(current);
+            if (parent === current) return fullPath;
+            missing.push(path.basename(current));
+            current = parent;
+        }
+    }
+}
+
+function rootOf(roots: string[], fullPath: string): string | undefined {
+    return roots.find(r => fullPath === r || fullPath.startsWith(r.endsWith(path.sep) ? r : r + path.sep));
+}
+
+export class Workspace {
+    readonly root: string;
+    /** Allowed roots as given, and with symlinks resolved */
+    private roots: string[];
+    private realRoots: string[];
+    private protectedGlobs: { glob: string; regex: RegExp }[];
+
+    constructor(root: string, options: { extraRoots?: string[]; protectedPaths?: string[] } = {}) {
+        this.root = path.resolve(root);
+        this.roots = [this.root, ...(options.extraRoots ?? []).map(r => path.resolve(this.root, r))];
+        this.realRoots = this.roots.map(r => realpathNearest(r));
+        this.protectedGlobs = (options.protectedPaths ?? DEFAULT_PROTECTED_PATHS).map(glob => ({ glob, regex: globToRegExp(glob) }));
+    }
+
+    getRoots(): string[] {
+        return [...this.roots];
+    }
+
+    /**
+     * Absolute path for a tool argument. Throws PathAccessError if it, or
+     * what its symlinks point to, is outside every allowed root.
+     */
+    resolve(filePath: string): string {
+        const fullPath = path.resolve(this.root, filePath);
+        const realPath = realpathNearest(fullPath);
+        const inside = rootOf(this.roots, fullPath) || rootOf(this.realRoots, fullPath);
+        if (!inside || !rootOf(this.realRoots, realPath)) {
+            const target = inside ? ` (links to ${realPath})` : '';
+            const roots = this.roots.length > 1 ? `the allowed roots (${this.roots.join(', ')})` : `the workspace ${this.root}`;
+            throw new PathAccessError(`${filePath}${target} is outside ${roots}. Ask the user to start opencode with --allow-root if access is needed.`);
+        }
+        return fullPath;
+    }
+
+    /**
+     * The protected glob a path matches, checked against the path and the
+     * file it links to
+     */
+    protectedMatch(fullPath: string): string | undefined {
+        const candidates = [fullPath, realpathNearest(fullPath)];
+        for (const candidate of candidates) {
+            const root = rootOf(this.roots, candidate) ?? rootOf(this.realRoots, candidate);
+            const relative = root ? path.relative(root, candidate).split(path.sep).join('/') : candidate;
+            const match = this.protectedGlobs.find(p => p.regex.test(relative));
+            if (match) return match.glob;
+        }
+        return undefined;
+    }
+}
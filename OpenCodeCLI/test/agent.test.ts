@@ -0,0 +1,194 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { Agent } from '../src/agent';
+import { createAbortError, isAbortError } from '../src/llm-client';
+import { READ_ONLY_TOOLS, ToolExecutor } from '../src/tools';
+import { answers, callsTools, enterTempDir, leaveTempDir, ScriptedLLM, toolCall } from './fakes';
+
+let dir: string;
+
+before(() => {
+    dir = enterTempDir('agent');
+    fs.writeFileSync('a.txt', 'alpha\n');
+});
+
+after(() => leaveTempDir(dir));
+
+function newAgent(llm: ScriptedLLM, tools = new ToolExecutor({ quiet: true })) {
+    return new Agent(llm.asClient(), tools);
+}
+
+describe('cancelling a turn', () => {
+    test('rejects with an AbortError while the model is answering and keeps the agent usable', async () => {
+        const controller = new AbortController();
+        const llm = new ScriptedLLM([
+            (_messages, options) => new Promise((_resolve, reject) => {
+                options.signal!.addEventListener('abort', () => reject(createAbortError('Cancelled by user')));
+                controller.abort();
+            }),
+            answers('still here')
+        ]);
+        const agent = newAgent(llm);
+        const cancelled: string[] = [];
+        agent.on('turn:cancelled', ({ mode }) => cancelled.push(mode));
+
+        await assert.rejects(agent.chat('first', { signal: controller.signal }), (e: unknown) => isAbortError(e));
+        assert.deepEqual(cancelled, ['chat']);
+        assert.equal(await agent.chat('second'), 'still here');
+    });
+
+    test('answers the tool calls it did not run so the history stays valid', async () => {
+        const controller = new AbortController();
+        const llm = new ScriptedLLM([
+            callsTools(toolCall('c1', 'read_file', { path: 'a.txt' }), toolCall('c2', 'read_file', { path: 'a.txt' }))
+        ]);
+        const agent = newAgent(llm);
+        agent.on('tool:finish', () => controller.abort());
+
+        await assert.rejects(agent.chat('read twice', { signal: controller.signal }), (e: unknown) => isAbortError(e));
+        const tail = agent.getHistory().slice(-2);
+        assert.equal(tail[0].tool_call_id, 'c1');
+        assert.match(tail[0].content as string, /alpha/);
+        assert.deepEqual(tail[1], { role: 'tool', content: 'Cancelled by user before this tool ran.', tool_call_id: 'c2', name: 'read_file' });
+    });
+
+    test('does not call the model once the signal is aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        const llm = new ScriptedLLM([answers('unused')]);
+        await assert.rejects(newAgent(llm).chat('hi', { signal: controller.signal }), (e: unknown) => isAbortError(e));
+        assert.equal(llm.requests.length, 0);
+    });
+});
+
+describe('plan mode', () => {
+    test('offers only read-only tools and refuses the others', async () => {
+        const llm = new ScriptedLLM([
+            callsTools(toolCall('c1', 'write_file', { path: 'b.txt', content: 'x' }), toolCall('c2', 'read_file', { path: 'a.txt' })),
+            answers('## Plan\n1. Edit a.txt')
+        ]);
+        const agent = newAgent(llm);
+        const plan = await agent.plan('change a.txt');
+
+        assert.equal(plan, '## Plan\n1. Edit a.txt');
+        const offered = (llm.requests[0].options.tools as { function: { name: string } }[]).map(t => t.function.name);
+        assert.deepEqual(offered.sort(), [...READ_ONLY_TOOLS].sort());
+        assert.ok(!fs.existsSync('b.txt'));
+        const results = agent.getHistory().filter(m => m.role === 'tool');
+        assert.match(results[0].content as string, /not available in plan mode/);
+        assert.match(results[1].content as string, /alpha/);
+    });
+
+    test('drops a discarded plan from the history', async () => {
+        const agent = newAgent(new ScriptedLLM([answers('## Plan\n1. nothing')]));
+        const length = agent.getHistory().length;
+        await agent.plan('do something');
+        agent.discardPlan();
+        assert.equal(agent.getHistory().length, length);
+    });
+
+    test('pins the approved plan to the system prompt and executes it with all tools', async () => {
+        const llm = new ScriptedLLM([answers('## Plan\n1. Say done'), answers('done')]);
+        const agent = newAgent(llm);
+        const plan = await agent.plan('say done');
+        assert.equal(await agent.executePlan(plan), 'done');
+
+        assert.equal(agent.getApprovedPlan(), plan);
+        assert.match(agent.getHistory()[0].content as string, /APPROVED PLAN[^]*1\. Say done$/);
+        assert.ok((llm.requests[1].options.tools as object[]).length > READ_ONLY_TOOLS.length);
+    });
+});
+
+describe('events', () => {
+    test('reports a turn from start to end, tools included', async () => {
+        const llm = new ScriptedLLM([callsTools(toolCall('c1', 'read_file', { path: 'a.txt' })), answers('read it')]);
+        const agent = new Agent(llm.asClient(), new ToolExecutor());
+        const seen: string[] = [];
+        for (const event of ['turn:start', 'llm:request', 'llm:response', 'tool:start', 'tool:log', 'tool:finish', 'turn:end'] as const) {
+            agent.on(event, () => seen.push(event));
+        }
+        let end: { response: string; steps: number } | undefined;
+        agent.on('turn:end', (e) => end = e);
+
+        await agent.chat('read a.txt');
+        // A tool logs more than one line
+        assert.deepEqual(seen.filter((e, i) => e !== seen[i - 1]), [
+            'turn:start', 'llm:request', 'llm:response', 'tool:start', 'tool:log', 'tool:finish', 'llm:request', 'llm:response', 'turn:end'
+        ]);
+        assert.deepEqual(end && { response: end.response, steps: end.steps }, { response: 'read it', steps: 2 });
+    });
+
+    test('reports failed turns as turn:error and rethrows', async () => {
+        const agent = newAgent(new ScriptedLLM([() => { throw new Error('boom'); }]));
+        const errors: string[] = [];
+        agent.on('turn:error', ({ error }) => errors.push(error.message));
+        await assert.rejects(agent.chat('hi'), /boom/);
+        assert.deepEqual(errors, ['boom']);
+    });
+
+    test('reports the step limit', async () => {
+        const replies = Array.from({ length: 10 }, (_, i) => callsTools(toolCall(`c${i}`, 'read_file', { path: 'a.txt' })));
+        const agent = newAgent(new ScriptedLLM(replies));
+        let limit: number | undefined;
+        agent.on('step-limit', ({ steps }) => limit = steps);
+        assert.equal(await agent.chat('loop'), undefined);
+        assert.equal(limit, 10);
+    });
+});
+
+describe('verify and fix', () => {
+    const verify = { command: 'grep -q fixed c.txt', maxAttempts: 2, timeout: 10000 };
+
+    test('feeds a failed verification back to the model until it passes', async () => {
+        const llm = new ScriptedLLM([
+            callsTools(toolCall('c1', 'write_file', { path: 'c.txt', content: 'broken' })),
+            answers('wrote it'),
+            callsTools(toolCall('c2', 'write_file', { path: 'c.txt', content: 'fixed' })),
+            answers('fixed it')
+        ]);
+        const agent = new Agent(llm.asClient(), new ToolExecutor({ quiet: true }), { verify });
+        const results: boolean[] = [];
+        agent.on('verify:result', ({ result }) => results.push(result.passed));
+
+        assert.equal(await agent.chat('write c.txt'), 'fixed it');
+        assert.deepEqual(results, [false, true]);
+        assert.match(llm.requests[2].messages.slice(-1)[0].content as string, /^The verification command `grep -q fixed c.txt` failed \(exit code 1\)/);
+        assert.equal(agent.getLastVerification()?.passed, true);
+    });
+
+    test('stops after maxAttempts fixes', async () => {
+        const write = (id: string) => callsTools(toolCall(id, 'write_file', { path: 'c.txt', content: 'broken' }));
+        const llm = new ScriptedLLM([write('1'), answers('a'), write('2'), answers('b'), write('3'), answers('c')]);
+        const agent = new Agent(llm.asClient(), new ToolExecutor({ quiet: true }), { verify });
+        const attempts: number[] = [];
+        agent.on('verify:start', ({ attempt }) => attempts.push(attempt));
+
+        assert.equal(await agent.chat('write c.txt'), 'c');
+        assert.deepEqual(attempts, [1, 2, 3]);
+        assert.equal(agent.getLastVerification()?.passed, false);
+    });
+
+    test('does not verify turns that changed no files', async () => {
+        const agent = new Agent(new ScriptedLLM([answers('nothing to do')]).asClient(), new ToolExecutor({ quiet: true }), { verify });
+        let started = false;
+        agent.on('verify:start', () => started = true);
+        await agent.chat('hi');
+        assert.ok(!started);
+        assert.equal(agent.getLastVerification(), null);
+    });
+});
+
+describe('ToolExecutor.runVerification', () => {
+    test('fails a command that times out', async () => {
+        const result = await new ToolExecutor({ quiet: true }).runVerification('echo start; sleep 5', { timeout: 200 });
+        assert.equal(result.passed, false);
+        assert.match(result.output, /^Timed out after 200ms\nstart/);
+    });
+
+    test('throws an AbortError when cancelled', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        await assert.rejects(new ToolExecutor({ quiet: true }).runVerification('sleep 5', { signal: controller.signal }), (e: unknown) => isAbortError(e));
+    });
+});
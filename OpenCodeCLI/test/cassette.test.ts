@@ -0,0 +1,115 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CASSETTE_VERSION, CassetteEntry, CassetteMatch, CassetteMissError, CassettePlayer, CassetteRecorder, requestHash } from '../src/cassette';
+import { OpenCodeConfig } from '../src/config';
+import { LLMClient } from '../src/llm-client';
+import { NetworkError } from '../src/llm-errors';
+import { enterTempDir, leaveTempDir, startServer } from './fakes';
+
+let dir: string;
+
+before(() => { dir = enterTempDir('cassette'); });
+after(() => leaveTempDir(dir));
+
+/** A player over a cassette with the given entries */
+function playerFor(name: string, entries: [string, unknown, CassetteEntry['response']][], match?: CassetteMatch) {
+    const file = path.join(dir, `${name}.json`);
+    fs.writeFileSync(file, JSON.stringify({
+        version: CASSETTE_VERSION,
+        entries: entries.map(([url, body, response]) => ({ hash: requestHash(url, body), request: { url, body }, response }))
+    }));
+    return new CassettePlayer(file, match);
+}
+
+describe('requestHash', () => {
+    test('ignores key order and undefined values', () => {
+        assert.equal(requestHash('u', { a: 1, b: [1, { c: 2 }], d: undefined }), requestHash('u', { b: [1, { c: 2 }], a: 1 }));
+        assert.notEqual(requestHash('u', { a: 1 }), requestHash('v', { a: 1 }));
+    });
+});
+
+describe('CassettePlayer', () => {
+    const ENTRIES: [string, unknown, CassetteEntry['response']][] = [
+        ['u', { n: 1 }, { status: 200, body: 'one' }],
+        ['u', { n: 2 }, { status: 200, body: 'two' }]
+    ];
+
+    test('matches by hash and serves each entry once', async () => {
+        const player = playerFor('hash', ENTRIES, 'hash');
+        assert.equal(await player.replay('u', { n: 2 }).text(), 'two');
+        assert.throws(() => player.replay('u', { n: 2 }), CassetteMissError);
+        assert.equal(await player.replay('u', { n: 1 }).text(), 'one');
+        assert.equal(player.remaining, 0);
+    });
+
+    test('serves in order regardless of the request', async () => {
+        const player = playerFor('order', ENTRIES, 'order');
+        assert.equal(await player.replay('u', { n: 2 }).text(), 'one');
+        assert.equal(await player.replay('x', {}).text(), 'two');
+        assert.throws(() => player.replay('u', { n: 1 }), CassetteMissError);
+    });
+
+    test('falls back to the next entry in order when auto finds no hash', async () => {
+        const player = playerFor('auto', ENTRIES);
+        assert.equal(await player.replay('u', { changed: true }).text(), 'one');
+        assert.equal(await player.replay('u', { n: 2 }).text(), 'two');
+    });
+
+    test('replays chunks as a stream and headers by any case', async () => {
+        const player = playerFor('stream', [['u', {}, { status: 429, chunks: ['a', 'b'], headers: { 'retry-after': '1' } }]]);
+        const response = player.replay('u', {});
+        assert.equal(response.ok, false);
+        assert.equal(response.headers.get('Retry-After'), '1');
+        const parts: string[] = [];
+        for await (const chunk of response.body!) parts.push(chunk.toString());
+        assert.deepEqual(parts, ['a', 'b']);
+    });
+
+    test('throws recorded network errors as what they were classified as', () => {
+        const player = playerFor('errors', [
+            ['u', { n: 1 }, { status: 0, error: 'connect ECONNREFUSED', errorKind: 'network' }],
+            ['u', { n: 2 }, { status: 0, error: 'something odd' }]
+        ]);
+        assert.throws(() => player.replay('u', { n: 1 }), (e: unknown) => e instanceof NetworkError && e.retryable);
+        assert.throws(() => player.replay('u', { n: 2 }), (e: unknown) => !(e instanceof NetworkError) && (e as Error).message === 'something odd');
+    });
+
+    test('rejects files that are not cassettes', () => {
+        const file = path.join(dir, 'bad.json');
+        fs.writeFileSync(file, '{"entries": []}');
+        assert.throws(() => new CassettePlayer(file), /Invalid cassette/);
+    });
+});
+
+describe('recording and replaying through LLMClient', () => {
+    test('replays a run that failed over after a network error the same way', async () => {
+        const gone = await startServer(() => { /* closed before use */ });
+        await gone.close();
+        const up = await startServer((_req, res) => res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'from backup' } }] })));
+        const config: OpenCodeConfig = {
+            baseURL: gone.url, model: 'main', timeout: 5000, retries: 0,
+            fallback: [{ label: 'backup', provider: 'openai', baseURL: up.url, model: 'backup', contextLength: 8192, toolCalling: 'native' }]
+        };
+        const file = path.join(dir, 'run.json');
+        const run = async (client: LLMClient) => {
+            const switches: string[] = [];
+            client.on('model:switch', ({ to, reason }) => switches.push(`${to} (${reason})`));
+            const reply = await client.chat([{ role: 'user', content: 'hi' }], { tools: [] });
+            return { content: reply.content, switches };
+        };
+        try {
+            const live = await run(new LLMClient(config, { record: new CassetteRecorder(file) }));
+            assert.deepEqual(live, { content: 'from backup', switches: ['backup (failure)'] });
+            const recorded = JSON.parse(fs.readFileSync(file, 'utf-8')).entries;
+            assert.equal(recorded[0].response.errorKind, 'network');
+
+            const player = new CassettePlayer(file, 'hash');
+            assert.deepEqual(await run(new LLMClient(config, { replay: player })), live);
+            assert.equal(player.remaining, 0);
+        } finally {
+            await up.close();
+        }
+    });
+});
@@ -0,0 +1,72 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CheckpointStore } from '../src/checkpoints';
+import { ToolExecutor } from '../src/tools';
+import { enterTempDir, leaveTempDir, toolCall } from './fakes';
+
+let dir: string;
+
+before(() => { dir = enterTempDir('checkpoints'); });
+after(() => leaveTempDir(dir));
+
+const file = (name: string) => path.join(dir, name);
+const read = (name: string) => fs.existsSync(file(name)) ? fs.readFileSync(file(name), 'utf-8') : null;
+
+describe('CheckpointStore', () => {
+    test('undoes a turn, created files included, and redoes it', async () => {
+        fs.writeFileSync(file('a.txt'), 'one');
+        const store = new CheckpointStore();
+        store.beginTurn('edit');
+        await store.snapshot(file('a.txt'));
+        await store.snapshot(file('new.txt'));
+        await store.snapshot(file('a.txt'));
+        fs.writeFileSync(file('a.txt'), 'two');
+        fs.writeFileSync(file('new.txt'), 'created');
+        assert.deepEqual(store.currentTurnFiles(), [file('a.txt'), file('new.txt')]);
+
+        const undone = await store.undo();
+        assert.equal(undone?.label, 'edit');
+        assert.equal(read('a.txt'), 'one');
+        assert.equal(read('new.txt'), null);
+        assert.ok(store.canRedo());
+
+        await store.redo();
+        assert.equal(read('a.txt'), 'two');
+        assert.equal(read('new.txt'), 'created');
+    });
+
+    test('lists only turns that changed files, and a new change clears redo', async () => {
+        fs.writeFileSync(file('b.txt'), '1');
+        const store = new CheckpointStore();
+        store.beginTurn('just talking');
+        store.beginTurn('first');
+        await store.snapshot(file('b.txt'));
+        fs.writeFileSync(file('b.txt'), '2');
+        await store.undo();
+
+        store.beginTurn('second');
+        await store.snapshot(file('b.txt'));
+        assert.deepEqual(store.list().map(c => c.label), ['second']);
+        assert.ok(!store.canRedo());
+        assert.equal(await store.redo(), null);
+    });
+});
+
+describe('ToolExecutor snapshots', () => {
+    test('records files before write_file, edit_file and apply_patch change them', async () => {
+        fs.writeFileSync(file('c.txt'), 'old\n');
+        const checkpoints = new CheckpointStore();
+        const tools = new ToolExecutor({ quiet: true, checkpoints });
+        checkpoints.beginTurn('tools');
+        await tools.execute(toolCall('1', 'edit_file', { path: 'c.txt', old_text: 'old', new_text: 'mid' }));
+        await tools.execute(toolCall('2', 'apply_patch', { patch: '--- a/c.txt\n+++ b/c.txt\n@@ -1 +1 @@\n-mid\n+new\n' }));
+        await tools.execute(toolCall('3', 'write_file', { path: 'd.txt', content: 'd' }));
+        assert.deepEqual(checkpoints.currentTurnFiles(), [file('c.txt'), file('d.txt')]);
+
+        await checkpoints.undo();
+        assert.equal(read('c.txt'), 'old\n');
+        assert.equal(read('d.txt'), null);
+    });
+});
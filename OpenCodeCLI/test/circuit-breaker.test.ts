@@ -0,0 +1,32 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CircuitBreaker } from '../src/circuit-breaker';
+
+describe('CircuitBreaker', () => {
+    test('opens on failure, probes after the cooldown and closes on success', async () => {
+        const breaker = new CircuitBreaker(30);
+        assert.ok(!breaker.isOpen('a') && !breaker.isProbing('a'));
+
+        breaker.recordFailure('a');
+        assert.ok(breaker.isOpen('a'));
+        assert.ok(!breaker.isProbing('a'));
+        assert.deepEqual(breaker.getOpen().map(c => c.key), ['a']);
+
+        await new Promise(resolve => setTimeout(resolve, 40));
+        assert.ok(!breaker.isOpen('a'));
+        assert.ok(breaker.isProbing('a'));
+
+        breaker.recordSuccess('a');
+        assert.ok(!breaker.isProbing('a'));
+        assert.deepEqual(breaker.getOpen(), []);
+    });
+
+    test('a failed probe opens the circuit again', () => {
+        const breaker = new CircuitBreaker(0);
+        breaker.recordFailure('a');
+        assert.ok(breaker.isProbing('a'));
+        breaker.setCooldown(60000);
+        breaker.recordFailure('a');
+        assert.ok(breaker.isOpen('a'));
+    });
+});
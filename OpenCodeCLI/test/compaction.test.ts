@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { compactHistory, estimateTokens, needsCompaction } from '../src/compaction';
+import { LLMClient, Message } from '../src/llm-client';
+
+/** An LLMClient whose chat() answers with a fixed summary and remembers what it was sent */
+function fakeLLM(summary: string) {
+    const requests: Message[][] = [];
+    const llm = { chat: async (messages: Message[]) => { requests.push(messages); return { role: 'assistant', content: summary }; } };
+    return { llm: llm as unknown as LLMClient, requests };
+}
+
+const call = (id: string): Message => ({
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ id, function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }]
+});
+const result = (id: string, content: string): Message => ({ role: 'tool', tool_call_id: id, name: 'read_file', content });
+
+describe('estimateTokens', () => {
+    test('counts characters, tool call arguments and a per-message overhead', () => {
+        assert.equal(estimateTokens([{ role: 'user', content: 'x'.repeat(40) }]), 10 + 4);
+        assert.equal(estimateTokens([call('1')]), Math.ceil('read_file{"path":"a.ts"}'.length / 4) + 4);
+    });
+
+    test('compares against the threshold of the context window', () => {
+        const history: Message[] = [{ role: 'user', content: 'x'.repeat(400) }];
+        assert.ok(needsCompaction(history, { contextLength: 128 }));
+        assert.ok(!needsCompaction(history, { contextLength: 1000 }));
+    });
+});
+
+describe('compactHistory', () => {
+    test('leaves short histories alone', async () => {
+        const history: Message[] = [{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }];
+        const { llm, requests } = fakeLLM('unused');
+        const compacted = await compactHistory(history, llm, { contextLength: 10 });
+        assert.equal(compacted.history, history);
+        assert.equal(requests.length, 0);
+    });
+
+    test('stubs large old tool outputs before summarizing', async () => {
+        const history: Message[] = [
+            { role: 'system', content: 'sys' },
+            { role: 'user', content: 'read it' },
+            call('1'),
+            result('1', 'first line\n' + 'x'.repeat(2000)),
+            { role: 'user', content: 'a' }, { role: 'assistant', content: 'b' },
+            { role: 'user', content: 'c' }, { role: 'assistant', content: 'd' }
+        ];
+        const { llm, requests } = fakeLLM('unused');
+        const compacted = await compactHistory(history, llm, { contextLength: 4000, keepRecent: 4 });
+        assert.equal(requests.length, 0);
+        assert.equal(compacted.stubbed, 1);
+        assert.match(compacted.history[3].content as string, /^\[Output of read_file removed during compaction: 2011 chars\. First line: first line\]$/);
+        assert.ok(compacted.tokensAfter < compacted.tokensBefore);
+    });
+
+    test('replaces older turns by a summary in a user message', async () => {
+        const history: Message[] = [
+            { role: 'system', content: 'sys' },
+            { role: 'user', content: 'x'.repeat(800) },
+            { role: 'assistant', content: 'y'.repeat(800) },
+            { role: 'user', content: 'recent question' },
+            { role: 'assistant', content: 'recent answer' }
+        ];
+        const { llm, requests } = fakeLLM('- the user wants x');
+        const compacted = await compactHistory(history, llm, { contextLength: 400, keepRecent: 2 });
+        assert.equal(requests.length, 1);
+        // Half the context window of transcript at most, keeping the newest part
+        assert.match(requests[0][1].content as string, /^\.\.\. \(earlier messages omitted\)\n\ny{800}$/);
+        assert.deepEqual(compacted.history, [
+            { role: 'system', content: 'sys' },
+            { role: 'user', content: 'Summary of the earlier conversation (compacted):\n- the user wants x' },
+            { role: 'user', content: 'recent question' },
+            { role: 'assistant', content: 'recent answer' }
+        ]);
+        assert.equal(compacted.summarized, 2);
+    });
+
+    test('never keeps a tool result without the call it answers', async () => {
+        const history: Message[] = [
+            { role: 'system', content: 'sys' },
+            { role: 'user', content: 'x'.repeat(800) },
+            call('1'),
+            result('1', 'one'),
+            { role: 'assistant', content: 'done' }
+        ];
+        const { llm } = fakeLLM('summary');
+        const compacted = await compactHistory(history, llm, { contextLength: 300, keepRecent: 2 });
+        const recent = compacted.history.slice(2);
+        assert.equal(recent[0].role, 'assistant');
+        assert.deepEqual(recent.map(m => m.role), ['assistant', 'tool', 'assistant']);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { resolveModelTarget, resolveSelection } from '../src/config';
+import { ConfigError, ConfigFile, formatIssues, isLegacyConfig, migrateLegacyConfig, validateConfig } from '../src/config-schema';
+
+const FILE: ConfigFile = {
+    version: 2,
+    providers: {
+        colab: { type: 'openai', baseURL: 'https://colab.example/v1', models: { 'qwen2.5-coder:7b': { contextLength: 32768 } } },
+        local: { type: 'ollama', baseURL: 'http://localhost:11434', models: { small: { tools: false }, big: {} } }
+    },
+    profiles: { smart: { provider: 'colab', model: 'qwen2.5-coder:7b' } }
+};
+
+describe('validateConfig', () => {
+    test('accepts a full config and a partial project config', () => {
+        assert.deepEqual(validateConfig(FILE), []);
+        assert.deepEqual(validateConfig({ model: 'x', providers: { colab: { baseURL: 'http://localhost:1234' } } }, { partial: true }), []);
+    });
+
+    test('reports every problem with its path', () => {
+        const issues = validateConfig({ version: 2, providers: { a: { baseURL: 'nope', models: { 'm:7b': { contextLength: -1 } } } } });
+        assert.deepEqual(issues.filter(i => i.severity === 'error').map(i => i.path).sort(), [
+            'providers.a.baseURL',
+            'providers.a.models["m:7b"].contextLength'
+        ]);
+    });
+
+    test('quotes permission patterns in paths', () => {
+        const issues = validateConfig({ permissions: { commands: { 'git push*': 'yes' }, tools: 'all' } }, { partial: true });
+        assert.deepEqual(issues.map(i => i.path), ['permissions.tools', 'permissions.commands["git push*"]']);
+    });
+
+    test('checks that profiles name a configured provider', () => {
+        const issues = validateConfig({ ...FILE, profiles: { fast: { provider: 'missing', model: 'x' } } });
+        assert.deepEqual(issues.map(i => [i.path, i.severity]), [['profiles.fast.provider', 'error']]);
+    });
+
+    test('warns about unknown keys', () => {
+        const issues = validateConfig({ ...FILE, colour: 'blue' });
+        assert.deepEqual(formatIssues(issues), ['warning: colour: unknown key (ignored)']);
+    });
+});
+
+describe('migrateLegacyConfig', () => {
+    test('converts the colab-era format', () => {
+        const legacy = { provider: { colab: { options: { baseURL: 'https://x.trycloudflare.com/v1' }, models: { 'qwen2.5-coder:7b': {} } } }, timeout: 5000 };
+        assert.ok(isLegacyConfig(legacy));
+        assert.ok(!isLegacyConfig(FILE));
+        const migrated = migrateLegacyConfig(legacy);
+        assert.deepEqual(migrated, {
+            version: 2,
+            providers: { colab: { type: 'openai', baseURL: 'https://x.trycloudflare.com/v1', models: { 'qwen2.5-coder:7b': {} } } },
+            profiles: { default: { provider: 'colab', model: 'qwen2.5-coder:7b' } },
+            defaultProfile: 'default',
+            timeout: 5000
+        });
+        assert.deepEqual(validateConfig(migrated), []);
+    });
+});
+
+describe('profiles and model targets', () => {
+    test('selects the named profile, the default one or the first model', () => {
+        assert.deepEqual(resolveSelection(FILE, 'smart'), { providerId: 'colab', model: 'qwen2.5-coder:7b', profile: 'smart' });
+        assert.deepEqual(resolveSelection({ ...FILE, defaultProfile: 'smart' }).profile, 'smart');
+        assert.deepEqual(resolveSelection({ ...FILE, profiles: undefined }), { providerId: 'colab', model: 'qwen2.5-coder:7b' });
+        assert.throws(() => resolveSelection(FILE, 'nope'), (e: unknown) => e instanceof ConfigError && /available: smart/.test(e.issues[0].message));
+    });
+
+    test('resolves a provider/model pair with the model settings', () => {
+        const target = resolveModelTarget(FILE, 'local', 'small');
+        assert.equal(target.label, 'local/small');
+        assert.equal(target.provider, 'ollama');
+        assert.equal(target.toolCalling, 'prompt');
+        assert.equal(resolveModelTarget(FILE, 'colab', 'qwen2.5-coder:7b').contextLength, 32768);
+    });
+});
@@ -0,0 +1,133 @@
+import './home';
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, mergeConfigFiles, OpenCodeConfig, updateConfigLayer } from '../src/config';
+import { ConfigError, ConfigFile, PartialConfigFile } from '../src/config-schema';
+import { DEFAULT_PROTECTED_PATHS } from '../src/workspace';
+import { enterTempDir, leaveTempDir } from './fakes';
+
+const USER: ConfigFile = {
+    version: 2,
+    providers: {
+        colab: { type: 'openai', baseURL: 'https://colab.example/v1', models: { 'qwen2.5-coder:7b': { contextLength: 32768 }, 'small': {} } }
+    },
+    profiles: { smart: { provider: 'colab', model: 'qwen2.5-coder:7b' }, fast: { provider: 'colab', model: 'small' } },
+    defaultProfile: 'smart',
+    permissions: { commands: { 'git*': 'allow' } },
+    timeout: 60000
+};
+
+let dir: string;
+let userPath: string;
+let projectPath: string;
+
+before(() => {
+    dir = enterTempDir('config');
+    userPath = path.join(dir, 'opencode.json');
+    projectPath = path.join(dir, 'project', '.opencode', 'config.json');
+    fs.mkdirSync(path.dirname(projectPath), { recursive: true });
+    process.chdir(path.join(dir, 'project'));
+});
+
+after(() => leaveTempDir(dir));
+
+function writeConfigs(project?: PartialConfigFile) {
+    fs.writeFileSync(userPath, JSON.stringify(USER));
+    if (project) fs.writeFileSync(projectPath, JSON.stringify(project));
+    else fs.rmSync(projectPath, { force: true });
+}
+
+describe('mergeConfigFiles', () => {
+    test('merges providers and models by name and replaces other keys', () => {
+        const merged = mergeConfigFiles(USER, {
+            providers: { colab: { baseURL: 'http://localhost:8000/v1', models: { 'tiny': {} } } },
+            permissions: { commands: { 'git push*': 'ask' } },
+            timeout: 1000
+        });
+        assert.equal(merged.providers.colab.baseURL, 'http://localhost:8000/v1');
+        assert.equal(merged.providers.colab.type, 'openai');
+        assert.deepEqual(Object.keys(merged.providers.colab.models), ['qwen2.5-coder:7b', 'small', 'tiny']);
+        assert.deepEqual(merged.permissions?.commands, { 'git*': 'allow', 'git push*': 'ask' });
+        assert.equal(merged.timeout, 1000);
+        assert.deepEqual(merged.profiles, USER.profiles);
+    });
+
+    test('does not touch the user config it merges', () => {
+        mergeConfigFiles(USER, { providers: { colab: { models: { extra: {} } } } });
+        assert.deepEqual(Object.keys(USER.providers.colab.models), ['qwen2.5-coder:7b', 'small']);
+    });
+});
+
+describe('loadConfig', () => {
+    test('layers the project over the user config and reports where settings came from', () => {
+        writeConfigs({ timeout: 5000, model: 'small' });
+        const config = loadConfig({ configPath: userPath });
+        assert.equal(config.timeout, 5000);
+        assert.equal(config.model, 'small');
+        assert.equal(config.baseURL, 'https://colab.example/v1');
+        assert.deepEqual(config.sources?.timeout, { layer: 'project', origin: projectPath });
+        assert.equal(config.sources?.retries.layer, 'default');
+        assert.equal(config.retries, 3);
+    });
+
+    test('puts the environment over the project and the CLI over both', () => {
+        writeConfigs({ timeout: 5000, defaultProfile: 'fast' });
+        process.env.OPENCODE_TIMEOUT = '7000';
+        process.env.OPENCODE_PROFILE = 'fast';
+        try {
+            const config = loadConfig({ configPath: userPath, profile: 'smart' });
+            assert.equal(config.timeout, 7000);
+            assert.deepEqual(config.sources?.timeout, { layer: 'env', origin: 'OPENCODE_TIMEOUT' });
+            assert.equal(config.profile, 'smart');
+            assert.equal(config.model, 'qwen2.5-coder:7b');
+            assert.equal(config.contextLength, 32768);
+        } finally {
+            delete process.env.OPENCODE_TIMEOUT;
+            delete process.env.OPENCODE_PROFILE;
+        }
+    });
+
+    test('adds project protectedPaths to the protected globs instead of replacing them', () => {
+        writeConfigs({ protectedPaths: [] });
+        assert.deepEqual(loadConfig({ configPath: userPath }).protectedPaths, DEFAULT_PROTECTED_PATHS);
+        writeConfigs({ protectedPaths: ['secrets/**', '.env*'] });
+        const config = loadConfig({ configPath: userPath });
+        assert.deepEqual(config.protectedPaths, [...DEFAULT_PROTECTED_PATHS, 'secrets/**']);
+        assert.equal(config.sources?.protectedPaths.layer, 'project');
+    });
+
+    test('reports an invalid project config with its path', () => {
+        writeConfigs({ timeout: 'soon' as unknown as number });
+        assert.throws(() => loadConfig({ configPath: userPath }), (e: unknown) => e instanceof ConfigError && e.file === projectPath);
+    });
+});
+
+describe('updateConfigLayer', () => {
+    const config = (): OpenCodeConfig => ({ baseURL: USER.providers.colab.baseURL, model: 'qwen2.5-coder:7b', configPath: userPath, projectConfigPath: projectPath });
+
+    test('writes the change to the user config', () => {
+        writeConfigs();
+        updateConfigLayer(config(), 'user', (file) => { file.model = 'small'; });
+        assert.equal(JSON.parse(fs.readFileSync(userPath, 'utf-8')).model, 'small');
+    });
+
+    test('refuses a change that would not load, and leaves the file alone', () => {
+        writeConfigs();
+        const original = fs.readFileSync(userPath, 'utf-8');
+        assert.throws(() => updateConfigLayer(config(), 'user', (file) => {
+            file.providers.other = { baseURL: 'http://localhost:1' };
+        }), (e: unknown) => e instanceof ConfigError && e.issues[0].path === 'providers.other.models');
+        assert.equal(fs.readFileSync(userPath, 'utf-8'), original);
+    });
+
+    test('accepts partial providers in the project config', () => {
+        writeConfigs();
+        const saved = updateConfigLayer(config(), 'project', (file) => {
+            file.providers = { colab: { models: { tiny: {} } } };
+        });
+        assert.equal(saved, projectPath);
+        assert.deepEqual(JSON.parse(fs.readFileSync(saved, 'utf-8')), { providers: { colab: { models: { tiny: {} } } } });
+    });
+});
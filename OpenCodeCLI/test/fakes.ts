@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMChatOptions, LLMClient, Message } from '../src/llm-client';
+import { LLMClientEvents, TypedEventEmitter } from '../src/events';
+import { ToolCall } from '../src/tools';
+
+type Reply = Message | ((messages: Message[], options: LLMChatOptions) => Message | Promise<Message>);
+
+/**
+ * An LLMClient that answers from a script instead of the network and keeps
+ * a copy of every request it got
+ */
+export class ScriptedLLM extends TypedEventEmitter<LLMClientEvents> {
+    readonly requests: { messages: Message[]; options: LLMChatOptions }[] = [];
+
+    constructor(private replies: Reply[]) {
+        super();
+    }
+
+    async chat(messages: Message[], options: LLMChatOptions = {}): Promise<Message> {
+        this.requests.push({ messages: messages.slice(), options });
+        const reply = this.replies.shift();
+        if (!reply) throw new Error('ScriptedLLM: no reply left');
+        return typeof reply === 'function' ? reply(messages, options) : reply;
+    }
+
+    asClient(): LLMClient {
+        return this as unknown as LLMClient;
+    }
+}
+
+export function toolCall(id: string, name: string, args: object): ToolCall {
+    return { id, function: { name, arguments: JSON.stringify(args) } };
+}
+
+export function callsTools(...calls: ToolCall[]): Message {
+    return { role: 'assistant', content: '', tool_calls: calls };
+}
+
+export function answers(content: string): Message {
+    return { role: 'assistant', content };
+}
+
+/**
+ * Make a fresh temporary directory the working directory (the workspace of
+ * a ToolExecutor) and return its real path
+ */
+export function enterTempDir(prefix: string): string {
+    const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), `opencode-${prefix}-`)));
+    process.chdir(dir);
+    return dir;
+}
+
+export function leaveTempDir(dir: string) {
+    process.chdir(os.tmpdir());
+    fs.rmSync(dir, { recursive: true, force: true });
+}
+
+export interface TestServer {
+    /** http://127.0.0.1:<port> */
+    url: string;
+    /** Parsed JSON bodies of the requests so far */
+    bodies: any[];
+    close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server standing in for an LLM API. The handler gets the
+ * parsed JSON body and the number of the request (from 0).
+ */
+export async function startServer(handler: (req: http.IncomingMessage, res: http.ServerResponse, body: any, index: number) => void): Promise<TestServer> {
+    const bodies: any[] = [];
+    const server = http.createServer((req, res) => {
+        let raw = '';
+        req.on('data', chunk => raw += chunk);
+        req.on('end', () => {
+            const body = raw ? JSON.parse(raw) : undefined;
+            bodies.push(body);
+            handler(req, res, body, bodies.length - 1);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        bodies,
+        close: () => new Promise(resolve => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        })
+    };
+}
@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Import this first in tests that load configs: HOME points at a temporary
+ * directory (paths like TRUSTED_PROJECTS_FILE are computed at import time)
+ * and the OPENCODE_* variables of the environment are ignored.
+ */
+export const TEST_HOME = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'opencode-home-')));
+process.env.HOME = TEST_HOME;
+for (const name of Object.keys(process.env)) {
+    if (name.startsWith('OPENCODE_') || name === 'OPENAI_API_KEY') delete process.env[name];
+}
+process.on('exit', () => fs.rmSync(TEST_HOME, { recursive: true, force: true }));
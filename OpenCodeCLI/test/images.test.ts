@@ -0,0 +1,136 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    contentText, countImages, detectImageType, formatBytes, hasImages, ImageError, imageDimensions, loadImage,
+    MAX_IMAGE_SIDE, parseDataUrl, stripImages, userContent
+} from '../src/images';
+import { ImagePart, LLMClient, Message } from '../src/llm-client';
+import { ImagesUnsupportedError } from '../src/llm-errors';
+import { getProviderAdapter } from '../src/providers';
+import { enterTempDir, leaveTempDir, startServer } from './fakes';
+
+/** The start of a PNG file: signature and IHDR with the given size */
+function png(width: number, height: number): Buffer {
+    const data = Buffer.alloc(33);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(data);
+    data.writeUInt32BE(13, 8);
+    data.write('IHDR', 12);
+    data.writeUInt32BE(width, 16);
+    data.writeUInt32BE(height, 20);
+    return data;
+}
+
+/** A JPEG with an APP0 segment before the SOF0 marker */
+function jpeg(width: number, height: number): Buffer {
+    const app0 = [0xff, 0xe0, 0x00, 0x04, 0x00, 0x00];
+    const sof0 = [0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x00, 0x00, 0x00];
+    return Buffer.from([0xff, 0xd8, ...app0, ...sof0, 0xff, 0xd9]);
+}
+
+const IMAGE: ImagePart = { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } };
+
+let dir: string;
+
+before(() => {
+    dir = enterTempDir('images');
+    fs.writeFileSync(path.join(dir, 'small.png'), png(20, 10));
+    fs.writeFileSync(path.join(dir, 'photo.jpg'), jpeg(640, 480));
+    fs.writeFileSync(path.join(dir, 'huge.png'), png(MAX_IMAGE_SIDE * 2, 100));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'not an image');
+});
+after(() => leaveTempDir(dir));
+
+describe('image headers', () => {
+    test('detects PNG and JPEG and reads their size', () => {
+        assert.equal(detectImageType(png(1, 1)), 'image/png');
+        assert.equal(detectImageType(jpeg(1, 1)), 'image/jpeg');
+        assert.equal(detectImageType(Buffer.from('GIF89a')), null);
+        assert.deepEqual(imageDimensions(png(20, 10), 'image/png'), { width: 20, height: 10 });
+        assert.deepEqual(imageDimensions(jpeg(640, 480), 'image/jpeg'), { width: 640, height: 480 });
+        assert.equal(imageDimensions(Buffer.from([0xff, 0xd8, 0xff, 0x00, 0, 0, 0, 0, 0, 0, 0, 0]), 'image/jpeg'), null);
+    });
+
+    test('formats sizes', () => {
+        assert.equal(formatBytes(512), '512 bytes');
+        assert.equal(formatBytes(1500), '2 KB');
+        assert.equal(formatBytes(5 * 1024 * 1024), '5.0 MB');
+    });
+});
+
+describe('loadImage', () => {
+    test('reads an image as a data URL with its size', () => {
+        const image = loadImage('photo.jpg');
+        assert.deepEqual([image.mediaType, image.width, image.height, image.bytes], ['image/jpeg', 640, 480, jpeg(640, 480).length]);
+        assert.deepEqual(parseDataUrl(image.part.image_url.url), { mediaType: 'image/jpeg', data: jpeg(640, 480).toString('base64') });
+    });
+
+    test('refuses missing and unsupported files', () => {
+        assert.throws(() => loadImage('missing.png'), (e: unknown) => e instanceof ImageError && /not found/.test(e.message));
+        assert.throws(() => loadImage('notes.txt'), /not a PNG or JPEG/);
+        assert.throws(() => loadImage('.'), /Not a file/);
+    });
+
+    test('sends an image it cannot downscale at full size, with a warning', () => {
+        const image = loadImage('huge.png');
+        assert.equal(image.width, MAX_IMAGE_SIDE * 2);
+        assert.match(image.warning ?? '', /could not be downscaled/);
+    });
+});
+
+describe('image content', () => {
+    test('builds, reads and strips image parts', () => {
+        const messages: Message[] = [{ role: 'user', content: userContent('look', [IMAGE, IMAGE]) }, { role: 'user', content: userContent('plain') }];
+        assert.equal(messages[1].content, 'plain');
+        assert.equal(countImages(messages[0].content), 2);
+        assert.equal(contentText(messages[0].content), 'look\n[image]\n[image]');
+        assert.ok(hasImages(messages));
+        const stripped = stripImages(messages, '[no vision]');
+        assert.ok(!hasImages(stripped));
+        assert.equal(contentText(stripped[0].content), 'look\n[no vision]\n[no vision]');
+    });
+
+    test('is translated for Ollama and Anthropic', () => {
+        const request = { model: 'm', messages: [{ role: 'user' as const, content: userContent('look', [IMAGE]) }], tools: [], stream: false };
+        const ollama: any = getProviderAdapter('ollama').buildChatRequest(request, { baseURL: 'http://x' }).body;
+        assert.deepEqual(ollama.messages[0], { role: 'user', content: 'look', images: ['AAAA'] });
+        const anthropic: any = getProviderAdapter('anthropic').buildChatRequest(request, { baseURL: 'http://x' }).body;
+        assert.deepEqual(anthropic.messages[0].content[1], { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } });
+    });
+});
+
+describe('models without vision', () => {
+    test('leaves images out for a model that rejected them once', async () => {
+        const server = await startServer((_req, res, body) => {
+            if (hasImages(body.messages)) {
+                res.statusCode = 400;
+                res.end('this model does not support image input');
+            } else {
+                res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'text only' } }] }));
+            }
+        });
+        try {
+            const client = new LLMClient({ baseURL: server.url, model: 'm', retries: 0 });
+            const messages: Message[] = [{ role: 'user', content: userContent('look', [IMAGE]) }];
+            await assert.rejects(client.chat(messages, { tools: [] }), ImagesUnsupportedError);
+            assert.ok(!client.acceptsImages());
+            assert.equal((await client.chat(messages, { tools: [] })).content, 'text only');
+            assert.match(contentText(server.bodies[1].messages[0].content), /\[image omitted: .* does not accept images\]/);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('never sends images to a model configured with vision: false', async () => {
+        const server = await startServer((_req, res) => res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'ok' } }] })));
+        try {
+            const client = new LLMClient({ baseURL: server.url, model: 'm', retries: 0, vision: false });
+            assert.ok(!client.acceptsImages());
+            await client.chat([{ role: 'user', content: userContent('look', [IMAGE]) }], { tools: [] });
+            assert.ok(!hasImages(server.bodies[0].messages));
+        } finally {
+            await server.close();
+        }
+    });
+});
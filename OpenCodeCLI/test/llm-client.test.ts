@@ -0,0 +1,189 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ModelTarget, OpenCodeConfig } from '../src/config';
+import { isAbortError, LLMClient } from '../src/llm-client';
+import { AuthError, LLMError } from '../src/llm-errors';
+import { startServer } from './fakes';
+
+function configFor(baseURL: string, extra: Partial<OpenCodeConfig> = {}): OpenCodeConfig {
+    return { baseURL, model: 'test-model', timeout: 5000, retries: 0, ...extra };
+}
+
+describe('cancelling a request', () => {
+    test('aborts a request the server has not answered yet', async () => {
+        const server = await startServer(() => { /* never answers */ });
+        try {
+            const controller = new AbortController();
+            const started = Date.now();
+            setTimeout(() => controller.abort(), 50);
+            await assert.rejects(new LLMClient(configFor(server.url)).chat([{ role: 'user', content: 'hi' }], { signal: controller.signal }), (e: unknown) => isAbortError(e));
+            assert.ok(Date.now() - started < 2000);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('aborts a stream in the middle of the answer', async () => {
+        const server = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hel' } }] })}\n\n`);
+        });
+        try {
+            const controller = new AbortController();
+            const chunks: string[] = [];
+            const request = new LLMClient(configFor(server.url)).chat([{ role: 'user', content: 'hi' }], {
+                stream: true,
+                signal: controller.signal,
+                onChunk: (text) => { chunks.push(text); controller.abort(); }
+            });
+            await assert.rejects(request, (e: unknown) => isAbortError(e));
+            assert.deepEqual(chunks, ['Hel']);
+        } finally {
+            await server.close();
+        }
+    });
+});
+
+/** Body of an OpenAI-style chat completion */
+function completion(content: string) {
+    return JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] });
+}
+
+describe('text tool calls', () => {
+    test('turns a tool call written as text into a real one', async () => {
+        const server = await startServer((_req, res) => {
+            res.end(completion('<tool_call>{"name": "read_file", "arguments": {"path": "a.ts"}}</tool_call>'));
+        });
+        try {
+            const reply = await new LLMClient(configFor(server.url)).chat([{ role: 'user', content: 'read a.ts' }]);
+            assert.equal(reply.content, null);
+            assert.deepEqual(reply.tool_calls?.map(c => [c.function.name, c.function.arguments]), [['read_file', '{"path":"a.ts"}']]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('sends the tools in the system prompt for toolCalling: prompt', async () => {
+        const server = await startServer((_req, res) => res.end(completion('hello')));
+        try {
+            await new LLMClient(configFor(server.url, { toolCalling: 'prompt' })).chat([{ role: 'system', content: 'sys' }, { role: 'user', content: 'hi' }]);
+            assert.equal(server.bodies[0].tools, undefined);
+            assert.match(server.bodies[0].messages[0].content, /^sys\n\n# Tool calling/);
+        } finally {
+            await server.close();
+        }
+    });
+});
+
+describe('retries and timeouts', () => {
+    const sse = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    test('retries a stream that stalls before any text', async () => {
+        const server = await startServer((_req, res, _body, index) => {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(': keep-alive\n\n');
+            if (index > 0) res.end(`${sse('ok')}data: [DONE]\n\n`);
+        });
+        try {
+            const client = new LLMClient(configFor(server.url, { timeout: 200, retries: 1 }));
+            const retries: string[] = [];
+            client.on('retry', ({ kind }) => retries.push(kind));
+            const reply = await client.chat([{ role: 'user', content: 'hi' }], { stream: true, tools: [] });
+            assert.equal(reply.content, 'ok');
+            assert.deepEqual(retries, ['timeout']);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('times out a body that never finishes', async () => {
+        const server = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.write('{"choices": [');
+        });
+        try {
+            await assert.rejects(new LLMClient(configFor(server.url, { timeout: 200 })).chat([{ role: 'user', content: 'hi' }], { tools: [] }),
+                (e: unknown) => e instanceof LLMError && e.kind === 'timeout');
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('neither retries nor falls back once text was streamed', async () => {
+        const stalled = await startServer((_req, res) => {
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            res.write(sse('Hel'));
+        });
+        const up = await startServer((_req, res) => res.end(completion('unused')));
+        try {
+            const client = new LLMClient(configFor(stalled.url, {
+                timeout: 200,
+                retries: 2,
+                fallback: [{ label: 'backup', provider: 'openai', baseURL: up.url, model: 'backup', contextLength: 8192, toolCalling: 'native' }]
+            }));
+            const chunks: string[] = [];
+            await assert.rejects(client.chat([{ role: 'user', content: 'hi' }], { stream: true, tools: [], onChunk: text => chunks.push(text) }),
+                (e: unknown) => e instanceof LLMError && e.kind === 'timeout' && !e.retryable && /after part of the answer was streamed/.test(e.message));
+            assert.deepEqual(chunks, ['Hel']);
+            assert.equal(stalled.bodies.length, 1);
+            assert.equal(up.bodies.length, 0);
+        } finally {
+            await stalled.close();
+            await up.close();
+        }
+    });
+});
+
+describe('fallback and routing', () => {
+    const target = (baseURL: string, model: string): ModelTarget => ({
+        label: `${model}`, provider: 'openai', baseURL, model, contextLength: 8192, toolCalling: 'native'
+    });
+
+    test('moves down the chain when a model keeps failing and skips it afterwards', async () => {
+        const down = await startServer((_req, res) => { res.statusCode = 503; res.end('overloaded'); });
+        const up = await startServer((_req, res) => res.end(completion('from backup')));
+        try {
+            const client = new LLMClient(configFor(down.url, { fallback: [target(up.url, 'backup')] }));
+            const switches: string[] = [];
+            client.on('model:switch', ({ from, to, reason }) => switches.push(`${from} -> ${to} (${reason})`));
+
+            assert.equal((await client.chat([{ role: 'user', content: 'hi' }], { tools: [] })).content, 'from backup');
+            assert.equal((await client.chat([{ role: 'user', content: 'again' }], { tools: [] })).content, 'from backup');
+            assert.deepEqual(switches, [`${down.url}/test-model -> backup (failure)`]);
+            assert.equal(down.bodies.length, 1);
+            assert.equal(client.getServedModel(), 'backup');
+            assert.deepEqual(client.getOpenCircuits().map(c => c.key), [`${down.url}/test-model`]);
+        } finally {
+            await down.close();
+            await up.close();
+        }
+    });
+
+    test('does not fall back on errors that another model would not fix', async () => {
+        const denied = await startServer((_req, res) => { res.statusCode = 401; res.end('bad key'); });
+        const up = await startServer((_req, res) => res.end(completion('unused')));
+        try {
+            const client = new LLMClient(configFor(denied.url, { fallback: [target(up.url, 'backup')] }));
+            await assert.rejects(client.chat([{ role: 'user', content: 'hi' }], { tools: [] }), AuthError);
+            assert.equal(up.bodies.length, 0);
+        } finally {
+            await denied.close();
+            await up.close();
+        }
+    });
+
+    test('sends each use to its routed model', async () => {
+        const main = await startServer((_req, res) => res.end(completion('main')));
+        const cheap = await startServer((_req, res) => res.end(completion('summary')));
+        try {
+            const client = new LLMClient(configFor(main.url, { routing: { summary: target(cheap.url, 'cheap') } }));
+            assert.equal((await client.chat([{ role: 'user', content: 'x' }], { tools: [], use: 'summary' })).content, 'summary');
+            assert.equal((await client.chat([{ role: 'user', content: 'x' }], { tools: [] })).content, 'main');
+            assert.equal(cheap.bodies[0].model, 'cheap');
+            assert.deepEqual(client.getChain('agent:reviewer').map(t => t.model), ['test-model']);
+        } finally {
+            await main.close();
+            await cheap.close();
+        }
+    });
+});
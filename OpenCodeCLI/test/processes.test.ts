@@ -0,0 +1,109 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OutputBuffer, ProcessManager, runShell, truncateOutput } from '../src/processes';
+import { enterTempDir, leaveTempDir } from './fakes';
+
+let dir: string;
+
+before(() => { dir = enterTempDir('processes'); });
+after(() => leaveTempDir(dir));
+
+/** Whether a process with this pid still exists */
+function alive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (_) {
+        return false;
+    }
+}
+
+async function waitUntil(condition: () => boolean, ms: number) {
+    const deadline = Date.now() + ms;
+    while (!condition() && Date.now() < deadline) await new Promise(resolve => setTimeout(resolve, 20));
+}
+
+describe('truncateOutput', () => {
+    test('keeps a third from the start and the rest from the end', () => {
+        assert.equal(truncateOutput('short', 10), 'short');
+        const text = `${'a'.repeat(10)}\n${'b'.repeat(10)}\n${'c'.repeat(10)}`;
+        assert.equal(truncateOutput(text, 9), `aaa\n\n... [23 characters, 2 lines omitted] ...\n\ncccccc`);
+        assert.equal(truncateOutput('x'.repeat(20), 6), `xx\n\n... [14 characters omitted] ...\n\nxxxx`);
+    });
+});
+
+describe('OutputBuffer', () => {
+    test('keeps the start and the end and counts everything appended', () => {
+        const buffer = new OutputBuffer(4);
+        for (const part of ['abc', 'def', 'ghi', 'jkl']) buffer.append(part);
+        assert.equal(buffer.length, 12);
+        assert.equal(buffer.read(0, 100), 'abcd\n... [4 characters not kept] ...\nijkl');
+        assert.equal(buffer.read(10, 100), 'kl');
+        assert.equal(buffer.read(2, 100), 'cd\n... [4 characters not kept] ...\nijkl');
+    });
+});
+
+describe('runShell', () => {
+    const options = { cwd: '.', timeout: 10000, outputLimit: 1000 };
+
+    test('returns the exit code and both streams as they arrived', async () => {
+        const seen: string[] = [];
+        const result = await runShell('echo out; echo err >&2; exit 3', { ...options, cwd: dir, onOutput: (stream) => seen.push(stream) });
+        assert.equal(result.exitCode, 3);
+        assert.equal(result.output, 'out\nerr\n');
+        assert.deepEqual([...new Set(seen)].sort(), ['stderr', 'stdout']);
+        assert.ok(!result.timedOut && !result.cancelled);
+    });
+
+    test('truncates long output to the limit', async () => {
+        const result = await runShell('seq 1 2000', { ...options, outputLimit: 300 });
+        assert.match(result.output, /^1\n2\n[^]*\.\.\. \[\d+ characters, \d+ lines omitted\] \.\.\.[^]*\n2000\n$/);
+        assert.ok(result.output.length < 400);
+    });
+
+    test('kills the command and what it started on timeout', async () => {
+        const result = await runShell('sleep 30 & echo $! > bg.pid; wait', { ...options, timeout: 300 });
+        assert.ok(result.timedOut);
+        assert.ok(result.durationMs < 5000);
+        const pid = Number(fs.readFileSync(path.join(dir, 'bg.pid'), 'utf-8'));
+        await waitUntil(() => !alive(pid), 2000);
+        assert.ok(!alive(pid), 'the background sleep is still running');
+    });
+
+    test('stops when cancelled', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 100);
+        const result = await runShell('sleep 30', { ...options, signal: controller.signal });
+        assert.ok(result.cancelled);
+        assert.ok(result.durationMs < 5000);
+    });
+});
+
+describe('ProcessManager', () => {
+    const manager = new ProcessManager();
+    after(() => manager.stopAll());
+
+    test('returns the output printed since the last read', async () => {
+        const info = manager.start('echo ready; sleep 30', dir);
+        await manager.waitForOutput(info.id, 5000);
+        assert.equal(manager.read(info.id, 1000).output, 'ready\n');
+        assert.equal(manager.read(info.id, 1000).output, '');
+        assert.ok(manager.list().find(p => p.id === info.id)?.running);
+
+        const stopped = await manager.stop(info.id);
+        assert.equal(stopped.running, false);
+        assert.ok(!alive(info.pid!));
+    });
+
+    test('records the exit code of a process that ends by itself', async () => {
+        const info = manager.start('exit 4', dir);
+        await manager.waitForExit(info.id, 5000);
+        assert.deepEqual([manager.read(info.id, 100).info.running, manager.read(info.id, 100).info.exitCode], [false, 4]);
+    });
+
+    test('rejects unknown ids', () => {
+        assert.throws(() => manager.read('p99', 100), /No background process "p99"/);
+    });
+});
@@ -0,0 +1,46 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildSystemPrompt, formatToolsForPrompt, renderTemplate } from '../src/prompts';
+import { TOOLS_DEFINITION } from '../src/tools';
+import { enterTempDir, leaveTempDir } from './fakes';
+
+const TOOLS = [
+    { type: 'function', function: { name: 'read_file', description: 'Read a file', parameters: { properties: { path: {}, start_line: {} }, required: ['path'] } } },
+    { type: 'function', function: { name: 'list_processes', parameters: {} } },
+    { type: 'function' }
+];
+
+describe('formatToolsForPrompt', () => {
+    test('lists each tool with its parameters, optional ones marked', () => {
+        assert.equal(formatToolsForPrompt(TOOLS), '- read_file(path, start_line?): Read a file\n- list_processes(): No description');
+    });
+
+    test('covers every built-in tool', () => {
+        const listed = formatToolsForPrompt(TOOLS_DEFINITION).split('\n').map(line => line.slice(2, line.indexOf('(')));
+        assert.deepEqual(listed, TOOLS_DEFINITION.map(t => t.function.name));
+    });
+});
+
+describe('renderTemplate', () => {
+    test('fills known placeholders and leaves unknown ones', () => {
+        assert.equal(renderTemplate('{{os}} / {{ cwd }} / {{nope}}', { os: 'Linux', cwd: '/x' }), 'Linux / /x / {{nope}}');
+    });
+});
+
+describe('buildSystemPrompt', () => {
+    let dir: string;
+
+    before(() => {
+        dir = enterTempDir('prompts');
+        fs.mkdirSync(path.join('.opencode', 'prompts'), { recursive: true });
+        fs.writeFileSync(path.join('.opencode', 'prompts', 'system.md'), 'Tools in {{cwd}}:\n{{tools}}');
+    });
+
+    after(() => leaveTempDir(dir));
+
+    test('uses the project template and the tools the agent has', () => {
+        assert.equal(buildSystemPrompt(TOOLS.slice(0, 1)), `Tools in ${dir}:\n- read_file(path, start_line?): Read a file`);
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OpenCodeConfig } from '../src/config';
+import { LLMClient, Message } from '../src/llm-client';
+import { ContextOverflowError, LLMError, ServerError } from '../src/llm-errors';
+import { getProviderAdapter, resolveProviderKind } from '../src/providers';
+import { startServer } from './fakes';
+
+const TOOLS = [{ type: 'function', function: { name: 'read_file', description: 'Read', parameters: { type: 'object', properties: { path: { type: 'string' } } } } }];
+
+const CONVERSATION: Message[] = [
+    { role: 'system', content: 'sys' },
+    { role: 'user', content: 'read a' },
+    { role: 'assistant', content: null, tool_calls: [{ id: 't1', function: { name: 'read_file', arguments: '{"path":"a"}' } }] },
+    { role: 'tool', tool_call_id: 't1', name: 'read_file', content: 'A' }
+];
+
+/** Feed lines to an adapter's stream parser; returns the chunks it emitted and its result */
+function parseStream(kind: 'openai' | 'ollama' | 'anthropic', lines: object[], sse = true) {
+    const chunks: string[] = [];
+    const parser = getProviderAdapter(kind).createStreamParser(text => chunks.push(text));
+    for (const line of lines) parser.push(sse ? `data: ${JSON.stringify(line)}` : JSON.stringify(line));
+    return { chunks, ...parser.finish() };
+}
+
+describe('resolveProviderKind', () => {
+    test('takes the type, else guesses from the npm package', () => {
+        assert.equal(resolveProviderKind({ type: 'ollama' }), 'ollama');
+        assert.equal(resolveProviderKind({ npm: '@ai-sdk/anthropic' }), 'anthropic');
+        assert.equal(resolveProviderKind({ type: 'nope', npm: 'ollama-ai-provider' }), 'ollama');
+        assert.equal(resolveProviderKind(undefined), 'openai');
+    });
+});
+
+describe('OpenAI-compatible adapter', () => {
+    const adapter = getProviderAdapter('openai');
+
+    test('posts to /chat/completions with a bearer key and asks for streamed usage', () => {
+        const request = adapter.buildChatRequest({ model: 'm', messages: CONVERSATION, tools: TOOLS, stream: true }, { baseURL: 'http://x/v1', apiKey: 'k' });
+        assert.equal(request.url, 'http://x/v1/chat/completions');
+        assert.equal(request.headers['Authorization'], 'Bearer k');
+        assert.deepEqual((request.body as any).stream_options, { include_usage: true });
+        assert.equal((request.body as any).tools, TOOLS);
+    });
+
+    test('assembles streamed tool calls from their deltas', () => {
+        const { message, usage } = parseStream('openai', [
+            { choices: [{ delta: { content: 'Hi' } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, id: 'c1', function: { name: 'read_file', arguments: '{"pa' } }] } }] },
+            { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'th":"a"}' } }] } }] },
+            { choices: [], usage: { prompt_tokens: 10, completion_tokens: 3 } }
+        ]);
+        assert.deepEqual(message, { role: 'assistant', content: 'Hi', tool_calls: [{ id: 'c1', function: { name: 'read_file', arguments: '{"path":"a"}' } }] });
+        assert.deepEqual(usage, { promptTokens: 10, completionTokens: 3 });
+    });
+});
+
+describe('Ollama adapter', () => {
+    const adapter = getProviderAdapter('ollama');
+
+    test('posts to /api/chat at the root with options and object arguments', () => {
+        const request = adapter.buildChatRequest({
+            model: 'qwen', messages: CONVERSATION, tools: TOOLS, stream: false, contextLength: 8192, sampling: { temperature: 0.2, max_tokens: 100 }
+        }, { baseURL: 'http://localhost:11434/v1/' });
+        const body = request.body as any;
+        assert.equal(request.url, 'http://localhost:11434/api/chat');
+        assert.equal(body.stream, false);
+        assert.deepEqual(body.options, { num_ctx: 8192, temperature: 0.2, num_predict: 100 });
+        assert.deepEqual(body.messages[2].tool_calls, [{ function: { name: 'read_file', arguments: { path: 'a' } } }]);
+        assert.equal(body.messages[3].tool_name, 'read_file');
+    });
+
+    test('parses NDJSON streams with ids for the tool calls', () => {
+        const { chunks, message, usage } = parseStream('ollama', [
+            { message: { content: 'Hel' } },
+            { message: { content: 'lo', tool_calls: [{ function: { name: 'read_file', arguments: { path: 'a' } } }] } },
+            { done: true, prompt_eval_count: 7, eval_count: 2 }
+        ], false);
+        assert.deepEqual(chunks, ['Hel', 'lo']);
+        assert.equal(message.content, 'Hello');
+        assert.match(message.tool_calls![0].id!, /^call_ollama_/);
+        assert.equal(message.tool_calls![0].function.arguments, '{"path":"a"}');
+        assert.deepEqual(usage, { promptTokens: 7, completionTokens: 2 });
+    });
+
+    test('classifies error bodies so they are retried or failed over', () => {
+        assert.throws(() => adapter.parseResponse({ error: 'server busy, please try again' }), (e: unknown) => e instanceof ServerError && e.retryable);
+        assert.throws(() => parseStream('ollama', [{ message: { content: 'a' } }, { error: 'out of memory' }], false), ServerError);
+        assert.throws(() => adapter.parseResponse({ error: 'model "x" not found, try pulling it first' }), (e: unknown) => e instanceof LLMError && e.kind === 'request' && !e.retryable);
+        assert.throws(() => adapter.parseResponse({ error: 'input exceeds the context length' }), ContextOverflowError);
+    });
+});
+
+describe('Anthropic adapter', () => {
+    const adapter = getProviderAdapter('anthropic');
+
+    test('moves the system prompt out and sends tool results as user blocks', () => {
+        const request = adapter.buildChatRequest({ model: 'claude', messages: CONVERSATION, tools: TOOLS, stream: false }, { baseURL: 'https://api/v1', apiKey: 'k' });
+        const body = request.body as any;
+        assert.equal(request.url, 'https://api/v1/messages');
+        assert.equal(request.headers['x-api-key'], 'k');
+        assert.equal(body.system, 'sys');
+        assert.equal(body.max_tokens, 4096);
+        assert.deepEqual(body.messages.map((m: any) => [m.role, m.content.map((b: any) => b.type)]), [
+            ['user', ['text']],
+            ['assistant', ['tool_use']],
+            ['user', ['tool_result']]
+        ]);
+        assert.deepEqual(body.tools, [{ name: 'read_file', description: 'Read', input_schema: TOOLS[0].function.parameters }]);
+    });
+
+    test('parses streamed text and tool_use blocks', () => {
+        const { message, usage } = parseStream('anthropic', [
+            { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Reading' } },
+            { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'tu1', name: 'read_file' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+            { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"a"}' } },
+            { type: 'content_block_stop', index: 1 },
+            { type: 'message_delta', usage: { output_tokens: 5 } }
+        ]);
+        assert.deepEqual(message, { role: 'assistant', content: 'Reading', tool_calls: [{ id: 'tu1', function: { name: 'read_file', arguments: '{"path":"a"}' } }] });
+        assert.deepEqual(usage, { promptTokens: 12, completionTokens: 5 });
+    });
+
+    test('classifies error events in the stream', () => {
+        assert.throws(() => parseStream('anthropic', [{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }]), ServerError);
+    });
+});
+
+describe('LLMClient with Ollama', () => {
+    test('retries an error body like any other server error', async () => {
+        const server = await startServer((_req, res, _body, index) => {
+            res.end(JSON.stringify(index === 0 ? { error: 'server busy' } : { message: { role: 'assistant', content: 'ok' }, done: true }));
+        });
+        try {
+            const config: OpenCodeConfig = { provider: 'ollama', baseURL: server.url, model: 'qwen', retries: 1 };
+            const client = new LLMClient(config);
+            const retries: string[] = [];
+            client.on('retry', ({ kind }) => retries.push(kind));
+            const reply = await client.chat([{ role: 'user', content: 'hi' }], { tools: [] });
+            assert.equal(reply.content, 'ok');
+            assert.deepEqual(retries, ['server']);
+        } finally {
+            await server.close();
+        }
+    });
+});
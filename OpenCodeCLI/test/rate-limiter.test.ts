@@ -0,0 +1,60 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isAbortError } from '../src/llm-errors';
+import { RateLimiter, sleep } from '../src/rate-limiter';
+
+describe('RateLimiter', () => {
+    test('lets no more than maxConcurrent requests run at once', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const first = await limiter.acquire();
+        let started = false;
+        const second = limiter.acquire().then(release => { started = true; return release; });
+        await sleep(20);
+        assert.ok(!started);
+        first();
+        first();
+        (await second)();
+        assert.ok(started);
+    });
+
+    test('holds requests back over requestsPerMinute', async () => {
+        const limiter = new RateLimiter({ requestsPerMinute: 1 });
+        (await limiter.acquire())();
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 30);
+        await assert.rejects(limiter.acquire(controller.signal), (e: unknown) => isAbortError(e));
+        limiter.setLimits({});
+        (await limiter.acquire())();
+    });
+
+    test('pauses every request until the given time', async () => {
+        const limiter = new RateLimiter();
+        limiter.pauseUntil(Date.now() + 50);
+        limiter.pauseUntil(Date.now());
+        const started = Date.now();
+        (await limiter.acquire())();
+        assert.ok(Date.now() - started >= 40);
+    });
+
+    test('drops a cancelled waiter from the queue', async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const first = await limiter.acquire();
+        const controller = new AbortController();
+        const waiting = limiter.acquire(controller.signal);
+        controller.abort();
+        await assert.rejects(waiting, (e: unknown) => isAbortError(e));
+        first();
+        (await limiter.acquire())();
+    });
+});
+
+describe('sleep', () => {
+    test('rejects when cancelled before or during the wait', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await assert.rejects(sleep(10, controller.signal), (e: unknown) => isAbortError(e));
+        const later = new AbortController();
+        setTimeout(() => later.abort(), 10);
+        await assert.rejects(sleep(10000, later.signal), (e: unknown) => isAbortError(e));
+    });
+});
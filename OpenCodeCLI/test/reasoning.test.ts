@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getProviderAdapter } from '../src/providers';
+import { inlineReasoning, separateReasoning, splitThinkTags, ThinkTagStream } from '../src/reasoning';
+
+/** Push the chunks through a ThinkTagStream; returns what went where */
+function route(chunks: string[]) {
+    const content: string[] = [];
+    const reasoning: string[] = [];
+    const stream = new ThinkTagStream(text => content.push(text), text => reasoning.push(text));
+    for (const chunk of chunks) stream.push(chunk);
+    stream.flush();
+    return { content: content.join(''), reasoning: reasoning.join('') };
+}
+
+describe('splitThinkTags', () => {
+    test('moves <think> blocks out of the content', () => {
+        assert.deepEqual(splitThinkTags('<think>\nplan\n</think>\n\nAnswer'), { content: 'Answer', reasoning: 'plan' });
+        assert.deepEqual(splitThinkTags('A<think>x</think>B<think>y</think>'), { content: 'AB', reasoning: 'x\n\ny' });
+        assert.deepEqual(splitThinkTags('no tags'), { content: 'no tags', reasoning: '' });
+    });
+
+    test('handles a block opened in the prompt and one cut off at the end', () => {
+        assert.deepEqual(splitThinkTags('already thinking</think>Answer'), { content: 'Answer', reasoning: 'already thinking' });
+        assert.deepEqual(splitThinkTags('Answer<think>cut off'), { content: 'Answer', reasoning: 'cut off' });
+    });
+});
+
+describe('separateReasoning', () => {
+    test('adds inline reasoning after the provider field and leaves plain replies alone', () => {
+        const plain = { role: 'assistant' as const, content: 'hi' };
+        assert.equal(separateReasoning(plain), plain);
+        assert.deepEqual(separateReasoning({ role: 'assistant', content: '<think>b</think>', reasoning: 'a' }), {
+            role: 'assistant', content: null, reasoning: 'a\n\nb'
+        });
+    });
+});
+
+describe('inlineReasoning', () => {
+    test('puts reasoning back in front of assistant content only', () => {
+        assert.deepEqual(inlineReasoning([
+            { role: 'user', content: 'q' },
+            { role: 'assistant', content: 'a', reasoning: 'r' },
+            { role: 'assistant', content: null, reasoning: 'tools' }
+        ]).map(m => m.content), ['q', '<think>\nr\n</think>\na', '<think>\ntools\n</think>\n']);
+    });
+});
+
+describe('ThinkTagStream', () => {
+    test('routes text by tag and drops the blank lines after a tag', () => {
+        assert.deepEqual(route(['<think>\nplan', ' more</think>\n\nAnswer']), { content: 'Answer', reasoning: 'plan more' });
+    });
+
+    test('recognizes tags split across chunks', () => {
+        assert.deepEqual(route(['<th', 'ink>x</', 'thi', 'nk>y']), { content: 'y', reasoning: 'x' });
+        assert.deepEqual(route(['a <', 'b']), { content: 'a <b', reasoning: '' });
+    });
+
+    test('holds back only what could be the start of a tag', () => {
+        const content: string[] = [];
+        const stream = new ThinkTagStream(text => content.push(text), () => assert.fail('no reasoning'));
+        stream.push('x <thi');
+        assert.deepEqual(content, ['x ']);
+        stream.flush();
+        assert.deepEqual(content, ['x ', '<thi']);
+    });
+});
+
+describe('reasoning fields in streams', () => {
+    test('sends reasoning_content to onReasoning and keeps it out of the content', () => {
+        const chunks: string[] = [];
+        const thoughts: string[] = [];
+        const parser = getProviderAdapter('openai').createStreamParser(text => chunks.push(text), text => thoughts.push(text));
+        parser.push(`data: ${JSON.stringify({ choices: [{ delta: { reasoning_content: 'hmm' } }] })}`);
+        parser.push(`data: ${JSON.stringify({ choices: [{ delta: { content: 'ok' } }] })}`);
+        assert.deepEqual([chunks, thoughts], [['ok'], ['hmm']]);
+        assert.deepEqual(parser.finish().message, { role: 'assistant', content: 'ok', tool_calls: undefined, reasoning: 'hmm' });
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SamplingDefaults, validateSampling } from '../src/config-schema';
+import { LLMClient } from '../src/llm-client';
+import { getProviderAdapter } from '../src/providers';
+import { startServer } from './fakes';
+
+const TOOLS = [{ type: 'function', function: { name: 'read_file', parameters: { type: 'object', properties: {} } } }];
+const READ_FILE = { type: 'function' as const, function: { name: 'read_file' } };
+
+/** Request body an adapter builds for these sampling parameters */
+function bodyFor(kind: 'openai' | 'ollama' | 'anthropic', sampling: SamplingDefaults, tools: object[] = TOOLS): any {
+    return getProviderAdapter(kind).buildChatRequest({ model: 'm', messages: [{ role: 'user', content: 'hi' }], tools, stream: false, sampling }, { baseURL: 'http://x/v1' }).body;
+}
+
+describe('validateSampling', () => {
+    test('accepts every parameter in range', () => {
+        assert.deepEqual(validateSampling({ temperature: 0, top_p: 1, max_tokens: 10, stop: ['\n'], seed: -1, tool_choice: READ_FILE }, 'sampling'), []);
+        assert.deepEqual(validateSampling({ stop: 'END', tool_choice: 'required' }, 'sampling'), []);
+    });
+
+    test('reports each bad value at its path and warns about unknown keys', () => {
+        const issues = validateSampling({ temperature: 3, top_p: '1', max_tokens: 1.5, seed: 0.5, stop: [1], tool_choice: 'always', top_k: 40 }, 'models.m.sampling');
+        assert.deepEqual(issues.map(i => [i.path, i.severity]), [
+            ['models.m.sampling.top_k', 'warning'],
+            ['models.m.sampling.temperature', 'error'],
+            ['models.m.sampling.top_p', 'error'],
+            ['models.m.sampling.max_tokens', 'error'],
+            ['models.m.sampling.seed', 'error'],
+            ['models.m.sampling.stop', 'error'],
+            ['models.m.sampling.tool_choice', 'error']
+        ]);
+        assert.deepEqual(validateSampling([], 'sampling').map(i => i.message), ['must be an object']);
+    });
+});
+
+describe('sampling in requests', () => {
+    test('OpenAI-compatible: top-level fields, tool_choice only with tools', () => {
+        const body = bodyFor('openai', { temperature: 0.2, stop: 'END', tool_choice: 'required' });
+        assert.equal(body.temperature, 0.2);
+        assert.equal(body.stop, 'END');
+        assert.equal(body.tool_choice, 'required');
+        assert.equal(bodyFor('openai', { tool_choice: 'required' }, []).tool_choice, undefined);
+    });
+
+    test('Ollama: options, and tool_choice none leaves the tools out', () => {
+        const body = bodyFor('ollama', { max_tokens: 50, seed: 7, stop: 'END', tool_choice: 'none' });
+        assert.deepEqual(body.options, { num_predict: 50, seed: 7, stop: ['END'] });
+        assert.equal(body.tools, undefined);
+    });
+
+    test('Anthropic: stop_sequences and its own tool_choice shapes', () => {
+        assert.deepEqual(bodyFor('anthropic', { stop: 'END', tool_choice: READ_FILE }).tool_choice, { type: 'tool', name: 'read_file' });
+        assert.deepEqual(bodyFor('anthropic', { stop: 'END' }).stop_sequences, ['END']);
+        assert.deepEqual(bodyFor('anthropic', { tool_choice: 'required' }).tool_choice, { type: 'any' });
+    });
+
+    test('the call overrides /set, which overrides the model', async () => {
+        const server = await startServer((_req, res) => res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'ok' } }] })));
+        try {
+            const client = new LLMClient({
+                baseURL: server.url, model: 'm', retries: 0,
+                sampling: { temperature: 0.1, top_p: 0.5, seed: 1 },
+                samplingOverrides: { temperature: 0.3, seed: 2 }
+            });
+            await client.chat([{ role: 'user', content: 'hi' }], { tools: [], sampling: { seed: 3 } });
+            const { temperature, top_p, seed } = server.bodies[0];
+            assert.deepEqual({ temperature, top_p, seed }, { temperature: 0.3, top_p: 0.5, seed: 3 });
+        } finally {
+            await server.close();
+        }
+    });
+});
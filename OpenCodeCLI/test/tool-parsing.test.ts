@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractToolCalls, toPromptToolMessages } from '../src/tool-parsing';
+
+const KNOWN = ['read_file', 'run_command'];
+
+/** Name and parsed arguments of each extracted call */
+function calls(content: string) {
+    const extracted = extractToolCalls(content, KNOWN);
+    return {
+        calls: extracted.toolCalls.map(c => [c.function.name, JSON.parse(c.function.arguments)]),
+        content: extracted.content
+    };
+}
+
+describe('extractToolCalls', () => {
+    test('reads <tool_call> blocks and keeps the text around them', () => {
+        assert.deepEqual(calls('Let me look.\n<tool_call>{"name": "read_file", "arguments": {"path": "a.ts"}}</tool_call>'), {
+            calls: [['read_file', { path: 'a.ts' }]],
+            content: 'Let me look.'
+        });
+    });
+
+    test('reads Llama-style <function=name> tags', () => {
+        assert.deepEqual(calls('<function=run_command>{"command": "ls"}</function>').calls, [['run_command', { command: 'ls' }]]);
+    });
+
+    test('reads fenced JSON, bare JSON and the usual argument shapes', () => {
+        assert.deepEqual(calls('```json\n{"tool": "read_file", "args": {"path": "x"}}\n```').calls, [['read_file', { path: 'x' }]]);
+        assert.deepEqual(calls('{"function": {"name": "read_file", "arguments": "{\\"path\\": \\"y\\"}"}}'), {
+            calls: [['read_file', { path: 'y' }]],
+            content: null
+        });
+        assert.deepEqual(calls('[{"name": "read_file", "parameters": {"path": "1"}}, {"name": "run_command", "parameters": {"command": "ls"}}]').calls, [
+            ['read_file', { path: '1' }],
+            ['run_command', { command: 'ls' }]
+        ]);
+    });
+
+    test('ignores JSON that does not name a known tool', () => {
+        const text = 'Example config:\n```json\n{"name": "my-package", "version": "1.0.0"}\n```';
+        assert.deepEqual(calls(text), { calls: [], content: text });
+        assert.deepEqual(calls('<tool_call>{"name": "delete_everything"}</tool_call>').calls, []);
+    });
+
+    test('gives every call its own id', () => {
+        const { toolCalls } = extractToolCalls('<tool_call>{"name": "read_file", "arguments": {}}</tool_call><tool_call>{"name": "read_file", "arguments": {}}</tool_call>', KNOWN);
+        assert.equal(toolCalls.length, 2);
+        assert.notEqual(toolCalls[0].id, toolCalls[1].id);
+    });
+});
+
+describe('toPromptToolMessages', () => {
+    test('writes tool calls and results as text and adds the schemas to the system prompt', () => {
+        const tools = [{ type: 'function', function: { name: 'read_file', description: 'Read', parameters: {} } }];
+        const messages = toPromptToolMessages([
+            { role: 'system', content: 'sys' },
+            { role: 'assistant', content: 'Reading.', tool_calls: [{ id: '1', function: { name: 'read_file', arguments: '{"path":"a"}' } }] },
+            { role: 'tool', tool_call_id: '1', name: 'read_file', content: 'A' }
+        ], tools);
+
+        assert.match(messages[0].content as string, /^sys\n\n# Tool calling\n[^]*\{"name":"read_file","description":"Read","parameters":\{\}\}$/);
+        assert.deepEqual(messages.slice(1), [
+            { role: 'assistant', content: 'Reading.\n<tool_call>{"name": "read_file", "arguments": {"path":"a"}}</tool_call>' },
+            { role: 'user', content: '<tool_response name="read_file">\nA\n</tool_response>' }
+        ]);
+    });
+
+    test('adds a system message when there is none', () => {
+        const messages = toPromptToolMessages([{ role: 'user', content: 'hi' }], []);
+        assert.equal(messages[0].role, 'system');
+        assert.deepEqual(messages[1], { role: 'user', content: 'hi' });
+    });
+});
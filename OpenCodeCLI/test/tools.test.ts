@@ -0,0 +1,147 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ToolExecutor } from '../src/tools';
+import { enterTempDir, leaveTempDir, toolCall } from './fakes';
+
+let dir: string;
+let tools: ToolExecutor;
+
+before(() => {
+    dir = enterTempDir('tools');
+    tools = new ToolExecutor({ quiet: true });
+});
+after(() => leaveTempDir(dir));
+
+const write = (name: string, content: string | Buffer) => fs.writeFileSync(path.join(dir, name), content);
+const read = (name: string) => fs.readFileSync(path.join(dir, name), 'utf-8');
+const run = async (name: string, args: object) => (await tools.execute(toolCall('1', name, args))).content;
+
+describe('read_file', () => {
+    const numbered = (count: number, make = (n: number) => `line ${n}`) => Array.from({ length: count }, (_, i) => make(i + 1)).join('\n') + '\n';
+
+    test('reads a range with line numbers, and to the end when end_line is past it', async () => {
+        write('ten.txt', numbered(10));
+        assert.equal(await run('read_file', { path: 'ten.txt', start_line: 3, end_line: '5' }), 'ten.txt: 10 line(s), 71 bytes. Showing lines 3-5.\n3\tline 3\n4\tline 4\n5\tline 5');
+        assert.equal(await run('read_file', { path: 'ten.txt', start_line: 9, end_line: 100 }), 'ten.txt: 10 line(s), 71 bytes. Showing lines 9-10.\n 9\tline 9\n10\tline 10');
+    });
+
+    test('leaves the numbers out with line_numbers false or "false"', async () => {
+        write('two.txt', 'a\r\nb');
+        assert.equal(await run('read_file', { path: 'two.txt', line_numbers: 'false' }), 'two.txt: 2 line(s), 4 bytes.\na\nb');
+        assert.equal(await run('read_file', { path: 'two.txt', line_numbers: false, start_line: 2 }), 'two.txt: 2 line(s), 4 bytes. Showing lines 2-2.\nb');
+    });
+
+    test('reports ranges it cannot read', async () => {
+        write('three.txt', numbered(3));
+        assert.equal(await run('read_file', { path: 'three.txt', start_line: 4 }), 'Error: start_line 4 is past the end of three.txt (3 lines).');
+        assert.equal(await run('read_file', { path: 'three.txt', start_line: 3, end_line: 2 }), 'Error: end_line 2 is before start_line 3.');
+        assert.match(await run('read_file', { path: 'three.txt', start_line: 'top' }), /start_line must be a line number, got "top"/);
+        assert.match(await run('read_file', { path: 'three.txt', end_line: 0 }), /end_line must be 1 or more/);
+    });
+
+    test('stops at the character limit and says where to read on', async () => {
+        write('wide.txt', numbered(100, n => `${n}`.padEnd(1000, '.')));
+        const output = await run('read_file', { path: 'wide.txt' });
+        const shown = output.split('\n').slice(1, -1);
+        assert.equal(shown.length, 29);
+        assert.match(output, /^wide\.txt: 100 line\(s\), 98 KB\. Showing lines 1-29\.\n/);
+        assert.match(output, /\n\.\.\. \[output limit reached; read on with start_line: 30\]$/);
+    });
+
+    test('stops at the line limit', async () => {
+        write('long.txt', numbered(2500, n => `${n}`));
+        const output = await run('read_file', { path: 'long.txt', line_numbers: false });
+        assert.match(output, /Showing lines 1-2000\.\n1\n/);
+        assert.match(output, /\n2000\n\.\.\. \[output limit reached; read on with start_line: 2001\]$/);
+    });
+
+    test('cuts very long lines', async () => {
+        write('minified.js', `${'x'.repeat(5000)}\nshort\n`);
+        const output = await run('read_file', { path: 'minified.js' });
+        assert.ok(output.includes(`1\t${'x'.repeat(2000)}... [3000 characters cut]\n2\tshort`));
+    });
+
+    test('describes binary files and images instead of showing them', async () => {
+        write('data.bin', Buffer.from([1, 2, 0, 3]));
+        assert.equal(await run('read_file', { path: 'data.bin' }), 'data.bin is a binary file (4 bytes). Its contents are not shown.');
+        const png = Buffer.alloc(40);
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(png);
+        png.writeUInt32BE(20, 16);
+        png.writeUInt32BE(10, 20);
+        write('pixel.png', png);
+        assert.equal(await run('read_file', { path: 'pixel.png' }), 'pixel.png is a PNG image, 20x10 (40 bytes). Its contents are not shown.');
+    });
+
+    test('says so when the file is empty', async () => {
+        write('empty.txt', '');
+        assert.equal(await run('read_file', { path: 'empty.txt' }), 'empty.txt: 0 line(s), 0 bytes. The file is empty.');
+    });
+});
+
+describe('edit_file', () => {
+    test('replaces a unique match', async () => {
+        write('a.txt', 'one two three\n');
+        assert.match(await run('edit_file', { path: 'a.txt', old_text: 'two', new_text: '2' }), /Replaced 1 occurrence/);
+        assert.equal(read('a.txt'), 'one 2 three\n');
+    });
+
+    test('lists the lines of an ambiguous match and changes nothing', async () => {
+        write('b.txt', 'x\ny\nx\n');
+        assert.match(await run('edit_file', { path: 'b.txt', old_text: 'x', new_text: 'z' }), /occurs 2 times in b\.txt \(lines 1, 3\)/);
+        assert.equal(read('b.txt'), 'x\ny\nx\n');
+    });
+
+    test('replaces the chosen occurrence, also when it comes as a string', async () => {
+        write('c.txt', 'x x x');
+        await run('edit_file', { path: 'c.txt', old_text: 'x', new_text: 'b', occurrence: 2 });
+        await run('edit_file', { path: 'c.txt', old_text: 'x', new_text: 'c', occurrence: ' 2 ' });
+        assert.equal(read('c.txt'), 'x b c');
+        assert.match(await run('edit_file', { path: 'c.txt', old_text: 'x', new_text: 'd', occurrence: 'second' }), /occurrence must be between 1 and 1/);
+        assert.match(await run('edit_file', { path: 'c.txt', old_text: 'x', new_text: 'd', occurrence: 3 }), /occurrence must be between 1 and 1/);
+    });
+
+    test('replaces every match with replace_all true or "true"', async () => {
+        write('d.txt', 'a-a-a');
+        assert.match(await run('edit_file', { path: 'd.txt', old_text: 'a', new_text: 'b', replace_all: 'true' }), /Replaced 3 occurrence/);
+        assert.equal(read('d.txt'), 'b-b-b');
+        await run('edit_file', { path: 'd.txt', old_text: 'b', new_text: 'c', replace_all: true });
+        assert.equal(read('d.txt'), 'c-c-c');
+        assert.match(await run('edit_file', { path: 'd.txt', old_text: 'c', new_text: 'd', replace_all: 'no' }), /occurs 3 times/);
+    });
+
+    test('reports text that is not in the file', async () => {
+        write('e.txt', 'abc');
+        assert.match(await run('edit_file', { path: 'e.txt', old_text: 'xyz', new_text: '' }), /Could not find the specified text in e\.txt/);
+    });
+});
+
+describe('apply_patch', () => {
+    test('changes, creates and deletes files', async () => {
+        write('p.txt', 'one\ntwo\n');
+        write('gone.txt', 'bye\n');
+        const output = await run('apply_patch', {
+            patch: [
+                '--- a/p.txt', '+++ b/p.txt', '@@ -1,2 +1,2 @@', ' one', '-two', '+TWO',
+                '--- /dev/null', '+++ b/new/q.txt', '@@ -0,0 +1 @@', '+created',
+                '--- a/gone.txt', '+++ /dev/null', '@@ -1 +0,0 @@', '-bye'
+            ].join('\n') + '\n'
+        });
+        assert.doesNotMatch(output, /^Error/);
+        assert.equal(read('p.txt'), 'one\nTWO\n');
+        assert.equal(read('new/q.txt'), 'created\n');
+        assert.ok(!fs.existsSync(path.join(dir, 'gone.txt')));
+    });
+
+    test('writes nothing when one hunk fails', async () => {
+        write('r.txt', 'a\n');
+        write('s.txt', 'b\n');
+        const output = await run('apply_patch', {
+            patch: ['--- a/r.txt', '+++ b/r.txt', '@@ -1 +1 @@', '-a', '+A', '--- a/s.txt', '+++ b/s.txt', '@@ -1 +1 @@', '-nope', '+B'].join('\n') + '\n'
+        });
+        assert.match(output, /s\.txt/);
+        assert.equal(read('r.txt'), 'a\n');
+        assert.equal(read('s.txt'), 'b\n');
+    });
+});
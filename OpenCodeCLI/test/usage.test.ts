@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OpenCodeConfig } from '../src/config';
+import { LLMClient } from '../src/llm-client';
+import { TokenUsage, UsageTracker, estimateCost, formatUsage } from '../src/usage';
+import { startServer } from './fakes';
+
+describe('UsageTracker', () => {
+    test('adds up requests, tokens, estimates and cost', () => {
+        const tracker = new UsageTracker();
+        tracker.add({ promptTokens: 1000, completionTokens: 200, estimated: false, cost: 0.01 });
+        tracker.add({ promptTokens: 500, completionTokens: 50, estimated: true });
+        assert.deepEqual(tracker.getTotals(), { requests: 2, promptTokens: 1500, completionTokens: 250, estimatedRequests: 1, cost: 0.01 });
+        assert.equal(formatUsage(tracker.getTotals()), '1,500 in / 250 out (2 requests, 1 estimated, ~$0.0100)');
+
+        tracker.reset();
+        assert.equal(formatUsage(tracker.getTotals()), '0 in / 0 out (0 requests)');
+    });
+
+    test('prices tokens per million, and only with pricing', () => {
+        assert.equal(estimateCost(2_000_000, 1_000_000, { input: 0.5, output: 1.5 }), 2.5);
+        assert.equal(estimateCost(100, 100), undefined);
+    });
+});
+
+describe('LLMClient usage', () => {
+    const config = (baseURL: string): OpenCodeConfig => ({ baseURL, model: 'm', retries: 0, pricing: { input: 1, output: 2 } });
+
+    test('takes the counts the server reports and prices them', async () => {
+        const server = await startServer((_req, res) => res.end(JSON.stringify({
+            choices: [{ message: { role: 'assistant', content: 'hi' } }],
+            usage: { prompt_tokens: 1000, completion_tokens: 500 }
+        })));
+        try {
+            const client = new LLMClient(config(server.url));
+            const reported: TokenUsage[] = [];
+            await client.chat([{ role: 'user', content: 'hi' }], { tools: [], onUsage: u => reported.push(u) });
+            assert.deepEqual(reported, [{ promptTokens: 1000, completionTokens: 500, estimated: false, cost: 0.002 }]);
+            assert.equal(client.getSessionUsage().getTotals().requests, 1);
+        } finally {
+            await server.close();
+        }
+    });
+
+    test('estimates the counts when the server reports none', async () => {
+        const server = await startServer((_req, res) => res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'x'.repeat(40) } }] })));
+        try {
+            const reported: TokenUsage[] = [];
+            await new LLMClient(config(server.url)).chat([{ role: 'user', content: 'y'.repeat(80) }], { tools: [], onUsage: u => reported.push(u) });
+            assert.deepEqual(reported.map(u => [u.promptTokens, u.completionTokens, u.estimated]), [[24, 14, true]]);
+        } finally {
+            await server.close();
+        }
+    });
+});
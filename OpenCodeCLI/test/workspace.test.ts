@@ -0,0 +1,115 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { ToolExecutor } from '../src/tools';
+import { DEFAULT_PROTECTED_PATHS, globToRegExp, PathAccessError, Workspace } from '../src/workspace';
+import { enterTempDir, leaveTempDir, toolCall } from './fakes';
+
+describe('globToRegExp', () => {
+    const matches = (glob: string, file: string) => globToRegExp(glob).test(file);
+
+    test('matches globs without a slash against the name in any directory', () => {
+        assert.ok(matches('.env*', '.env.local'));
+        assert.ok(matches('.env*', 'config/.env'));
+        assert.ok(!matches('*.lock', 'yarn.lock.d/x'));
+    });
+
+    test('anchors globs with a slash at the root', () => {
+        assert.ok(matches('secrets/**', 'secrets/a/b.key'));
+        assert.ok(!matches('secrets/**', 'src/secrets/a'));
+        assert.ok(matches('**/.git/**', 'sub/module/.git/config'));
+    });
+
+    test('protects .git and nested .git directories by default', () => {
+        const protectedBy = (file: string) => DEFAULT_PROTECTED_PATHS.find(glob => matches(glob, file));
+        assert.equal(protectedBy('.git'), '.git');
+        assert.equal(protectedBy('.git/config'), '**/.git/**');
+        assert.equal(protectedBy('sub/.git/config'), '**/.git/**');
+        assert.equal(protectedBy('.github/workflows/ci.yml'), undefined);
+        assert.equal(protectedBy('src/.gitignore'), undefined);
+    });
+});
+
+describe('Workspace', () => {
+    let tmp: string;
+    let root: string;
+    let outside: string;
+
+    before(() => {
+        tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'opencode-ws-')));
+        root = path.join(tmp, 'root');
+        outside = path.join(tmp, 'outside');
+        fs.mkdirSync(root);
+        fs.mkdirSync(outside);
+        fs.writeFileSync(path.join(outside, 'secret.txt'), 'x');
+        fs.symlinkSync(outside, path.join(root, 'link'));
+        fs.writeFileSync(path.join(root, '.env'), 'KEY=1');
+    });
+
+    after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+    test('resolves paths inside the root, including files yet to be created', () => {
+        const ws = new Workspace(root);
+        assert.equal(ws.resolve('src/new/file.ts'), path.join(root, 'src/new/file.ts'));
+        assert.equal(ws.resolve(path.join(root, 'a.txt')), path.join(root, 'a.txt'));
+    });
+
+    test('refuses ../ paths, absolute paths elsewhere and symlinks leading out', () => {
+        const ws = new Workspace(root);
+        assert.throws(() => ws.resolve('../outside/secret.txt'), PathAccessError);
+        assert.throws(() => ws.resolve('/etc/passwd'), PathAccessError);
+        assert.throws(() => ws.resolve('link/secret.txt'), /links to/);
+        assert.throws(() => ws.resolve('link/new.txt'), PathAccessError);
+    });
+
+    test('allows extra roots', () => {
+        const ws = new Workspace(root, { extraRoots: [outside] });
+        assert.equal(ws.resolve('../outside/secret.txt'), path.join(outside, 'secret.txt'));
+        assert.equal(ws.resolve('link/secret.txt'), path.join(root, 'link/secret.txt'));
+    });
+
+    test('reports the protected glob a path matches', () => {
+        const ws = new Workspace(root, { protectedPaths: ['.env*', 'config/*.key'] });
+        assert.equal(ws.protectedMatch(path.join(root, '.env')), '.env*');
+        assert.equal(ws.protectedMatch(path.join(root, 'config/prod.key')), 'config/*.key');
+        assert.equal(ws.protectedMatch(path.join(root, 'src/config/prod.key')), undefined);
+    });
+});
+
+describe('git_add', () => {
+    let dir: string;
+    let tools: ToolExecutor;
+    const add = async (paths: string) => (await tools.execute(toolCall('1', 'git_add', { paths }))).content;
+    const staged = () => execFileSync('git', ['diff', '--cached', '--name-only'], { cwd: dir, encoding: 'utf-8' }).trim().split('\n').filter(Boolean);
+
+    before(() => {
+        dir = enterTempDir('git-add');
+        execFileSync('git', ['init', '-q'], { cwd: dir });
+        fs.writeFileSync(path.join(dir, 'a.txt'), 'a');
+        fs.writeFileSync(path.join(dir, '-b.txt'), 'b');
+        tools = new ToolExecutor({ quiet: true });
+    });
+
+    after(() => leaveTempDir(dir));
+
+    test('refuses options other than -A, -u and --', async () => {
+        assert.match(await add('--chmod=+x a.txt'), /^Error: git_add does not take the option --chmod=\+x/);
+        assert.match(await add('--pathspec-from-file=/etc/passwd'), /^Error: /);
+        assert.deepEqual(staged(), []);
+    });
+
+    test('refuses paths outside the workspace, even after an allowed option', async () => {
+        assert.match(await add('-u ../elsewhere'), /^Error: /);
+        assert.deepEqual(staged(), []);
+    });
+
+    test('takes paths starting with - after --', async () => {
+        await add('-- -b.txt');
+        assert.deepEqual(staged(), ['-b.txt']);
+        await add('-A');
+        assert.deepEqual(staged(), ['-b.txt', 'a.txt']);
+    });
+});